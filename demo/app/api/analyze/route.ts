@@ -1,4 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import { withX402Route } from "@x402/stacks/adapters";
+import { createHiroProvider } from "@x402/stacks/chain";
+import { STACKS_TESTNET } from "@x402/stacks/types";
 
 const CONTRACT_ADDRESS = "ST356P5YEXBJC1ZANBWBNR0N0X7NT8AV7FZ017K55";
 const CONTRACT_NAME = "x402-payments";
@@ -8,6 +11,13 @@ const PAY_TO = "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG";
 const PRICE_MICRO_STX = "10000"; // 0.01 STX
 const API_URL = "https://api.testnet.hiro.so";
 
+// Payment verification reads the chain through this provider
+const chain = createHiroProvider({
+  apiUrl: API_URL,
+  apiKey: process.env.HIRO_API_KEY,
+  timeoutMs: 10_000,
+});
+
 /**
  * GET /api/analyze?token=STX
  *
@@ -15,129 +25,33 @@ const API_URL = "https://api.testnet.hiro.so";
  * Without PAYMENT-SIGNATURE header: returns 402 with payment requirements.
  * With valid payment proof: returns the analysis.
  */
-export async function GET(request: NextRequest) {
-  const paymentHeader = request.headers.get("PAYMENT-SIGNATURE");
-
-  // No payment — return 402 Payment Required
-  if (!paymentHeader) {
-    const resource = {
-      url: request.url,
-      description: "Stacks token analysis with holder data, transfer history, and metrics",
-      mimeType: "application/json",
-    };
-
-    const paymentRequired = {
-      x402Version: 2,
-      error: "Payment required",
-      resource,
-      accepts: [
-        {
-          scheme: "exact",
-          network: "stacks:2147483648",
-          asset: "STX",
-          amount: PRICE_MICRO_STX,
-          payTo: PAY_TO,
-          maxTimeoutSeconds: 300,
-          extra: {
-            contractAddress: CONTRACT_ADDRESS,
-            contractName: CONTRACT_NAME,
-          },
-        },
-      ],
-    };
-
-    const encoded = Buffer.from(JSON.stringify(paymentRequired)).toString("base64");
-
-    return NextResponse.json(
-      {
-        error: "payment_required",
-        message: "Pay 0.01 STX to access token analysis",
-        price: "0.01 STX",
-        contract: `${CONTRACT_ADDRESS}.${CONTRACT_NAME}`,
-      },
-      {
-        status: 402,
-        headers: {
-          "PAYMENT-REQUIRED": encoded,
-        },
-      }
-    );
-  }
-
-  // Has payment header — verify it
-  let payload;
-  try {
-    const decoded = Buffer.from(paymentHeader, "base64").toString("utf-8");
-    payload = JSON.parse(decoded);
-  } catch {
-    return NextResponse.json({ error: "Invalid payment header" }, { status: 400 });
-  }
-
-  const { txId, nonce } = payload.payload || {};
-
-  if (!txId) {
-    return NextResponse.json({ error: "Missing txId in payment" }, { status: 400 });
-  }
-
-  // Verify the transaction on-chain
-  try {
-    const txResp = await fetch(`${API_URL}/extended/v1/tx/${txId}`);
-    if (!txResp.ok) {
-      return NextResponse.json(
-        { error: "Transaction not found. It may still be pending." },
-        { status: 402 }
-      );
-    }
-
-    const txData = await txResp.json();
-
-    if (txData.tx_status !== "success") {
-      return NextResponse.json(
-        { error: `Transaction status: ${txData.tx_status}` },
-        { status: 402 }
-      );
-    }
-
-    // Verify it called our contract
-    const expectedContract = `${CONTRACT_ADDRESS}.${CONTRACT_NAME}`;
-    if (txData.contract_call?.contract_id !== expectedContract) {
-      return NextResponse.json(
-        { error: "Payment was not to the correct contract" },
-        { status: 402 }
-      );
-    }
-  } catch (err) {
-    return NextResponse.json(
-      { error: `Verification failed: ${err}` },
-      { status: 500 }
-    );
-  }
-
-  // Payment verified — return the token analysis
-  const token = request.nextUrl.searchParams.get("token") || "STX";
+export const GET = withX402Route(
+  async (request: NextRequest, { x402 }) => {
+    const token = request.nextUrl.searchParams.get("token") || "STX";
 
-  // Fetch real data from Hiro API
-  const analysis = await fetchTokenAnalysis(token);
+    // Fetch real data from Hiro API
+    const analysis = await fetchTokenAnalysis(token);
 
-  return NextResponse.json(
-    {
+    return NextResponse.json({
       success: true,
-      paymentTx: txId,
+      paymentTx: x402.payload.payload.txId,
+      payer: x402.payer,
       analysis,
+    });
+  },
+  {
+    config: {
+      contractAddress: CONTRACT_ADDRESS,
+      contractName: CONTRACT_NAME,
+      chain,
+      network: STACKS_TESTNET,
+      payTo: PAY_TO,
     },
-    {
-      headers: {
-        "PAYMENT-RESPONSE": Buffer.from(
-          JSON.stringify({
-            success: true,
-            transaction: txId,
-            network: "stacks:2147483648",
-          })
-        ).toString("base64"),
-      },
-    }
-  );
-}
+    amount: PRICE_MICRO_STX,
+    description:
+      "Stacks token analysis with holder data, transfer history, and metrics",
+  }
+);
 
 async function fetchTokenAnalysis(token: string) {
   const now = new Date().toISOString();
@@ -86,11 +86,12 @@ function toHex(bytes: Uint8Array): string {
 async function waitForTx(
   txId: string
 ): Promise<"success" | "abort_by_response" | "pending"> {
-  const resp = await fetch(`${API_URL}/extended/v1/tx/${txId}`);
-  if (!resp.ok) return "pending";
-  const data = await resp.json();
-  if (data.tx_status === "success") return "success";
-  if (data.tx_status === "abort_by_response") return "abort_by_response";
+  const { createHiroProvider } = await import("@x402/stacks/chain");
+  const tx = await createHiroProvider({ apiUrl: API_URL })
+    .getTx(txId)
+    .catch(() => null);
+  if (tx?.status === "success") return "success";
+  if (tx?.status === "abort_by_response") return "abort_by_response";
   return "pending";
 }
 
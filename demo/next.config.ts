@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   // Prevent @stacks/connect-ui web components from being resolved during SSR
   serverExternalPackages: ["@stacks/connect-ui"],
+  // Route handlers import the SDK from ../sdk via the @x402/stacks alias
+  experimental: { externalDir: true },
 };
 
 export default nextConfig;
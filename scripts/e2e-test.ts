@@ -21,10 +21,12 @@ import {
   hexToCV,
   ClarityType,
   type ClarityValue,
+  type PostCondition,
 } from "@stacks/transactions";
 import { generateWallet, generateSecretKey, getStxAddress } from "@stacks/wallet-sdk";
 import { STACKS_TESTNET } from "@stacks/network";
 import { randomBytes } from "crypto";
+import { curveBuyPostConditions } from "../sdk/post-conditions.js";
 
 // ============================================================================
 // CONFIG
@@ -86,6 +88,7 @@ async function sendTx(opts: {
   args: ClarityValue[];
   privateKey: string;
   nonce: bigint;
+  postConditions?: PostCondition[];
 }): Promise<{ txid: string; nextNonce: bigint }> {
   const tx = await makeContractCall({
     contractAddress: DEPLOYER,
@@ -97,7 +100,8 @@ async function sendTx(opts: {
     fee: FEE,
     network: STACKS_TESTNET,
     anchorMode: AnchorMode.Any,
-    postConditionMode: PostConditionMode.Allow,
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: opts.postConditions ?? [],
   });
 
   const result = await broadcastTransaction({
@@ -299,6 +303,13 @@ async function main() {
   const paymentNonce = randomBytes(16);
   console.log(`  Payment nonce: 0x${paymentNonce.toString("hex")}`);
 
+  // Deny mode: agent2 spends exactly 5 STX (1% curve fee included)
+  const payment = curveBuyPostConditions(
+    `${DEPLOYER}.agent-launchpad`,
+    5_000_000n,
+    100n
+  );
+
   const { txid: payViaCurveTxid, nextNonce: a2N2 } = await sendTx({
     contract: "x402-curve-router-v2",
     fn: "pay-via-curve",
@@ -310,6 +321,7 @@ async function main() {
     ],
     privateKey: agent2.privateKey,
     nonce: agent2Nonce,
+    postConditions: payment.postConditions,
   });
   await waitForTx(payViaCurveTxid);
   agent2Nonce = a2N2;
@@ -0,0 +1,104 @@
+/**
+ * x402 Stacks SDK — Optimistic Acceptance
+ *
+ * Waiting for a block makes every paid request take one. For cheap
+ * requests a server may accept a payment while it is still in the mempool
+ * (see AcceptancePolicy). The risk is that the pending transaction later
+ * aborts, so each optimistic acceptance is re-checked in the background,
+ * and payers whose transaction fails are blocklisted.
+ */
+
+import type { PaymentRequirements } from "./types.js";
+import { type StacksChainProvider, resolveChain } from "./chain.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Payers refused because an optimistically accepted payment failed */
+export interface PayerBlocklist {
+  isBlocked(payer: string): Promise<boolean>;
+  block(payer: string, reason: string): Promise<void>;
+}
+
+/** A mempool payment that was accepted but never confirmed */
+export interface FailedPayment {
+  txId: string;
+  payer: string;
+  /** Final tx_status, or "timeout" if it never left the mempool */
+  status: string;
+  requirements: PaymentRequirements;
+}
+
+/** How a re-check of a pending payment ended */
+export type RecheckOutcome = "success" | "failed";
+
+// ============================================================================
+// BLOCKLIST
+// ============================================================================
+
+/**
+ * In-memory blocklist. Entries last for the life of the process; pass a
+ * shared implementation to block payers across instances.
+ */
+export function createMemoryPayerBlocklist(): PayerBlocklist {
+  const reasons = new Map<string, string>();
+  return {
+    async isBlocked(payer) {
+      return reasons.has(payer);
+    },
+    async block(payer, reason) {
+      reasons.set(payer, reason);
+    },
+  };
+}
+
+// ============================================================================
+// DEFERRED RE-CHECK
+// ============================================================================
+
+/**
+ * Poll a pending payment until it confirms, aborts or times out. A failure
+ * blocks the payer and is reported to `onFailed`.
+ */
+export async function recheckPendingPayment(
+  chain: StacksChainProvider | string,
+  txId: string,
+  payer: string,
+  requirements: PaymentRequirements,
+  options: {
+    blocklist: PayerBlocklist;
+    onFailed?: (failure: FailedPayment) => void;
+    timeout?: number;
+    pollInterval?: number;
+  }
+): Promise<RecheckOutcome> {
+  const timeout = options.timeout ?? 600_000;
+  const pollInterval = options.pollInterval ?? 10_000;
+  const provider = resolveChain(chain, requirements.network);
+  const start = Date.now();
+
+  let status = "timeout";
+  while (Date.now() - start < timeout) {
+    try {
+      const tx = await provider.getTx(txId);
+      if (tx) {
+        if (tx.status === "success") return "success";
+        if (tx.status !== "pending") {
+          status = tx.status;
+          break;
+        }
+      }
+    } catch {
+      // Retry on network error
+    }
+    await new Promise((r) => setTimeout(r, pollInterval));
+  }
+
+  await options.blocklist.block(
+    payer,
+    `Payment ${txId} accepted from the mempool ended as ${status}`
+  );
+  options.onFailed?.({ txId, payer, status, requirements });
+  return "failed";
+}
@@ -0,0 +1,288 @@
+/**
+ * x402 Stacks SDK — Framework Adapters
+ *
+ * Thin wrappers around withX402 for common server frameworks. Each one
+ * answers unpaid requests with 402 + PAYMENT-REQUIRED, sets
+ * PAYMENT-RESPONSE on paid ones, and exposes the verified payer to the
+ * route as `x402` on the framework's request context.
+ *
+ * Framework types are described structurally, so the SDK doesn't depend on
+ * any of them.
+ */
+
+import { type X402RouteOptions, withX402 } from "./server.js";
+import type { PaymentPayload, X402ServerConfig } from "./types.js";
+
+// ============================================================================
+// SHARED
+// ============================================================================
+
+/** Server config plus the route's price */
+export type X402Pricing = X402RouteOptions & { config: X402ServerConfig };
+
+/** Verified payment, attached to the request context as `x402` */
+export interface X402Context {
+  payer: string;
+  payload: PaymentPayload;
+}
+
+type GateResult =
+  | { allowed: true; context: X402Context; headers: Record<string, string> }
+  | {
+      allowed: false;
+      status: number;
+      headers: Record<string, string>;
+      body: unknown;
+    };
+
+/** Flatten Node-style (string[] values) or Fetch headers to one value each */
+function normalizeHeaders(
+  headers: Headers | Record<string, string | string[] | undefined>
+): Record<string, string | undefined> {
+  const flat: Record<string, string | undefined> = {};
+  if (headers instanceof Headers) {
+    headers.forEach((value, name) => {
+      flat[name] = value;
+    });
+    return flat;
+  }
+
+  for (const [name, value] of Object.entries(headers)) {
+    flat[name.toLowerCase()] = Array.isArray(value) ? value[0] : value;
+  }
+  return flat;
+}
+
+async function gate(
+  pricing: X402Pricing,
+  url: string,
+  headers: Record<string, string | undefined>
+): Promise<GateResult> {
+  const { config, ...options } = pricing;
+  const result = await withX402(config, { url, headers }, options);
+
+  if (!result.allowed) {
+    return { allowed: false, ...result.response };
+  }
+
+  return {
+    allowed: true,
+    context: { payer: result.payer, payload: result.payload },
+    headers: result.headers,
+  };
+}
+
+// ============================================================================
+// EXPRESS / CONNECT
+// ============================================================================
+
+interface NodeRequest {
+  url?: string;
+  originalUrl?: string;
+  protocol?: string;
+  headers: Record<string, string | string[] | undefined>;
+  x402?: X402Context;
+}
+
+interface NodeResponse {
+  statusCode: number;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string): unknown;
+}
+
+/**
+ * Express / Connect middleware. Paid requests continue with `req.x402`.
+ *
+ * ```ts
+ * app.get("/premium", x402Express({ config, amount: "10000" }), (req, res) =>
+ *   res.json({ payer: req.x402.payer })
+ * );
+ * ```
+ */
+export function x402Express(pricing: X402Pricing) {
+  return async (
+    req: NodeRequest,
+    res: NodeResponse,
+    next: (error?: unknown) => void
+  ): Promise<void> => {
+    try {
+      const host = req.headers["host"] ?? "localhost";
+      const url = `${req.protocol ?? "http"}://${host}${req.originalUrl ?? req.url ?? "/"}`;
+      const result = await gate(pricing, url, normalizeHeaders(req.headers));
+
+      for (const [name, value] of Object.entries(result.headers)) {
+        res.setHeader(name, value);
+      }
+
+      if (!result.allowed) {
+        res.statusCode = result.status;
+        res.end(JSON.stringify(result.body));
+        return;
+      }
+
+      req.x402 = result.context;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// ============================================================================
+// HONO
+// ============================================================================
+
+interface HonoContext {
+  req: { url: string; raw: Request };
+  set(key: "x402", value: X402Context): void;
+  header(name: string, value: string): void;
+}
+
+/**
+ * Hono middleware. Paid requests continue with `c.get("x402")`.
+ *
+ * ```ts
+ * app.get("/premium", x402Hono({ config, amount: "10000" }), (c) =>
+ *   c.json({ payer: c.get("x402").payer })
+ * );
+ * ```
+ */
+export function x402Hono(pricing: X402Pricing) {
+  return async (
+    c: HonoContext,
+    next: () => Promise<void>
+  ): Promise<Response | void> => {
+    const result = await gate(
+      pricing,
+      c.req.url,
+      normalizeHeaders(c.req.raw.headers)
+    );
+
+    if (!result.allowed) {
+      return Response.json(result.body, {
+        status: result.status,
+        headers: result.headers,
+      });
+    }
+
+    c.set("x402", result.context);
+    await next();
+    for (const [name, value] of Object.entries(result.headers)) {
+      c.header(name, value);
+    }
+  };
+}
+
+// ============================================================================
+// FASTIFY
+// ============================================================================
+
+interface FastifyRequest {
+  url: string;
+  protocol: string;
+  hostname: string;
+  headers: Record<string, string | string[] | undefined>;
+  x402?: X402Context | null;
+}
+
+interface FastifyReply {
+  code(status: number): FastifyReply;
+  header(name: string, value: string): FastifyReply;
+  send(body: unknown): FastifyReply;
+}
+
+interface FastifyInstance {
+  decorateRequest(name: "x402", value: null): unknown;
+  addHook(
+    name: "preHandler",
+    hook: (request: FastifyRequest, reply: FastifyReply) => Promise<unknown>
+  ): unknown;
+}
+
+/**
+ * Fastify plugin gating every route registered in its scope.
+ * Paid requests continue with `request.x402`.
+ *
+ * ```ts
+ * app.register(async (paid) => {
+ *   await paid.register(x402Fastify, { config, amount: "10000" });
+ *   paid.get("/premium", async (request) => ({ payer: request.x402.payer }));
+ * });
+ * ```
+ */
+export async function x402Fastify(
+  instance: FastifyInstance,
+  pricing: X402Pricing
+): Promise<void> {
+  instance.decorateRequest("x402", null);
+  instance.addHook("preHandler", async (request, reply) => {
+    const url = `${request.protocol}://${request.hostname}${request.url}`;
+    const result = await gate(pricing, url, normalizeHeaders(request.headers));
+
+    for (const [name, value] of Object.entries(result.headers)) {
+      reply.header(name, value);
+    }
+
+    if (!result.allowed) {
+      return reply.code(result.status).send(result.body);
+    }
+
+    request.x402 = result.context;
+  });
+}
+
+// ============================================================================
+// NEXT.JS
+// ============================================================================
+
+/**
+ * Wrap a Next.js App Router route handler. The handler receives the
+ * verified payment as `context.x402`.
+ *
+ * ```ts
+ * export const GET = withX402Route(
+ *   async (request, { x402 }) => Response.json({ payer: x402.payer }),
+ *   { config, amount: "10000", description: "Premium data" }
+ * );
+ * ```
+ */
+export function withX402Route<
+  C extends object = object,
+  R extends Request = Request,
+>(
+  handler: (
+    request: R,
+    context: C & { x402: X402Context }
+  ) => Response | Promise<Response>,
+  pricing: X402Pricing
+) {
+  return async (request: R, context: C): Promise<Response> => {
+    const result = await gate(
+      pricing,
+      request.url,
+      normalizeHeaders(request.headers)
+    );
+
+    if (!result.allowed) {
+      return Response.json(result.body, {
+        status: result.status,
+        headers: result.headers,
+      });
+    }
+
+    const response = await handler(request, {
+      ...context,
+      x402: result.context,
+    });
+    // Copy rather than set: redirects and fetched responses have immutable headers
+    const headers = new Headers(response.headers);
+    for (const [name, value] of Object.entries(result.headers)) {
+      headers.set(name, value);
+    }
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  };
+}
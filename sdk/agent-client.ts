@@ -5,10 +5,17 @@
  * agent-registry, agent-vault, task-board, and reputation contracts.
  *
  * These return the parameters needed for @stacks/transactions makeContractCall
- * or Leather wallet openContractCall.
+ * or Leather wallet openContractCall: `functionArgs` is an ordered
+ * ClarityValue[] matching the contract signature, `namedArgs` a readable view.
  */
 
+import { Cl, type ClarityValue } from "@stacks/transactions";
 import type { AgentSDKConfig, AgentStatus } from "./agent-types.js";
+import {
+  type PostConditionSet,
+  postTaskPostConditions,
+  vaultDepositPostConditions,
+} from "./post-conditions.js";
 
 // ============================================================================
 // HELPERS
@@ -21,11 +28,33 @@ function contractId(config: AgentSDKConfig, name: string) {
   };
 }
 
-interface ContractCallArgs {
+export interface ContractCallArgs extends Partial<PostConditionSet> {
   contractAddress: string;
   contractName: string;
   functionName: string;
-  functionArgs: Record<string, unknown>;
+  /** Positional arguments, in contract signature order */
+  functionArgs: ClarityValue[];
+  /** Arguments keyed by Clarity parameter name, pretty-printed for display */
+  namedArgs: Record<string, string>;
+}
+
+/** Build a ContractCallArgs from named, ordered Clarity arguments */
+export function contractCall(
+  config: AgentSDKConfig,
+  contractName: string,
+  functionName: string,
+  args: Array<[name: string, value: ClarityValue]>,
+  postConditions?: PostConditionSet
+): ContractCallArgs {
+  return {
+    ...contractId(config, contractName),
+    functionName,
+    functionArgs: args.map(([, value]) => value),
+    namedArgs: Object.fromEntries(
+      args.map(([name, value]) => [name, Cl.prettyPrint(value)])
+    ),
+    ...postConditions,
+  };
 }
 
 // ============================================================================
@@ -42,17 +71,13 @@ export function buildRegisterAgent(
     acceptsSip010: boolean;
   }
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "agent-registry"),
-    functionName: "register-agent",
-    functionArgs: {
-      name: params.name,
-      "description-url": params.descriptionUrl,
-      "price-per-task": params.pricePerTask.toString(),
-      "accepts-stx": params.acceptsStx,
-      "accepts-sip010": params.acceptsSip010,
-    },
-  };
+  return contractCall(config, "agent-registry", "register-agent", [
+    ["name", Cl.stringUtf8(params.name)],
+    ["description-url", Cl.stringUtf8(params.descriptionUrl)],
+    ["price-per-task", Cl.uint(params.pricePerTask)],
+    ["accepts-stx", Cl.bool(params.acceptsStx)],
+    ["accepts-sip010", Cl.bool(params.acceptsSip010)],
+  ]);
 }
 
 export function buildUpdateAgent(
@@ -65,17 +90,13 @@ export function buildUpdateAgent(
     acceptsSip010: boolean;
   }
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "agent-registry"),
-    functionName: "update-agent",
-    functionArgs: {
-      name: params.name,
-      "description-url": params.descriptionUrl,
-      "price-per-task": params.pricePerTask.toString(),
-      "accepts-stx": params.acceptsStx,
-      "accepts-sip010": params.acceptsSip010,
-    },
-  };
+  return contractCall(config, "agent-registry", "update-agent", [
+    ["name", Cl.stringUtf8(params.name)],
+    ["description-url", Cl.stringUtf8(params.descriptionUrl)],
+    ["price-per-task", Cl.uint(params.pricePerTask)],
+    ["accepts-stx", Cl.bool(params.acceptsStx)],
+    ["accepts-sip010", Cl.bool(params.acceptsSip010)],
+  ]);
 }
 
 export function buildSetCapability(
@@ -83,58 +104,46 @@ export function buildSetCapability(
   index: number,
   capability: string
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "agent-registry"),
-    functionName: "set-capability",
-    functionArgs: {
-      index: index.toString(),
-      capability,
-    },
-  };
+  return contractCall(config, "agent-registry", "set-capability", [
+    ["index", Cl.uint(index)],
+    ["capability", Cl.stringUtf8(capability)],
+  ]);
 }
 
 export function buildRemoveCapability(
   config: AgentSDKConfig,
   index: number
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "agent-registry"),
-    functionName: "remove-capability",
-    functionArgs: { index: index.toString() },
-  };
+  return contractCall(config, "agent-registry", "remove-capability", [
+    ["index", Cl.uint(index)],
+  ]);
 }
 
 export function buildSetStatus(
   config: AgentSDKConfig,
   status: AgentStatus
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "agent-registry"),
-    functionName: "set-status",
-    functionArgs: { "new-status": status.toString() },
-  };
+  return contractCall(config, "agent-registry", "set-status", [
+    ["new-status", Cl.uint(status)],
+  ]);
 }
 
 export function buildAddDelegate(
   config: AgentSDKConfig,
   delegate: string
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "agent-registry"),
-    functionName: "add-delegate",
-    functionArgs: { delegate },
-  };
+  return contractCall(config, "agent-registry", "add-delegate", [
+    ["delegate", Cl.principal(delegate)],
+  ]);
 }
 
 export function buildRemoveDelegate(
   config: AgentSDKConfig,
   delegate: string
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "agent-registry"),
-    functionName: "remove-delegate",
-    functionArgs: { delegate },
-  };
+  return contractCall(config, "agent-registry", "remove-delegate", [
+    ["delegate", Cl.principal(delegate)],
+  ]);
 }
 
 // ============================================================================
@@ -149,37 +158,33 @@ export function buildCreateVault(
     whitelistOnly: boolean;
   }
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "agent-vault"),
-    functionName: "create-vault",
-    functionArgs: {
-      "per-tx-cap": params.perTxCap.toString(),
-      "daily-cap": params.dailyCap.toString(),
-      "whitelist-only": params.whitelistOnly,
-    },
-  };
+  return contractCall(config, "agent-vault", "create-vault", [
+    ["per-tx-cap", Cl.uint(params.perTxCap)],
+    ["daily-cap", Cl.uint(params.dailyCap)],
+    ["whitelist-only", Cl.bool(params.whitelistOnly)],
+  ]);
 }
 
 export function buildVaultDeposit(
   config: AgentSDKConfig,
   amount: bigint
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "agent-vault"),
-    functionName: "deposit",
-    functionArgs: { amount: amount.toString() },
-  };
+  return contractCall(
+    config,
+    "agent-vault",
+    "deposit",
+    [["amount", Cl.uint(amount)]],
+    vaultDepositPostConditions(amount)
+  );
 }
 
 export function buildVaultWithdraw(
   config: AgentSDKConfig,
   amount: bigint
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "agent-vault"),
-    functionName: "withdraw",
-    functionArgs: { amount: amount.toString() },
-  };
+  return contractCall(config, "agent-vault", "withdraw", [
+    ["amount", Cl.uint(amount)],
+  ]);
 }
 
 export function buildUpdatePolicy(
@@ -190,37 +195,29 @@ export function buildUpdatePolicy(
     whitelistOnly: boolean;
   }
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "agent-vault"),
-    functionName: "update-policy",
-    functionArgs: {
-      "per-tx-cap": params.perTxCap.toString(),
-      "daily-cap": params.dailyCap.toString(),
-      "whitelist-only": params.whitelistOnly,
-    },
-  };
+  return contractCall(config, "agent-vault", "update-policy", [
+    ["per-tx-cap", Cl.uint(params.perTxCap)],
+    ["daily-cap", Cl.uint(params.dailyCap)],
+    ["whitelist-only", Cl.bool(params.whitelistOnly)],
+  ]);
 }
 
 export function buildAddToWhitelist(
   config: AgentSDKConfig,
   target: string
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "agent-vault"),
-    functionName: "add-to-whitelist",
-    functionArgs: { target },
-  };
+  return contractCall(config, "agent-vault", "add-to-whitelist", [
+    ["target", Cl.principal(target)],
+  ]);
 }
 
 export function buildRemoveFromWhitelist(
   config: AgentSDKConfig,
   target: string
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "agent-vault"),
-    functionName: "remove-from-whitelist",
-    functionArgs: { target },
-  };
+  return contractCall(config, "agent-vault", "remove-from-whitelist", [
+    ["target", Cl.principal(target)],
+  ]);
 }
 
 export function buildVaultSpend(
@@ -231,21 +228,21 @@ export function buildVaultSpend(
     memo: string;
   }
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "agent-vault"),
-    functionName: "spend",
-    functionArgs: {
-      owner: params.owner,
-      amount: params.amount.toString(),
-      memo: params.memo,
-    },
-  };
+  return contractCall(config, "agent-vault", "spend", [
+    ["owner", Cl.principal(params.owner)],
+    ["amount", Cl.uint(params.amount)],
+    ["memo", Cl.stringUtf8(params.memo)],
+  ]);
 }
 
 // ============================================================================
 // TASK BOARD
 // ============================================================================
 
+/**
+ * `feeBps` is the task-board's current `get-fee-bps`; the post-condition
+ * pins the poster's escrow to bounty + fee.
+ */
 export function buildPostTask(
   config: AgentSDKConfig,
   params: {
@@ -253,18 +250,21 @@ export function buildPostTask(
     descriptionUrl: string;
     bounty: bigint;
     deadline: bigint;
+    feeBps: bigint;
   }
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "task-board"),
-    functionName: "post-task",
-    functionArgs: {
-      title: params.title,
-      "description-url": params.descriptionUrl,
-      bounty: params.bounty.toString(),
-      deadline: params.deadline.toString(),
-    },
-  };
+  return contractCall(
+    config,
+    "task-board",
+    "post-task",
+    [
+      ["title", Cl.stringUtf8(params.title)],
+      ["description-url", Cl.stringUtf8(params.descriptionUrl)],
+      ["bounty", Cl.uint(params.bounty)],
+      ["deadline", Cl.uint(params.deadline)],
+    ],
+    postTaskPostConditions(params.bounty, params.feeBps)
+  );
 }
 
 export function buildBid(
@@ -275,15 +275,11 @@ export function buildBid(
     messageUrl: string;
   }
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "task-board"),
-    functionName: "bid",
-    functionArgs: {
-      "task-id": params.taskId.toString(),
-      price: params.price.toString(),
-      "message-url": params.messageUrl,
-    },
-  };
+  return contractCall(config, "task-board", "bid", [
+    ["task-id", Cl.uint(params.taskId)],
+    ["price", Cl.uint(params.price)],
+    ["message-url", Cl.stringUtf8(params.messageUrl)],
+  ]);
 }
 
 export function buildAssign(
@@ -291,14 +287,10 @@ export function buildAssign(
   taskId: bigint,
   agent: string
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "task-board"),
-    functionName: "assign",
-    functionArgs: {
-      "task-id": taskId.toString(),
-      agent,
-    },
-  };
+  return contractCall(config, "task-board", "assign", [
+    ["task-id", Cl.uint(taskId)],
+    ["agent", Cl.principal(agent)],
+  ]);
 }
 
 export function buildSubmitWork(
@@ -306,25 +298,19 @@ export function buildSubmitWork(
   taskId: bigint,
   resultUrl: string
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "task-board"),
-    functionName: "submit-work",
-    functionArgs: {
-      "task-id": taskId.toString(),
-      "result-url": resultUrl,
-    },
-  };
+  return contractCall(config, "task-board", "submit-work", [
+    ["task-id", Cl.uint(taskId)],
+    ["result-url", Cl.stringUtf8(resultUrl)],
+  ]);
 }
 
 export function buildApprove(
   config: AgentSDKConfig,
   taskId: bigint
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "task-board"),
-    functionName: "approve",
-    functionArgs: { "task-id": taskId.toString() },
-  };
+  return contractCall(config, "task-board", "approve", [
+    ["task-id", Cl.uint(taskId)],
+  ]);
 }
 
 export function buildDispute(
@@ -332,36 +318,28 @@ export function buildDispute(
   taskId: bigint,
   reasonUrl: string
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "task-board"),
-    functionName: "dispute",
-    functionArgs: {
-      "task-id": taskId.toString(),
-      "reason-url": reasonUrl,
-    },
-  };
+  return contractCall(config, "task-board", "dispute", [
+    ["task-id", Cl.uint(taskId)],
+    ["reason-url", Cl.stringUtf8(reasonUrl)],
+  ]);
 }
 
 export function buildCancel(
   config: AgentSDKConfig,
   taskId: bigint
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "task-board"),
-    functionName: "cancel",
-    functionArgs: { "task-id": taskId.toString() },
-  };
+  return contractCall(config, "task-board", "cancel", [
+    ["task-id", Cl.uint(taskId)],
+  ]);
 }
 
 export function buildExpireTask(
   config: AgentSDKConfig,
   taskId: bigint
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "task-board"),
-    functionName: "expire-task",
-    functionArgs: { "task-id": taskId.toString() },
-  };
+  return contractCall(config, "task-board", "expire-task", [
+    ["task-id", Cl.uint(taskId)],
+  ]);
 }
 
 // ============================================================================
@@ -376,15 +354,11 @@ export function buildRateAgent(
     score: number;
   }
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "reputation"),
-    functionName: "rate-agent",
-    functionArgs: {
-      "task-id": params.taskId.toString(),
-      agent: params.agent,
-      score: params.score.toString(),
-    },
-  };
+  return contractCall(config, "reputation", "rate-agent", [
+    ["task-id", Cl.uint(params.taskId)],
+    ["agent", Cl.principal(params.agent)],
+    ["score", Cl.uint(params.score)],
+  ]);
 }
 
 export function buildEndorse(
@@ -392,20 +366,17 @@ export function buildEndorse(
   agent: string,
   capability: string
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "reputation"),
-    functionName: "endorse",
-    functionArgs: { agent, capability },
-  };
+  return contractCall(config, "reputation", "endorse", [
+    ["agent", Cl.principal(agent)],
+    ["capability", Cl.stringUtf8(capability)],
+  ]);
 }
 
 export function buildRevokeEndorsement(
   config: AgentSDKConfig,
   agent: string
 ): ContractCallArgs {
-  return {
-    ...contractId(config, "reputation"),
-    functionName: "revoke-endorsement",
-    functionArgs: { agent },
-  };
+  return contractCall(config, "reputation", "revoke-endorsement", [
+    ["agent", Cl.principal(agent)],
+  ]);
 }
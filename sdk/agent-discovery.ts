@@ -0,0 +1,341 @@
+/**
+ * AI Agent Protocol — Agent Discovery
+ *
+ * agent-registry can't be enumerated, so agents are discovered from
+ * `agent-registered` events in an EventStore (see indexer.ts) or from a
+ * list of known owners. For each agent the directory reads its record,
+ * capability slots and reputation, then answers ranked searches like
+ * "agents that can do X under price Y with an average score of at least 4".
+ *
+ * Only STATUS_ACTIVE agents are returned. With an event store, refresh()
+ * re-reads just the agents whose registry or reputation events arrived
+ * since the last refresh.
+ */
+
+import {
+  type AgentRecord,
+  type AgentSDKConfig,
+  type ReputationRecord,
+  MAX_CAPABILITIES,
+  STATUS_ACTIVE,
+} from "./agent-types.js";
+import {
+  getAgent,
+  getCapability,
+  getReputation,
+  mapConcurrent,
+} from "./agent-reader.js";
+import type { EventStore } from "./indexer.js";
+import type { ProtocolEvent } from "./events.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Everything discovery knows about one agent */
+export interface AgentProfile {
+  owner: string;
+  agent: AgentRecord;
+  /** Non-empty capability slots, in slot order */
+  capabilities: string[];
+  reputation: ReputationRecord | null;
+  /** totalScore / ratingCount, or null if unrated */
+  averageScore: number | null;
+}
+
+export interface AgentSearchQuery {
+  /** Agents must offer at least one; more matches rank higher */
+  capabilities?: string[];
+  /** Highest acceptable price-per-task, in microSTX */
+  maxPrice?: bigint;
+  /** Lowest acceptable average score (1-5); unrated agents are excluded */
+  minAverageScore?: number;
+  minEndorsements?: number;
+  acceptsStx?: boolean;
+  acceptsSip010?: boolean;
+  limit?: number;
+}
+
+/** Relative weight of each ranking signal; each signal is scaled to 0-1 */
+export interface RankWeights {
+  /** Share of the requested capabilities the agent offers */
+  capability: number;
+  /** Average score / 5 */
+  rating: number;
+  /** Completed / (completed + disputed) tasks */
+  reliability: number;
+  /** Endorsements, with diminishing returns */
+  endorsements: number;
+  /** Cheaper than the priciest candidate */
+  price: number;
+}
+
+export const DEFAULT_RANK_WEIGHTS: RankWeights = {
+  capability: 0.35,
+  rating: 0.25,
+  reliability: 0.2,
+  endorsements: 0.1,
+  price: 0.1,
+};
+
+export interface AgentMatch {
+  profile: AgentProfile;
+  /** Weighted ranking score, 0-1 */
+  score: number;
+  /** Requested capabilities the agent offers */
+  matched: string[];
+}
+
+// ============================================================================
+// PROFILES
+// ============================================================================
+
+/**
+ * Read one agent's record, capability slots and reputation; null if
+ * unregistered. The slots and reputation are read in parallel.
+ */
+export async function getAgentProfile(
+  config: AgentSDKConfig,
+  owner: string
+): Promise<AgentProfile | null> {
+  const agent = await getAgent(config, owner);
+  if (!agent) return null;
+
+  const slots = Array.from({ length: MAX_CAPABILITIES }, (_, i) => i);
+  const [capabilities, reputation] = await Promise.all([
+    Promise.all(slots.map((index) => getCapability(config, owner, index))),
+    getReputation(config, owner),
+  ]);
+  return {
+    owner,
+    agent,
+    capabilities: capabilities
+      .filter((c) => c !== null)
+      .map((c) => c.capability),
+    reputation,
+    averageScore:
+      reputation && reputation.ratingCount > 0n
+        ? Number(reputation.totalScore) / Number(reputation.ratingCount)
+        : null,
+  };
+}
+
+// ============================================================================
+// RANKING
+// ============================================================================
+
+const normalize = (capability: string) => capability.trim().toLowerCase();
+
+/** Requested capabilities `profile` offers (case-insensitive, substring) */
+export function matchCapabilities(
+  profile: AgentProfile,
+  requested: string[]
+): string[] {
+  const offered = profile.capabilities.map(normalize);
+  return requested.filter((wanted) =>
+    offered.some((c) => c.includes(normalize(wanted)))
+  );
+}
+
+/** Whether `profile` passes every filter in `query` */
+export function matchesAgentQuery(
+  profile: AgentProfile,
+  query: AgentSearchQuery
+): boolean {
+  const { agent, reputation, averageScore } = profile;
+  if (agent.status !== STATUS_ACTIVE) return false;
+  if (query.maxPrice !== undefined && agent.pricePerTask > query.maxPrice) {
+    return false;
+  }
+  if (
+    query.minAverageScore !== undefined &&
+    (averageScore === null || averageScore < query.minAverageScore)
+  ) {
+    return false;
+  }
+  if (
+    query.minEndorsements !== undefined &&
+    Number(reputation?.endorsementCount ?? 0n) < query.minEndorsements
+  ) {
+    return false;
+  }
+  if (query.acceptsStx !== undefined && agent.acceptsStx !== query.acceptsStx) {
+    return false;
+  }
+  if (
+    query.acceptsSip010 !== undefined &&
+    agent.acceptsSip010 !== query.acceptsSip010
+  ) {
+    return false;
+  }
+  if (query.capabilities?.length) {
+    return matchCapabilities(profile, query.capabilities).length > 0;
+  }
+  return true;
+}
+
+/**
+ * Filter and rank profiles, best first. Ties keep the input order.
+ * Agents with no completed or disputed tasks get a neutral reliability
+ * of 0.5, and unrated agents a rating of 0.
+ */
+export function rankAgents(
+  profiles: AgentProfile[],
+  query: AgentSearchQuery = {},
+  weights: RankWeights = DEFAULT_RANK_WEIGHTS
+): AgentMatch[] {
+  const candidates = profiles.filter((p) => matchesAgentQuery(p, query));
+  const maxPrice = candidates.reduce(
+    (max, p) => (p.agent.pricePerTask > max ? p.agent.pricePerTask : max),
+    0n
+  );
+  const requested = query.capabilities ?? [];
+
+  const matches = candidates.map((profile) => {
+    const matched = matchCapabilities(profile, requested);
+    const completed = Number(profile.reputation?.tasksCompleted ?? 0n);
+    const disputed = Number(profile.reputation?.tasksDisputed ?? 0n);
+    const endorsements = Number(profile.reputation?.endorsementCount ?? 0n);
+
+    const signals: RankWeights = {
+      capability: requested.length ? matched.length / requested.length : 1,
+      rating: (profile.averageScore ?? 0) / 5,
+      reliability:
+        completed + disputed > 0 ? completed / (completed + disputed) : 0.5,
+      endorsements: endorsements / (endorsements + 3),
+      price:
+        maxPrice > 0n
+          ? 1 - Number(profile.agent.pricePerTask) / Number(maxPrice)
+          : 1,
+    };
+    const score = (Object.keys(weights) as Array<keyof RankWeights>).reduce(
+      (sum, signal) => sum + weights[signal] * signals[signal],
+      0
+    );
+    return { profile, score, matched };
+  });
+
+  const ranked = matches.sort((a, b) => b.score - a.score);
+  return query.limit !== undefined ? ranked.slice(0, query.limit) : ranked;
+}
+
+// ============================================================================
+// DIRECTORY
+// ============================================================================
+
+// Which agent a registry or reputation event is about, if any
+function eventAgent(event: ProtocolEvent): string | null {
+  switch (event.event) {
+    case "agent-registered":
+    case "agent-updated":
+    case "capability-set":
+    case "capability-removed":
+    case "status-changed":
+      return event.data.owner;
+    case "agent-rated":
+    case "agent-endorsed":
+    case "endorsement-revoked":
+    case "task-completed-recorded":
+    case "dispute-recorded":
+      return event.data.agent;
+    default:
+      return null;
+  }
+}
+
+export interface AgentDirectory {
+  /**
+   * Discover new agents and re-read changed ones (every known agent
+   * without an event store). Resolves to the owners that were re-read.
+   */
+  refresh(): Promise<string[]>;
+  /** Ranked active agents from the last refresh */
+  search(query?: AgentSearchQuery, weights?: RankWeights): AgentMatch[];
+  get(owner: string): AgentProfile | null;
+}
+
+/**
+ * Searchable directory of agents. Pass `events` (an indexer's store) to
+ * discover agents from their registrations, and/or `owners` to include
+ * known agents.
+ *
+ * @example
+ * ```ts
+ * const directory = createAgentDirectory(config, { events: indexer.store });
+ * await directory.refresh();
+ * const [best] = directory.search({
+ *   capabilities: ["summarize"],
+ *   maxPrice: 50_000n,
+ *   minAverageScore: 4,
+ * });
+ * ```
+ */
+export function createAgentDirectory(
+  config: AgentSDKConfig,
+  options: {
+    events?: EventStore;
+    owners?: string[];
+    /** Agents read at once, each with 10 read-only calls (default 4) */
+    concurrency?: number;
+  } = {}
+): AgentDirectory {
+  const concurrency = options.concurrency ?? 4;
+  const registry = `${config.contractAddress}.agent-registry`;
+  const reputation = `${config.contractAddress}.reputation`;
+  const profiles = new Map<string, AgentProfile>();
+  const known = new Set(options.owners ?? []);
+  let indexedHeight = -1;
+  let first = true;
+  let running: Promise<string[]> | null = null;
+
+  // Owners touched by events after `indexedHeight`
+  async function changedOwners(store: EventStore): Promise<Set<string>> {
+    const events = await store.query({ fromHeight: indexedHeight + 1 });
+    const changed = new Set<string>();
+    for (const event of events) {
+      if (event.contractId !== registry && event.contractId !== reputation) continue;
+      const owner = eventAgent(event);
+      if (owner) changed.add(owner);
+      indexedHeight = Math.max(indexedHeight, event.blockHeight);
+    }
+    return changed;
+  }
+
+  async function refreshOnce(): Promise<string[]> {
+    let stale: string[];
+    if (options.events) {
+      const changed = await changedOwners(options.events);
+      for (const owner of changed) known.add(owner);
+      stale = first ? [...known] : [...changed];
+    } else {
+      stale = [...known];
+    }
+
+    const read = await mapConcurrent(stale, concurrency, (owner) =>
+      getAgentProfile(config, owner)
+    );
+    stale.forEach((owner, i) => {
+      const profile = read[i];
+      if (profile) profiles.set(owner, profile);
+      else profiles.delete(owner);
+    });
+    first = false;
+    return stale;
+  }
+
+  return {
+    refresh() {
+      // One refresh at a time: a caller arriving mid-refresh shares its result
+      running ??= refreshOnce().finally(() => {
+        running = null;
+      });
+      return running;
+    },
+    search(query = {}, weights) {
+      return rankAgents([...profiles.values()], query, weights);
+    },
+    get(owner) {
+      return profiles.get(owner) ?? null;
+    },
+  };
+}
@@ -2,18 +2,24 @@
  * AI Agent Protocol — Reader Module (Read-Only Queries)
  *
  * Fetches on-chain state from agent-registry, agent-vault, task-board,
- * and reputation contracts via the Stacks API. All calls are free
- * (read-only contract calls cost no gas on Stacks).
+ * and reputation contracts through the configured chain provider (the
+ * Hiro API by default). All calls are free (read-only contract calls cost
+ * no gas on Stacks).
+ *
+ * Results are decoded into the typed records from agent-types.ts:
+ * uints become bigint and `none` becomes null.
  */
 
 import type {
   AgentSDKConfig,
   AgentRecord,
   AgentCapability,
+  AgentStatus,
   RegistryStats,
   VaultRecord,
   SpendLogEntry,
   TaskRecord,
+  TaskStatus,
   BidRecord,
   TaskStats,
   TaskAttestation,
@@ -21,88 +27,188 @@ import type {
   RatingRecord,
   EndorsementRecord,
 } from "./agent-types.js";
+import {
+  type ClarityValue,
+  encodePrincipal,
+  encodeUint,
+  decodeCV,
+  unwrapOptional,
+  asTuple,
+  asBigInt,
+  asNumber,
+  asBool,
+  asPrincipal,
+  asString,
+  asOptionalPrincipal,
+} from "./clarity.js";
+import { resolveChain } from "./chain.js";
 
 // ============================================================================
 // HELPERS
 // ============================================================================
 
-const DEFAULT_API = "https://api.testnet.hiro.so";
-
-function apiUrl(config: AgentSDKConfig): string {
-  return config.apiUrl || DEFAULT_API;
-}
-
-function contractUrl(
+/**
+ * Call a read-only function and return the decoded Clarity result.
+ * Throws if the chain request or the contract call fails.
+ */
+export async function callReadOnly(
   config: AgentSDKConfig,
   contractName: string,
-  fnName: string
-): string {
-  const base = apiUrl(config);
-  const addr = config.contractAddress;
-  return `${base}/v2/contracts/call-read/${addr}/${contractName}/${fnName}`;
-}
-
-interface ClarityValue {
-  type: string;
-  value: unknown;
+  fnName: string,
+  args: string[] = []
+): Promise<ClarityValue> {
+  const chain = resolveChain(config.chain ?? config.apiUrl, config.network);
+  const result = await chain.callReadOnly(
+    `${config.contractAddress}.${contractName}`,
+    fnName,
+    args,
+    config.contractAddress
+  );
+  return decodeCV(result);
 }
 
-async function callReadOnly(
+/** Call a read-only function returning `(optional T)` and decode T */
+export async function callOptional<T>(
   config: AgentSDKConfig,
   contractName: string,
   fnName: string,
-  args: string[] = []
-): Promise<ClarityValue | null> {
-  const url = contractUrl(config, contractName, fnName);
-  const resp = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      sender: config.contractAddress,
-      arguments: args,
-    }),
-  });
-
-  if (!resp.ok) return null;
-
-  const data = (await resp.json()) as { okay: boolean; result: string };
-  if (!data.okay) return null;
-
-  return decodeClarityHex(data.result);
+  args: string[],
+  decode: (cv: ClarityValue) => T
+): Promise<T | null> {
+  const inner = unwrapOptional(
+    await callReadOnly(config, contractName, fnName, args)
+  );
+  return inner ? decode(inner) : null;
 }
 
 /**
- * Decode a Clarity hex-encoded value into a JS-friendly structure.
- * This is a simplified decoder for the most common return types.
+ * Map `items` through `fn` with at most `concurrency` calls in flight.
+ * Results keep the order of `items`.
  */
-function decodeClarityHex(hex: string): ClarityValue {
-  // The Stacks API returns Clarity values as hex-encoded serialized data.
-  // For a full decoder, use @stacks/transactions cvToJSON.
-  // This returns the raw hex for consumers to decode with their preferred lib.
-  return { type: "raw", value: hex };
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, worker)
+  );
+  return results;
 }
 
 // ============================================================================
-// PRINCIPAL ENCODING
+// RECORD DECODERS
 // ============================================================================
 
-/**
- * Encode a Stacks principal as a Clarity hex argument for read-only calls.
- * Uses the cv_consts format expected by the Stacks API.
- */
-function encodePrincipal(principal: string): string {
-  // The Stacks API accepts hex-encoded Clarity values as arguments.
-  // For simplicity, we use the string representation and let the API decode.
-  // In production, use @stacks/transactions Cl.principal() + cvToHex().
-  return `0x${Buffer.from(
-    JSON.stringify({ type: "principal", value: principal })
-  ).toString("hex")}`;
+export function decodeAgentRecord(cv: ClarityValue): AgentRecord {
+  const t = asTuple(cv);
+  return {
+    name: asString(t["name"]),
+    descriptionUrl: asString(t["description-url"]),
+    status: asNumber(t["status"]) as AgentStatus,
+    registeredAt: asBigInt(t["registered-at"]),
+    totalTasks: asBigInt(t["total-tasks"]),
+    totalEarned: asBigInt(t["total-earned"]),
+    pricePerTask: asBigInt(t["price-per-task"]),
+    acceptsStx: asBool(t["accepts-stx"]),
+    acceptsSip010: asBool(t["accepts-sip010"]),
+  };
 }
 
-function encodeUint(value: bigint | number): string {
-  return `0x${Buffer.from(
-    JSON.stringify({ type: "uint", value: value.toString() })
-  ).toString("hex")}`;
+export function decodeVaultRecord(cv: ClarityValue): VaultRecord {
+  const t = asTuple(cv);
+  return {
+    balance: asBigInt(t["balance"]),
+    perTxCap: asBigInt(t["per-tx-cap"]),
+    dailyCap: asBigInt(t["daily-cap"]),
+    dailySpent: asBigInt(t["daily-spent"]),
+    lastResetBlock: asBigInt(t["last-reset-block"]),
+    whitelistOnly: asBool(t["whitelist-only"]),
+    createdAt: asBigInt(t["created-at"]),
+  };
+}
+
+export function decodeSpendLogEntry(cv: ClarityValue): SpendLogEntry {
+  const t = asTuple(cv);
+  return {
+    spender: asPrincipal(t["spender"]),
+    amount: asBigInt(t["amount"]),
+    block: asBigInt(t["block"]),
+    memo: asString(t["memo"]),
+  };
+}
+
+export function decodeTaskRecord(cv: ClarityValue): TaskRecord {
+  const t = asTuple(cv);
+  return {
+    poster: asPrincipal(t["poster"]),
+    title: asString(t["title"]),
+    descriptionUrl: asString(t["description-url"]),
+    bounty: asBigInt(t["bounty"]),
+    fee: asBigInt(t["fee"]),
+    assignedTo: asOptionalPrincipal(t["assigned-to"]),
+    status: asNumber(t["status"]) as TaskStatus,
+    createdAt: asBigInt(t["created-at"]),
+    deadline: asBigInt(t["deadline"]),
+    submittedAt: asBigInt(t["submitted-at"]),
+    completedAt: asBigInt(t["completed-at"]),
+    resultUrl: asString(t["result-url"]),
+  };
+}
+
+export function decodeBidRecord(cv: ClarityValue): BidRecord {
+  const t = asTuple(cv);
+  return {
+    price: asBigInt(t["price"]),
+    messageUrl: asString(t["message-url"]),
+    bidAt: asBigInt(t["bid-at"]),
+  };
+}
+
+export function decodeTaskAttestation(cv: ClarityValue): TaskAttestation {
+  const t = asTuple(cv);
+  return {
+    agent: asPrincipal(t["agent"]),
+    poster: asPrincipal(t["poster"]),
+  };
+}
+
+export function decodeReputationRecord(cv: ClarityValue): ReputationRecord {
+  const t = asTuple(cv);
+  return {
+    totalScore: asBigInt(t["total-score"]),
+    ratingCount: asBigInt(t["rating-count"]),
+    tasksCompleted: asBigInt(t["tasks-completed"]),
+    tasksDisputed: asBigInt(t["tasks-disputed"]),
+    endorsementCount: asBigInt(t["endorsement-count"]),
+  };
+}
+
+export function decodeRatingRecord(cv: ClarityValue): RatingRecord {
+  const t = asTuple(cv);
+  return {
+    agent: asPrincipal(t["agent"]),
+    score: asBigInt(t["score"]),
+    block: asBigInt(t["block"]),
+  };
+}
+
+export function decodeEndorsementRecord(cv: ClarityValue): EndorsementRecord {
+  const t = asTuple(cv);
+  return {
+    capability: asString(t["capability"]),
+    block: asBigInt(t["block"]),
+  };
 }
 
 // ============================================================================
@@ -112,56 +218,73 @@ function encodeUint(value: bigint | number): string {
 export async function getAgent(
   config: AgentSDKConfig,
   owner: string
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "agent-registry", "get-agent", [
-    encodePrincipal(owner),
-  ]);
+): Promise<AgentRecord | null> {
+  return callOptional(
+    config,
+    "agent-registry",
+    "get-agent",
+    [encodePrincipal(owner)],
+    decodeAgentRecord
+  );
 }
 
 export async function getCapability(
   config: AgentSDKConfig,
   owner: string,
   index: number
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "agent-registry", "get-capability", [
-    encodePrincipal(owner),
-    encodeUint(index),
-  ]);
+): Promise<AgentCapability | null> {
+  return callOptional(
+    config,
+    "agent-registry",
+    "get-capability",
+    [encodePrincipal(owner), encodeUint(index)],
+    (cv) => ({ capability: asString(asTuple(cv)["capability"]) })
+  );
 }
 
 export async function isRegistered(
   config: AgentSDKConfig,
   owner: string
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "agent-registry", "is-registered", [
-    encodePrincipal(owner),
-  ]);
+): Promise<boolean> {
+  return asBool(
+    await callReadOnly(config, "agent-registry", "is-registered", [
+      encodePrincipal(owner),
+    ])
+  );
 }
 
 export async function isActive(
   config: AgentSDKConfig,
   owner: string
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "agent-registry", "is-active", [
-    encodePrincipal(owner),
-  ]);
+): Promise<boolean> {
+  return asBool(
+    await callReadOnly(config, "agent-registry", "is-active", [
+      encodePrincipal(owner),
+    ])
+  );
 }
 
 export async function isDelegate(
   config: AgentSDKConfig,
   owner: string,
   delegate: string
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "agent-registry", "is-delegate", [
-    encodePrincipal(owner),
-    encodePrincipal(delegate),
-  ]);
+): Promise<boolean> {
+  return asBool(
+    await callReadOnly(config, "agent-registry", "is-delegate", [
+      encodePrincipal(owner),
+      encodePrincipal(delegate),
+    ])
+  );
 }
 
 export async function getRegistryStats(
   config: AgentSDKConfig
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "agent-registry", "get-stats");
+): Promise<RegistryStats> {
+  const t = asTuple(await callReadOnly(config, "agent-registry", "get-stats"));
+  return {
+    totalAgents: asBigInt(t["total-agents"]),
+    admin: asPrincipal(t["admin"]),
+  };
 }
 
 // ============================================================================
@@ -171,41 +294,55 @@ export async function getRegistryStats(
 export async function getVault(
   config: AgentSDKConfig,
   owner: string
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "agent-vault", "get-vault", [
-    encodePrincipal(owner),
-  ]);
+): Promise<VaultRecord | null> {
+  return callOptional(
+    config,
+    "agent-vault",
+    "get-vault",
+    [encodePrincipal(owner)],
+    decodeVaultRecord
+  );
 }
 
 export async function isWhitelisted(
   config: AgentSDKConfig,
   owner: string,
   target: string
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "agent-vault", "is-whitelisted", [
-    encodePrincipal(owner),
-    encodePrincipal(target),
-  ]);
+): Promise<boolean> {
+  return asBool(
+    await callReadOnly(config, "agent-vault", "is-whitelisted", [
+      encodePrincipal(owner),
+      encodePrincipal(target),
+    ])
+  );
 }
 
+/** Remaining daily allowance in microSTX, or null if the owner has no vault */
 export async function getAvailableDaily(
   config: AgentSDKConfig,
   owner: string
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "agent-vault", "get-available-daily", [
-    encodePrincipal(owner),
-  ]);
+): Promise<bigint | null> {
+  return callOptional(
+    config,
+    "agent-vault",
+    "get-available-daily",
+    [encodePrincipal(owner)],
+    asBigInt
+  );
 }
 
 export async function getSpendLogEntry(
   config: AgentSDKConfig,
   owner: string,
   seq: bigint
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "agent-vault", "get-spend-log-entry", [
-    encodePrincipal(owner),
-    encodeUint(seq),
-  ]);
+): Promise<SpendLogEntry | null> {
+  return callOptional(
+    config,
+    "agent-vault",
+    "get-spend-log-entry",
+    [encodePrincipal(owner), encodeUint(seq)],
+    decodeSpendLogEntry
+  );
 }
 
 // ============================================================================
@@ -215,60 +352,81 @@ export async function getSpendLogEntry(
 export async function getTask(
   config: AgentSDKConfig,
   id: bigint
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "task-board", "get-task", [encodeUint(id)]);
+): Promise<TaskRecord | null> {
+  return callOptional(
+    config,
+    "task-board",
+    "get-task",
+    [encodeUint(id)],
+    decodeTaskRecord
+  );
 }
 
 export async function getBid(
   config: AgentSDKConfig,
   taskId: bigint,
   bidder: string
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "task-board", "get-bid", [
-    encodeUint(taskId),
-    encodePrincipal(bidder),
-  ]);
+): Promise<BidRecord | null> {
+  return callOptional(
+    config,
+    "task-board",
+    "get-bid",
+    [encodeUint(taskId), encodePrincipal(bidder)],
+    decodeBidRecord
+  );
 }
 
+/** Bidder principal at `index` in the task's bid list */
 export async function getBidAt(
   config: AgentSDKConfig,
   taskId: bigint,
   index: number
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "task-board", "get-bid-at", [
-    encodeUint(taskId),
-    encodeUint(index),
-  ]);
+): Promise<string | null> {
+  return callOptional(
+    config,
+    "task-board",
+    "get-bid-at",
+    [encodeUint(taskId), encodeUint(index)],
+    (cv) => asPrincipal(asTuple(cv)["bidder"])
+  );
 }
 
 export async function getBidCount(
   config: AgentSDKConfig,
   taskId: bigint
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "task-board", "get-bid-count", [
-    encodeUint(taskId),
-  ]);
+): Promise<bigint> {
+  const t = asTuple(
+    await callReadOnly(config, "task-board", "get-bid-count", [
+      encodeUint(taskId),
+    ])
+  );
+  return asBigInt(t["count"]);
 }
 
 export async function getAttestation(
   config: AgentSDKConfig,
   taskId: bigint
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "task-board", "get-attestation", [
-    encodeUint(taskId),
-  ]);
+): Promise<TaskAttestation | null> {
+  return callOptional(
+    config,
+    "task-board",
+    "get-attestation",
+    [encodeUint(taskId)],
+    decodeTaskAttestation
+  );
 }
 
-export async function getTaskStats(
-  config: AgentSDKConfig
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "task-board", "get-stats");
+export async function getTaskStats(config: AgentSDKConfig): Promise<TaskStats> {
+  const t = asTuple(await callReadOnly(config, "task-board", "get-stats"));
+  return {
+    totalTasks: asBigInt(t["total-tasks"]),
+    feeBps: asBigInt(t["fee-bps"]),
+    admin: asPrincipal(t["admin"]),
+  };
 }
 
-export async function getFeeBps(
-  config: AgentSDKConfig
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "task-board", "get-fee-bps");
+export async function getFeeBps(config: AgentSDKConfig): Promise<bigint> {
+  return asBigInt(await callReadOnly(config, "task-board", "get-fee-bps"));
 }
 
 // ============================================================================
@@ -278,48 +436,67 @@ export async function getFeeBps(
 export async function getReputation(
   config: AgentSDKConfig,
   agent: string
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "reputation", "get-reputation", [
-    encodePrincipal(agent),
-  ]);
+): Promise<ReputationRecord | null> {
+  return callOptional(
+    config,
+    "reputation",
+    "get-reputation",
+    [encodePrincipal(agent)],
+    decodeReputationRecord
+  );
 }
 
 export async function getRating(
   config: AgentSDKConfig,
   taskId: bigint,
   rater: string
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "reputation", "get-rating", [
-    encodeUint(taskId),
-    encodePrincipal(rater),
-  ]);
+): Promise<RatingRecord | null> {
+  return callOptional(
+    config,
+    "reputation",
+    "get-rating",
+    [encodeUint(taskId), encodePrincipal(rater)],
+    decodeRatingRecord
+  );
 }
 
 export async function getEndorsement(
   config: AgentSDKConfig,
   endorser: string,
   agent: string
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "reputation", "get-endorsement", [
-    encodePrincipal(endorser),
-    encodePrincipal(agent),
-  ]);
+): Promise<EndorsementRecord | null> {
+  return callOptional(
+    config,
+    "reputation",
+    "get-endorsement",
+    [encodePrincipal(endorser), encodePrincipal(agent)],
+    decodeEndorsementRecord
+  );
 }
 
+/** Integer average score (1-5), or null if the agent has no ratings */
 export async function getAverageScore(
   config: AgentSDKConfig,
   agent: string
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "reputation", "get-average-score", [
-    encodePrincipal(agent),
-  ]);
+): Promise<bigint | null> {
+  return callOptional(
+    config,
+    "reputation",
+    "get-average-score",
+    [encodePrincipal(agent)],
+    asBigInt
+  );
 }
 
 export async function getTaskCompletion(
   config: AgentSDKConfig,
   taskId: bigint
-): Promise<ClarityValue | null> {
-  return callReadOnly(config, "reputation", "get-task-completion", [
-    encodeUint(taskId),
-  ]);
+): Promise<TaskAttestation | null> {
+  return callOptional(
+    config,
+    "reputation",
+    "get-task-completion",
+    [encodeUint(taskId)],
+    decodeTaskAttestation
+  );
 }
@@ -1,11 +1,12 @@
 /**
  * AI Agent Protocol — TypeScript Types
  *
- * Types for the agent-registry, agent-vault, task-board, and reputation
- * Clarity contracts on Stacks.
+ * Types for the agent-registry, agent-vault, task-board, reputation, and
+ * agent-launchpad Clarity contracts on Stacks.
  */
 
 import type { StacksNetwork } from "./types.js";
+import type { StacksChainProvider } from "./chain.js";
 
 // ============================================================================
 // AGENT REGISTRY TYPES
@@ -15,6 +16,9 @@ export const STATUS_ACTIVE = 1;
 export const STATUS_PAUSED = 2;
 export const STATUS_DEREGISTERED = 3;
 
+/** Capability slots per agent (MAX-CAPS) */
+export const MAX_CAPABILITIES = 8;
+
 export type AgentStatus =
   | typeof STATUS_ACTIVE
   | typeof STATUS_PAUSED
@@ -74,6 +78,9 @@ export const TASK_DISPUTED = 5;
 export const TASK_CANCELLED = 6;
 export const TASK_EXPIRED = 7;
 
+/** Blocks after submit-work during which the poster may dispute (DISPUTE-WINDOW) */
+export const DISPUTE_WINDOW = 72n;
+
 export type TaskStatus =
   | typeof TASK_OPEN
   | typeof TASK_ASSIGNED
@@ -138,6 +145,50 @@ export interface EndorsementRecord {
   block: bigint;
 }
 
+// ============================================================================
+// AGENT LAUNCHPAD TYPES
+// ============================================================================
+
+/** get-price results are scaled by 10^12 (microSTX per token unit) */
+export const PRICE_SCALE = 1_000_000_000_000n;
+
+/** Bonding curve state; params are snapshotted from protocol defaults at launch */
+export interface CurveRecord {
+  creator: string;
+  name: string;
+  symbol: string;
+  totalSupply: bigint;
+  virtualStx: bigint;
+  k: bigint;
+  stxReserve: bigint;
+  tokensSold: bigint;
+  graduationStx: bigint;
+  feeBps: bigint;
+  accruedFees: bigint;
+  graduated: boolean;
+  createdAt: bigint;
+  creatorShareBps: bigint;
+}
+
+export interface BuyQuote {
+  tokensOut: bigint;
+  fee: bigint;
+}
+
+export interface SellQuote {
+  stxOut: bigint;
+  fee: bigint;
+}
+
+export interface LaunchpadStats {
+  totalCurves: bigint;
+  defaultTotalSupply: bigint;
+  defaultVirtualStx: bigint;
+  defaultGraduationStx: bigint;
+  defaultFeeBps: bigint;
+  defaultCreatorShareBps: bigint;
+}
+
 // ============================================================================
 // SDK CONFIG
 // ============================================================================
@@ -145,8 +196,10 @@ export interface EndorsementRecord {
 export interface AgentSDKConfig {
   /** Deployer principal (contract address prefix) */
   contractAddress: string;
-  /** Stacks API URL (default: https://api.testnet.hiro.so) */
+  /** Stacks API URL (default: Hiro for `network`) */
   apiUrl?: string;
+  /** Chain backend for read-only calls; replaces `apiUrl` */
+  chain?: StacksChainProvider;
   /** Network */
   network: StacksNetwork;
 }
@@ -211,3 +264,22 @@ export const REPUTATION_ERRORS = {
   NO_ATTESTATION: 1305,
   TASK_MISMATCH: 1306,
 } as const;
+
+/** agent-launchpad error codes */
+export const LAUNCHPAD_ERRORS = {
+  NOT_REGISTERED: 1400,
+  ALREADY_LAUNCHED: 1401,
+  CURVE_NOT_FOUND: 1402,
+  GRADUATED: 1403,
+  ZERO_AMOUNT: 1404,
+  INSUFFICIENT_BALANCE: 1405,
+  SLIPPAGE: 1406,
+  NOT_ADMIN: 1407,
+  OVERFLOW: 1408,
+  SELF_TRANSFER: 1409,
+  CONTRACT_CALL: 1410,
+  INVALID_PARAMS: 1411,
+  NOT_GRADUATED: 1412,
+  SOLD_OUT: 1413,
+  INVALID_FEE: 1414,
+} as const;
@@ -0,0 +1,547 @@
+/**
+ * AI Agent Protocol — Worker Runtime
+ *
+ * Runs an agent through the task-board lifecycle: scan open tasks, bid,
+ * wait to be assigned, do the work, submit-work, then follow the task
+ * until the poster approves (and the bounty is paid) or disputes it.
+ * The agent's judgement is plugged in as handlers; the runtime handles
+ * signing, nonces, retries and persistence.
+ *
+ * Each tick() advances every tracked task by at most one step, so a
+ * worker can be driven by a timer (start) or by block notifications.
+ * State is saved after every tick; a restarted worker resumes where it
+ * stopped without bidding twice.
+ */
+
+import { makeContractCall, privateKeyToAddress } from "@stacks/transactions";
+import { readFile, writeFile, rename } from "node:fs/promises";
+import {
+  type AgentSDKConfig,
+  DISPUTE_WINDOW,
+  TASK_ASSIGNED,
+  TASK_CANCELLED,
+  TASK_COMPLETED,
+  TASK_DISPUTED,
+  TASK_EXPIRED,
+  TASK_OPEN,
+  TASK_SUBMITTED,
+} from "./agent-types.js";
+import { type ContractCallArgs, buildBid, buildSubmitWork } from "./agent-client.js";
+import { getBid, getTask } from "./agent-reader.js";
+import { type StacksChainProvider, resolveChain } from "./chain.js";
+import { type TaskEntry, createTaskCache } from "./task-query.js";
+import { STACKS_MAINNET } from "./types.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The agent's decisions; everything else is the runtime's job */
+export interface WorkerHandlers {
+  /** Whether to bid on an open task */
+  shouldBid(task: TaskEntry): boolean | Promise<boolean>;
+  /** Bid price in microSTX */
+  priceFor(task: TaskEntry): bigint | Promise<bigint>;
+  /** Do the work for an assigned task; resolves to the result URL */
+  perform(task: TaskEntry): Promise<string>;
+  /** URL of the message sent with a bid (default: none) */
+  messageUrlFor?(task: TaskEntry): string;
+}
+
+/**
+ * Where a tracked task stands, from the worker's side:
+ * - `bidding` / `submitting`: the bid / submit-work tx is in flight
+ * - `bid`: bid placed, waiting for the poster to assign
+ * - `assigned`: ours to perform
+ * - `submitted`: work submitted, waiting for approval
+ * - `completed`: approved, bounty paid
+ * - `lost`: assigned to another agent
+ * - `disputed`, `cancelled`, `expired`: as on the task board
+ * - `failed`: gave up after `maxAttempts`
+ */
+export type WorkerPhase =
+  | "bidding"
+  | "bid"
+  | "assigned"
+  | "submitting"
+  | "submitted"
+  | "completed"
+  | "lost"
+  | "disputed"
+  | "cancelled"
+  | "expired"
+  | "failed";
+
+/** Persisted per-task state; bigints are decimal strings so it's plain JSON */
+export interface WorkerTask {
+  phase: WorkerPhase;
+  price?: string;
+  resultUrl?: string;
+  /** Transaction awaiting confirmation */
+  pendingTxId?: string;
+  /** Its account nonce, as a decimal string */
+  pendingNonce?: string;
+  /** Unix time (ms) it was broadcast */
+  pendingSince?: number;
+  /** Failed bids, performs or submissions so far */
+  attempts: number;
+  lastError?: string;
+  /** The dispute window has closed without a dispute */
+  undisputable?: boolean;
+}
+
+export interface WorkerState {
+  /** Highest account nonce in use, as a decimal string */
+  lastNonce?: string;
+  /** Tracked tasks by id */
+  tasks: Record<string, WorkerTask>;
+}
+
+/** Where a worker keeps its state between runs */
+export interface WorkerStateStore {
+  load(): Promise<WorkerState | null>;
+  save(state: WorkerState): Promise<void>;
+}
+
+export type WorkerEvent =
+  | { type: "bid"; taskId: bigint; txId: string; price: bigint }
+  | { type: "assigned"; taskId: bigint }
+  | { type: "submitted"; taskId: bigint; txId: string; resultUrl: string }
+  /** Approved; `bounty` was paid to the agent */
+  | { type: "completed"; taskId: bigint; bounty: bigint }
+  | { type: "dispute-window-closed"; taskId: bigint }
+  | {
+      /** `resolved`: the admin settled a dispute; the split isn't on chain */
+      type: "lost" | "disputed" | "resolved" | "cancelled" | "expired";
+      taskId: bigint;
+    }
+  | { type: "retry" | "failed"; taskId: bigint; error: string };
+
+export interface AgentWorkerConfig extends AgentSDKConfig {
+  /** The agent's private key (hex); it signs bids and submissions */
+  privateKey: string;
+  handlers: WorkerHandlers;
+  /** Persistent state (default: in-memory, lost on exit) */
+  store?: WorkerStateStore;
+  /** Network fee in microSTX per transaction (default 3000) */
+  fee?: bigint;
+  /** Tries per bid, perform or submission before giving up (default 3) */
+  maxAttempts?: number;
+  /** Skip open tasks due in fewer blocks than this (default 10) */
+  minBlocksToDeadline?: bigint;
+  /** Most read-only calls in flight while scanning tasks (default 8) */
+  concurrency?: number;
+  /** Milliseconds between ticks in start() (default 30000) */
+  pollInterval?: number;
+  /**
+   * Milliseconds a tx may stay pending or unseen before the worker looks
+   * again: it gives up on the tx and frees its nonce only if neither the
+   * task board nor the account nonce shows it (default 1800000)
+   */
+  pendingTimeout?: number;
+  onEvent?: (event: WorkerEvent) => void;
+  /** Called when a background tick fails; the next tick retries */
+  onError?: (error: unknown) => void;
+}
+
+export interface AgentWorker {
+  /** The agent's address */
+  address: string;
+  /** Advance every task one step: resolve txs, follow tasks, perform, bid */
+  tick(): Promise<void>;
+  /** Tick every `pollInterval` until stop() */
+  start(): void;
+  /** Stop ticking; resolves once any running tick finishes */
+  stop(): Promise<void>;
+  /** Current state (a copy) */
+  state(): WorkerState;
+}
+
+// ============================================================================
+// STATE STORES
+// ============================================================================
+
+export function createMemoryWorkerStateStore(): WorkerStateStore {
+  let saved: string | null = null;
+  return {
+    async load() {
+      return saved ? (JSON.parse(saved) as WorkerState) : null;
+    },
+    async save(state) {
+      saved = JSON.stringify(state);
+    },
+  };
+}
+
+/** JSON-file state; each save replaces the file atomically via rename */
+export function createFileWorkerStateStore(path: string): WorkerStateStore {
+  return {
+    async load() {
+      try {
+        return JSON.parse(await readFile(path, "utf-8")) as WorkerState;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+        return null;
+      }
+    },
+    async save(state) {
+      const tmp = `${path}.tmp`;
+      await writeFile(tmp, JSON.stringify(state));
+      await rename(tmp, path);
+    },
+  };
+}
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+const DEFAULT_TX_FEE = 3_000n;
+
+type PendingTx = Required<
+  Pick<WorkerTask, "pendingTxId" | "pendingNonce" | "pendingSince">
+>;
+
+// Phases in which the worker still has something to do or wait for
+const ACTIVE_PHASES: ReadonlySet<WorkerPhase> = new Set([
+  "bidding",
+  "bid",
+  "assigned",
+  "submitting",
+  "submitted",
+  "disputed",
+]);
+
+// Final task-board statuses that end a bid or an assignment
+const ENDINGS = {
+  [TASK_CANCELLED]: "cancelled",
+  [TASK_EXPIRED]: "expired",
+} as const;
+
+/**
+ * Create a worker for the agent owning `privateKey`. The agent must already
+ * be registered in agent-registry to bid.
+ *
+ * @example
+ * ```ts
+ * const worker = createAgentWorker({
+ *   contractAddress: "SP...",
+ *   network: STACKS_MAINNET,
+ *   privateKey: process.env.AGENT_KEY!,
+ *   store: createFileWorkerStateStore("worker-state.json"),
+ *   handlers: {
+ *     shouldBid: ({ task }) => task.title.startsWith("Summarize"),
+ *     priceFor: ({ task }) => task.bounty,
+ *     perform: async ({ id, task }) => summarize(id, task.descriptionUrl),
+ *   },
+ *   onEvent: (event) => console.log(event),
+ * });
+ * worker.start();
+ * ```
+ */
+export function createAgentWorker(config: AgentWorkerConfig): AgentWorker {
+  const network = config.network === STACKS_MAINNET ? "mainnet" : "testnet";
+  const address = privateKeyToAddress(config.privateKey, network);
+  const chain: StacksChainProvider = resolveChain(
+    config.chain ?? config.apiUrl,
+    config.network
+  );
+  const store = config.store ?? createMemoryWorkerStateStore();
+  const maxAttempts = config.maxAttempts ?? 3;
+  const minBlocksToDeadline = config.minBlocksToDeadline ?? 10n;
+  const pollInterval = config.pollInterval ?? 30_000;
+  const pendingTimeout = config.pendingTimeout ?? 1_800_000;
+  const cache = createTaskCache(config, { concurrency: config.concurrency });
+  const emit = (event: WorkerEvent) => config.onEvent?.(event);
+
+  let state: WorkerState | null = null;
+  let running: Promise<void> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let polling = false;
+
+  /**
+   * Sign and broadcast `call` with the next free nonce; throws if rejected.
+   * The provider's nonce counts the mempool where it can see it (Hiro);
+   * `lastNonce` covers txs it hasn't seen yet.
+   */
+  async function send(s: WorkerState, call: ContractCallArgs): Promise<PendingTx> {
+    const next = await chain.getAccountNonce(address);
+    const last = s.lastNonce !== undefined ? BigInt(s.lastNonce) : undefined;
+    const nonce = last !== undefined && last >= next ? last + 1n : next;
+    const tx = await makeContractCall({
+      contractAddress: call.contractAddress,
+      contractName: call.contractName,
+      functionName: call.functionName,
+      functionArgs: call.functionArgs,
+      // Bids and submissions move no assets, so deny mode with no conditions
+      postConditionMode: call.postConditionMode ?? "deny",
+      postConditions: call.postConditions ?? [],
+      senderKey: config.privateKey,
+      fee: config.fee ?? DEFAULT_TX_FEE,
+      nonce,
+      network,
+    });
+    const broadcast = await chain.broadcast(tx.serializeBytes());
+    if (typeof broadcast === "string") {
+      // A tx we counted on was dropped; go back to the chain's nonce
+      if (/nonce/i.test(broadcast)) delete s.lastNonce;
+      throw new Error(broadcast);
+    }
+    s.lastNonce = nonce.toString();
+    return {
+      pendingTxId: broadcast.txId,
+      pendingNonce: nonce.toString(),
+      pendingSince: Date.now(),
+    };
+  }
+
+  // A failed or abandoned tx frees its nonce unless it was mined: count only
+  // the txs still in flight, and take the rest from the chain
+  function releaseNonces(s: WorkerState): void {
+    const inFlight = Object.values(s.tasks)
+      .filter((entry) => entry.pendingTxId && entry.pendingNonce !== undefined)
+      .map((entry) => BigInt(entry.pendingNonce!));
+    if (inFlight.length) {
+      s.lastNonce = inFlight.reduce((a, b) => (a > b ? a : b)).toString();
+    } else {
+      delete s.lastNonce;
+    }
+  }
+
+  /** Count a failed step; gives up on the task after maxAttempts */
+  function fail(
+    taskId: bigint,
+    entry: WorkerTask,
+    error: unknown,
+    retryPhase: WorkerPhase
+  ): void {
+    const message = error instanceof Error ? error.message : String(error);
+    entry.attempts++;
+    entry.lastError = message;
+    delete entry.pendingTxId;
+    delete entry.pendingNonce;
+    delete entry.pendingSince;
+    if (entry.attempts >= maxAttempts) {
+      entry.phase = "failed";
+      emit({ type: "failed", taskId, error: message });
+    } else {
+      entry.phase = retryPhase;
+      emit({ type: "retry", taskId, error: message });
+    }
+  }
+
+  // Whether the task board already shows the step the pending tx was for,
+  // e.g. from an earlier tx for it that confirmed late
+  async function landed(taskId: bigint, bidding: boolean): Promise<boolean> {
+    if (bidding) return (await getBid(config, taskId, address)) !== null;
+    const task = await getTask(config, taskId);
+    return (
+      task !== null &&
+      task.assignedTo === address &&
+      [TASK_SUBMITTED, TASK_COMPLETED, TASK_DISPUTED].includes(task.status)
+    );
+  }
+
+  // Whether the chain's next nonce (mempool included, where the provider
+  // sees it) is past the pending tx's
+  async function nonceInUse(entry: WorkerTask): Promise<boolean> {
+    if (entry.pendingNonce === undefined) return false;
+    return (await chain.getAccountNonce(address)) > BigInt(entry.pendingNonce);
+  }
+
+  // Resolve bid and submit-work txs that were pending at the last tick
+  async function resolvePending(s: WorkerState): Promise<void> {
+    for (const [id, entry] of Object.entries(s.tasks)) {
+      if (!entry.pendingTxId) continue;
+      const taskId = BigInt(id);
+      const tx = await chain.getTx(entry.pendingTxId);
+      const bidding = entry.phase === "bidding";
+      // Failed bids are re-sent by the scan, failed submissions by perform
+      const retryPhase = bidding ? "bid" : "assigned";
+
+      let error: Error | null = null;
+      const unconfirmed = !tx || tx.status === "pending";
+      if (unconfirmed) {
+        entry.pendingSince ??= Date.now();
+        if (Date.now() - entry.pendingSince <= pendingTimeout) continue;
+        const seconds = pendingTimeout / 1000;
+        error = new Error(
+          `Transaction ${entry.pendingTxId} not confirmed after ${seconds}s`
+        );
+      } else if (tx.status !== "success") {
+        error = new Error(`Transaction ${tx.status}`);
+      }
+      // The board may show the step done anyway, by an earlier tx confirming late
+      if (error && (await landed(taskId, bidding))) error = null;
+
+      if (!error) {
+        delete entry.pendingTxId;
+        delete entry.pendingNonce;
+        delete entry.pendingSince;
+        entry.phase = bidding ? "bid" : "submitted";
+      } else if (!unconfirmed || !(await nonceInUse(entry))) {
+        // Dropped, or aborted with the board unchanged: free the nonce, retry
+        fail(taskId, entry, error, retryPhase);
+        releaseNonces(s);
+      }
+      // Otherwise the chain still counts its nonce and it can confirm later:
+      // wait for it rather than send a second tx for the same step
+    }
+  }
+
+  // Move tracked tasks along with what the task board says
+  function follow(s: WorkerState, tip: bigint): void {
+    for (const [id, entry] of Object.entries(s.tasks)) {
+      if (!ACTIVE_PHASES.has(entry.phase) || entry.pendingTxId) continue;
+      const taskId = BigInt(id);
+      const task = cache.get(taskId);
+      if (!task) continue;
+
+      const ending = ENDINGS[task.status as keyof typeof ENDINGS];
+      const mine = task.assignedTo === address;
+
+      if (ending) {
+        entry.phase = ending;
+        emit({ type: ending, taskId });
+      } else if (entry.phase === "bid" && task.status !== TASK_OPEN) {
+        entry.phase = mine ? "assigned" : "lost";
+        emit({ type: mine ? "assigned" : "lost", taskId });
+      } else if (task.status === TASK_COMPLETED && mine) {
+        const resolved = entry.phase === "disputed";
+        entry.phase = "completed";
+        emit(
+          resolved
+            ? { type: "resolved", taskId }
+            : { type: "completed", taskId, bounty: task.bounty }
+        );
+      } else if (task.status === TASK_DISPUTED && entry.phase !== "disputed") {
+        entry.phase = "disputed";
+        emit({ type: "disputed", taskId });
+      } else if (
+        task.status === TASK_SUBMITTED &&
+        entry.phase === "submitted" &&
+        !entry.undisputable &&
+        tip - task.submittedAt > DISPUTE_WINDOW
+      ) {
+        entry.undisputable = true;
+        emit({ type: "dispute-window-closed", taskId });
+      }
+    }
+  }
+
+  // Perform assigned tasks, earliest deadline first, and submit the results
+  async function performAssigned(s: WorkerState): Promise<void> {
+    const assigned = Object.entries(s.tasks)
+      .filter(([, entry]) => entry.phase === "assigned" && !entry.pendingTxId)
+      .map(([id, entry]) => ({ id, entry, task: cache.get(BigInt(id)) }))
+      .filter((a) => a.task?.status === TASK_ASSIGNED)
+      .sort((a, b) => (a.task!.deadline < b.task!.deadline ? -1 : 1));
+
+    for (const { id, entry, task } of assigned) {
+      const taskId = BigInt(id);
+      try {
+        // A failed submission keeps its result; only the tx is re-sent
+        entry.resultUrl ??= await config.handlers.perform({ id: taskId, task: task! });
+        const sent = await send(s, buildSubmitWork(config, taskId, entry.resultUrl));
+        Object.assign(entry, sent, { phase: "submitting" });
+        emit({
+          type: "submitted",
+          taskId,
+          txId: sent.pendingTxId,
+          resultUrl: entry.resultUrl,
+        });
+      } catch (error) {
+        fail(taskId, entry, error, "assigned");
+      }
+    }
+  }
+
+  // Bid on new open tasks far enough from their deadline; re-send failed bids
+  async function bidOnOpen(s: WorkerState, tip: bigint): Promise<void> {
+    const open = cache.query({
+      status: TASK_OPEN,
+      deadlineFrom: tip + minBlocksToDeadline,
+    });
+    for (const candidate of open) {
+      const id = candidate.id.toString();
+      const tracked = s.tasks[id];
+      const retry = tracked?.phase === "bid" && tracked.lastError !== undefined;
+      if ((tracked && !retry) || candidate.task.poster === address) continue;
+      if (!tracked && !(await config.handlers.shouldBid(candidate))) continue;
+
+      const price = tracked?.price
+        ? BigInt(tracked.price)
+        : await config.handlers.priceFor(candidate);
+      try {
+        const sent = await send(
+          s,
+          buildBid(config, {
+            taskId: candidate.id,
+            price,
+            messageUrl: config.handlers.messageUrlFor?.(candidate) ?? "",
+          })
+        );
+        s.tasks[id] = {
+          phase: "bidding",
+          price: price.toString(),
+          ...sent,
+          attempts: tracked?.attempts ?? 0,
+        };
+        emit({ type: "bid", taskId: candidate.id, txId: sent.pendingTxId, price });
+      } catch (error) {
+        s.tasks[id] ??= { phase: "bid", price: price.toString(), attempts: 0 };
+        fail(candidate.id, s.tasks[id], error, "bid");
+      }
+    }
+  }
+
+  async function tickOnce(): Promise<void> {
+    state ??= (await store.load()) ?? { tasks: {} };
+    const s = state;
+    try {
+      await resolvePending(s);
+      await cache.refresh();
+      const tip = BigInt((await chain.getTip()).height);
+      follow(s, tip);
+      await performAssigned(s);
+      await bidOnOpen(s, tip);
+    } finally {
+      await store.save(s);
+    }
+  }
+
+  function tick(): Promise<void> {
+    // One tick at a time: a caller arriving mid-tick shares it
+    running ??= tickOnce().finally(() => {
+      running = null;
+    });
+    return running;
+  }
+
+  function poll() {
+    tick()
+      .catch((error) => config.onError?.(error))
+      .finally(() => {
+        if (polling) timer = setTimeout(poll, pollInterval);
+      });
+  }
+
+  return {
+    address,
+    tick,
+    start() {
+      if (polling) return;
+      polling = true;
+      poll();
+    },
+    async stop() {
+      polling = false;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      await running?.catch(() => undefined);
+    },
+    state() {
+      return structuredClone(state ?? { tasks: {} });
+    },
+  };
+}
@@ -0,0 +1,727 @@
+/**
+ * x402 Stacks SDK — Chain Providers
+ *
+ * Everything the SDK reads from or sends to the chain goes through a
+ * StacksChainProvider, so one object decides where those requests go, what
+ * credentials they carry and how long they may take:
+ *
+ * - createHiroProvider: the Hiro Stacks API (the default everywhere)
+ * - createNodeProvider: a self-hosted stacks-node's RPC interface
+ * - createSimnetProvider: an in-process Clarinet simnet, for tests that
+ *   need no network at all
+ *
+ * Functions that used to take an API URL still accept one; it is wrapped
+ * in a Hiro provider.
+ */
+
+import {
+  type ClarityValue,
+  type SpendingCondition,
+  type StacksTransactionWire,
+  AuthType,
+  ClarityType,
+  PayloadType,
+  addressFromVersionHash,
+  addressHashModeToVersion,
+  addressToString,
+  cvToHex,
+  deserializeTransaction,
+  hexToCV,
+} from "@stacks/transactions";
+import { type StacksNetwork, STACKS_MAINNET } from "./types.js";
+import { asBigInt, decodeCV, unwrapOptional } from "./clarity.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A transaction as the SDK needs to see it */
+export interface ChainTx {
+  txId: string;
+  /**
+   * "pending", "success", "abort_by_response" or "abort_by_post_condition";
+   * "unknown" when the provider can't tell how a mined transaction ended
+   */
+  status: string;
+  /** Executed in a microblock that isn't anchored yet */
+  unanchored?: boolean;
+  /** Origin (paying) account */
+  sender?: string;
+  contractCall?: {
+    contractId: string;
+    functionName: string;
+    functionArgs?: Array<{ name: string; hex: string }>;
+  };
+}
+
+/** A block's identity, for following the chain across reorgs */
+export interface ChainBlock {
+  height: number;
+  hash: string;
+  parentHash: string;
+  /** Unix time (seconds) */
+  time?: number;
+}
+
+/** A `print` event emitted by a contract in a successful transaction */
+export interface ContractEvent {
+  txId: string;
+  /** Position of the event within its transaction */
+  eventIndex: number;
+  contractId: string;
+  /** Hex-serialized printed value */
+  valueHex: string;
+}
+
+/** Where the SDK reads chain state and broadcasts transactions */
+export interface StacksChainProvider {
+  /** A transaction by id, or null if the chain hasn't seen it */
+  getTx(txId: string): Promise<ChainTx | null>;
+  /**
+   * Call a read-only function with hex-serialized arguments. Resolves to
+   * the hex-serialized result; throws if the call fails.
+   */
+  callReadOnly(
+    contractId: string,
+    functionName: string,
+    args: string[],
+    sender?: string
+  ): Promise<string>;
+  /** Current Stacks chain tip */
+  getTip(): Promise<{ height: number }>;
+  /** Unix time (seconds) of the Stacks block at `height` */
+  getBlockTime(height: bigint): Promise<number>;
+  /** Next nonce for `address`, past its mempool txs where the provider sees them */
+  getAccountNonce(address: string): Promise<bigint>;
+  /** Unlocked microSTX balance of `address` */
+  getStxBalance(address: string): Promise<bigint>;
+  /** Broadcast a serialized transaction: its 0x-prefixed txid, or why it was rejected */
+  broadcast(tx: Uint8Array): Promise<{ txId: string } | string>;
+  /** Block at `height`, or null if it hasn't been produced yet */
+  getBlock?(height: number): Promise<ChainBlock | null>;
+  /**
+   * Block at `height` with its print events, or null if it hasn't been
+   * produced yet. With `contracts`, a provider may leave out events the
+   * other contracts printed; events they print from nested calls count.
+   */
+  getBlockEvents?(
+    height: number,
+    contracts?: string[]
+  ): Promise<{ block: ChainBlock; events: ContractEvent[] } | null>;
+}
+
+/** Options shared by the HTTP providers */
+export interface HttpProviderOptions {
+  /** Abort each request after this many ms (default 30000) */
+  timeoutMs?: number;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+}
+
+export interface HiroProviderOptions extends HttpProviderOptions {
+  /** API base URL (default: Hiro for `network`) */
+  apiUrl?: string;
+  network?: StacksNetwork;
+  /** Hiro API key, sent as `x-api-key` */
+  apiKey?: string;
+}
+
+export interface NodeProviderOptions extends HttpProviderOptions {
+  /** stacks-node RPC base URL, e.g. http://localhost:20443 */
+  url: string;
+}
+
+/** Function signatures from a contract interface (ABI) */
+type ContractFunctions = {
+  functions: Array<{ name: string; args: Array<{ name: string }> }>;
+};
+
+/** The parts of a Clarinet `Simnet` the simnet provider drives */
+export interface SimnetLike {
+  readonly deployer: string;
+  readonly stacksBlockHeight: number;
+  callReadOnlyFn(
+    contract: string,
+    method: string,
+    args: ClarityValue[],
+    sender: string
+  ): { result: ClarityValue };
+  callPublicFn(
+    contract: string,
+    method: string,
+    args: ClarityValue[],
+    sender: string
+  ): {
+    result: ClarityValue;
+    events: Array<{ event: string; data: Record<string, unknown> }>;
+  };
+  runSnippet(snippet: string): string;
+  getContractsInterfaces(): Map<string, ContractFunctions>;
+  getAssetsMap(): Map<string, Map<string, bigint>>;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/** Hiro API page size for block transactions and tx events */
+const PAGE = 50;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Default Hiro API URL for a network */
+export function hiroApiUrl(network?: StacksNetwork): string {
+  return network === STACKS_MAINNET
+    ? "https://api.hiro.so"
+    : "https://api.testnet.hiro.so";
+}
+
+/**
+ * The provider to use for `source`: a provider as-is, or a Hiro provider
+ * for an API URL (or for `network`'s default API when there is neither).
+ */
+export function resolveChain(
+  source: StacksChainProvider | string | undefined,
+  network?: StacksNetwork
+): StacksChainProvider {
+  if (source && typeof source !== "string") return source;
+  return createHiroProvider({ apiUrl: source || undefined, network });
+}
+
+function signerAddress(
+  tx: StacksTransactionWire,
+  condition: SpendingCondition
+): string {
+  return addressToString(
+    addressFromVersionHash(
+      addressHashModeToVersion(
+        condition.hashMode,
+        `stacks:${tx.chainId}` === STACKS_MAINNET ? "mainnet" : "testnet"
+      ),
+      condition.signer
+    )
+  );
+}
+
+/** Address of a transaction's origin (the account whose nonce it uses) */
+export function originAddress(tx: StacksTransactionWire): string {
+  return signerAddress(tx, tx.auth.spendingCondition);
+}
+
+/** A contract call's arguments, named from the contract's interface */
+function namedArgs(
+  abi: ContractFunctions | undefined,
+  functionName: string,
+  args: ClarityValue[]
+): Array<{ name: string; hex: string }> {
+  const params = abi?.functions.find((fn) => fn.name === functionName)?.args;
+  return args.map((cv, i) => ({
+    name: params?.[i]?.name ?? `arg${i}`,
+    hex: cvToHex(cv),
+  }));
+}
+
+function with0x(txId: string): string {
+  return txId.startsWith("0x") ? txId : `0x${txId}`;
+}
+
+/** GET/POST against one base URL with shared headers and timeout */
+function httpClient(base: string, options: HttpProviderOptions) {
+  const root = base.replace(/\/+$/, "");
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  return (path: string, init: RequestInit = {}) =>
+    fetch(`${root}${path}`, {
+      ...init,
+      headers: { ...options.headers, ...(init.headers as Record<string, string>) },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+}
+
+type Http = ReturnType<typeof httpClient>;
+
+// Both the Hiro API and stacks-node serve the /v2 RPC endpoints
+
+async function callReadOnlyHttp(
+  http: Http,
+  contractId: string,
+  functionName: string,
+  args: string[],
+  sender?: string
+): Promise<string> {
+  const [address, name] = contractId.split(".");
+  const resp = await http(
+    `/v2/contracts/call-read/${address}/${name}/${functionName}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sender: sender ?? address, arguments: args }),
+    }
+  );
+  if (!resp.ok) {
+    throw new Error(
+      `Read-only call ${name}.${functionName} failed: HTTP ${resp.status}`
+    );
+  }
+
+  const data = (await resp.json()) as {
+    okay: boolean;
+    result?: string;
+    cause?: string;
+  };
+  if (!data.okay || !data.result) {
+    throw new Error(
+      `Read-only call ${name}.${functionName} failed: ${data.cause ?? "unknown"}`
+    );
+  }
+  return data.result;
+}
+
+async function getTipHttp(http: Http): Promise<{ height: number }> {
+  const resp = await http("/v2/info");
+  if (!resp.ok) throw new Error("Failed to fetch chain tip");
+  const info = (await resp.json()) as { stacks_tip_height: number };
+  return { height: info.stacks_tip_height };
+}
+
+async function getStxBalanceHttp(http: Http, address: string): Promise<bigint> {
+  const resp = await http(`/v2/accounts/${address}?proof=0`);
+  if (!resp.ok) throw new Error(`Failed to fetch balance for ${address}`);
+  const data = (await resp.json()) as { balance: string };
+  return BigInt(data.balance);
+}
+
+async function broadcastHttp(
+  http: Http,
+  tx: Uint8Array
+): Promise<{ txId: string } | string> {
+  const resp = await http("/v2/transactions", {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: Buffer.from(tx),
+  });
+  const data = (await resp.json()) as string | { error: string; reason?: string };
+  if (!resp.ok || typeof data !== "string") {
+    const rejected = typeof data === "string" ? { error: data } : data;
+    return `Broadcast rejected: ${rejected.reason ?? rejected.error}`;
+  }
+  return { txId: with0x(data) };
+}
+
+// ============================================================================
+// HIRO API
+// ============================================================================
+
+/**
+ * Provider backed by the Hiro Stacks API (or any service implementing its
+ * `/extended` endpoints).
+ *
+ * ```ts
+ * const chain = createHiroProvider({
+ *   network: STACKS_MAINNET,
+ *   apiKey: process.env.HIRO_API_KEY,
+ *   timeoutMs: 10_000,
+ * });
+ * ```
+ */
+export function createHiroProvider(
+  options: HiroProviderOptions = {}
+): StacksChainProvider {
+  const http = httpClient(options.apiUrl || hiroApiUrl(options.network), {
+    ...options,
+    headers: {
+      ...options.headers,
+      ...(options.apiKey && { "x-api-key": options.apiKey }),
+    },
+  });
+
+  async function getHiroBlock(height: number): Promise<ChainBlock | null> {
+    const resp = await http(`/extended/v2/blocks/${height}`);
+    if (resp.status === 404) return null;
+    if (!resp.ok) throw new Error(`Failed to fetch block ${height}`);
+    const block = (await resp.json()) as {
+      height: number;
+      hash: string;
+      parent_block_hash: string;
+      block_time: number;
+    };
+    return {
+      height: block.height,
+      hash: block.hash,
+      parentHash: block.parent_block_hash,
+      time: block.block_time,
+    };
+  }
+
+  return {
+    async getTx(txId) {
+      const resp = await http(`/extended/v1/tx/${txId}`);
+      if (resp.status === 404) return null;
+      if (!resp.ok) throw new Error(`Failed to fetch tx ${txId}: HTTP ${resp.status}`);
+
+      const data = (await resp.json()) as {
+        tx_id?: string;
+        tx_status: string;
+        is_unanchored?: boolean;
+        sender_address?: string;
+        contract_call?: {
+          contract_id: string;
+          function_name: string;
+          function_args?: Array<{ name: string; hex: string }>;
+        };
+      };
+      const call = data.contract_call;
+      return {
+        txId: data.tx_id ?? txId,
+        status: data.tx_status,
+        unanchored: data.is_unanchored,
+        sender: data.sender_address,
+        contractCall: call && {
+          contractId: call.contract_id,
+          functionName: call.function_name,
+          functionArgs: call.function_args?.map(({ name, hex }) => ({
+            name,
+            hex,
+          })),
+        },
+      };
+    },
+
+    callReadOnly: (contractId, functionName, args, sender) =>
+      callReadOnlyHttp(http, contractId, functionName, args, sender),
+
+    getTip: () => getTipHttp(http),
+
+    async getBlockTime(height) {
+      const resp = await http(`/extended/v2/blocks/${height}`);
+      if (!resp.ok) throw new Error(`Failed to fetch block ${height}`);
+      const block = (await resp.json()) as { block_time: number };
+      return block.block_time;
+    },
+
+    getBlock: (height) => getHiroBlock(height),
+
+    async getBlockEvents(height, contracts) {
+      const block = await getHiroBlock(height);
+      if (!block) return null;
+
+      // Successful contract calls with events, in block order. Any call may
+      // reach the contracts through nested calls, so events are filtered on
+      // the contract that printed them, not the one the tx called.
+      const txIds: string[] = [];
+      for (let offset = 0, total = Infinity; offset < total; offset += PAGE) {
+        const resp = await http(
+          `/extended/v2/blocks/${height}/transactions?limit=${PAGE}&offset=${offset}`
+        );
+        if (!resp.ok) throw new Error(`Failed to fetch transactions of block ${height}`);
+        const page = (await resp.json()) as {
+          total: number;
+          results: Array<{
+            tx_id: string;
+            tx_status: string;
+            event_count: number;
+            contract_call?: { contract_id: string };
+          }>;
+        };
+        total = page.total;
+        for (const tx of page.results) {
+          if (tx.tx_status === "success" && tx.event_count > 0 && tx.contract_call) {
+            txIds.push(tx.tx_id);
+          }
+        }
+        if (page.results.length === 0) break;
+      }
+
+      const events: ContractEvent[] = [];
+      for (const txId of txIds) {
+        for (let offset = 0; ; offset += PAGE) {
+          const resp = await http(
+            `/extended/v1/tx/events?tx_id=${txId}&type=smart_contract_log&limit=${PAGE}&offset=${offset}`
+          );
+          if (!resp.ok) throw new Error(`Failed to fetch events of tx ${txId}`);
+          const page = (await resp.json()) as {
+            events: Array<{
+              event_index: number;
+              contract_log: {
+                contract_id: string;
+                topic: string;
+                value: { hex: string };
+              };
+            }>;
+          };
+          for (const event of page.events) {
+            const { contract_id, topic } = event.contract_log;
+            if (topic !== "print" || (contracts && !contracts.includes(contract_id))) {
+              continue;
+            }
+            events.push({
+              txId,
+              eventIndex: event.event_index,
+              contractId: contract_id,
+              valueHex: event.contract_log.value.hex,
+            });
+          }
+          if (page.events.length < PAGE) break;
+        }
+      }
+      return { block, events };
+    },
+
+    async getAccountNonce(address) {
+      const resp = await http(`/extended/v1/address/${address}/nonces`);
+      if (!resp.ok) throw new Error(`Failed to fetch nonce for ${address}`);
+      const data = (await resp.json()) as { possible_next_nonce: number };
+      return BigInt(data.possible_next_nonce);
+    },
+
+    getStxBalance: (address) => getStxBalanceHttp(http, address),
+
+    broadcast: (tx) => broadcastHttp(http, tx),
+  };
+}
+
+// ============================================================================
+// STACKS-NODE RPC
+// ============================================================================
+
+/** Byte offset of `timestamp` in a serialized Nakamoto block header */
+const NAKAMOTO_TIMESTAMP_OFFSET = 1 + 8 + 8 + 20 + 32 + 32 + 32;
+
+/**
+ * Provider backed by a stacks-node's own RPC interface, for self-hosted
+ * nodes without an API service in front.
+ *
+ * A node doesn't index transaction results: getTx (which needs the node's
+ * txindex) reports a mined transaction's status as "unknown" and knows
+ * nothing of the mempool. Payment verification still holds, since it rests
+ * on the contract's receipt, which only exists if the payment ran, and on
+ * the receipt's payer being the transaction's sender. Sponsored settlement
+ * needs a provider that reports results, as it waits for "success".
+ * getAccountNonce returns the confirmed nonce. Blocks and events aren't
+ * available; index events through an API or an event observer instead.
+ */
+export function createNodeProvider(
+  options: NodeProviderOptions
+): StacksChainProvider {
+  const http = httpClient(options.url, options);
+  // Transactions carry positional arguments; names come from the interface
+  const interfaces = new Map<string, Promise<ContractFunctions>>();
+
+  function contractInterface(contractId: string): Promise<ContractFunctions> {
+    let abi = interfaces.get(contractId);
+    if (!abi) {
+      const [address, name] = contractId.split(".");
+      abi = http(`/v2/contracts/interface/${address}/${name}`).then((resp) => {
+        if (!resp.ok) throw new Error(`Failed to fetch interface of ${contractId}`);
+        return resp.json() as Promise<ContractFunctions>;
+      });
+      abi.catch(() => interfaces.delete(contractId));
+      interfaces.set(contractId, abi);
+    }
+    return abi;
+  }
+
+  return {
+    async getTx(txId) {
+      const resp = await http(`/v3/transactions/${txId.replace(/^0x/, "")}`);
+      if (resp.status === 404) return null;
+      if (!resp.ok) throw new Error(`Failed to fetch tx ${txId}: HTTP ${resp.status}`);
+
+      const data = (await resp.json()) as { tx: string };
+      const tx = deserializeTransaction(data.tx);
+      const chainTx: ChainTx = {
+        txId: with0x(tx.txid()),
+        status: "unknown",
+        sender: originAddress(tx),
+      };
+      if (tx.payload.payloadType !== PayloadType.ContractCall) return chainTx;
+
+      const call = tx.payload;
+      const contractId = `${addressToString(call.contractAddress)}.${call.contractName.content}`;
+      const functionName = call.functionName.content;
+      return {
+        ...chainTx,
+        contractCall: {
+          contractId,
+          functionName,
+          functionArgs: namedArgs(
+            await contractInterface(contractId),
+            functionName,
+            call.functionArgs
+          ),
+        },
+      };
+    },
+
+    callReadOnly: (contractId, functionName, args, sender) =>
+      callReadOnlyHttp(http, contractId, functionName, args, sender),
+
+    getTip: () => getTipHttp(http),
+
+    async getBlockTime(height) {
+      const resp = await http(`/v3/blocks/height/${height}`);
+      if (!resp.ok) throw new Error(`Failed to fetch block ${height}`);
+      const block = new DataView(await resp.arrayBuffer());
+      return Number(block.getBigUint64(NAKAMOTO_TIMESTAMP_OFFSET));
+    },
+
+    async getAccountNonce(address) {
+      const resp = await http(`/v2/accounts/${address}?proof=0`);
+      if (!resp.ok) throw new Error(`Failed to fetch nonce for ${address}`);
+      const data = (await resp.json()) as { nonce: number };
+      return BigInt(data.nonce);
+    },
+
+    getStxBalance: (address) => getStxBalanceHttp(http, address),
+
+    broadcast: (tx) => broadcastHttp(http, tx),
+  };
+}
+
+// ============================================================================
+// CLARINET SIMNET
+// ============================================================================
+
+/**
+ * Provider backed by an in-process Clarinet simnet. Broadcasting runs the
+ * transaction's contract call at once (as its origin) and records the
+ * outcome, so the full pay → verify loop runs offline.
+ *
+ * The simnet doesn't check signatures, fees or post-conditions, and only
+ * contract calls can be broadcast. Blocks get synthetic hashes derived
+ * from their height, and only events of calls broadcast through this
+ * provider are reported.
+ *
+ * ```ts
+ * const chain = createSimnetProvider(simnet);
+ * const config = { ...serverConfig, chain };
+ * ```
+ */
+export function createSimnetProvider(simnet: SimnetLike): StacksChainProvider {
+  const ledger = new Map<string, ChainTx>();
+  const nonces = new Map<string, bigint>();
+  const blockEvents = new Map<number, ContractEvent[]>();
+
+  // Each call mines its own block; blocks below the current height are sealed
+  const sealed = (height: number) => height >= 1 && height < simnet.stacksBlockHeight;
+  const hashOf = (height: number) => `0x${height.toString(16).padStart(64, "0")}`;
+  const blockAt = (height: number): ChainBlock => ({
+    height,
+    hash: hashOf(height),
+    parentHash: hashOf(height - 1),
+  });
+
+  const bumpNonce = (address: string) =>
+    nonces.set(address, (nonces.get(address) ?? 0n) + 1n);
+
+  return {
+    async getTx(txId) {
+      return ledger.get(with0x(txId)) ?? null;
+    },
+
+    async callReadOnly(contractId, functionName, args, sender) {
+      const { result } = simnet.callReadOnlyFn(
+        contractId,
+        functionName,
+        args.map((hex) => hexToCV(hex)),
+        sender ?? simnet.deployer
+      );
+      return cvToHex(result);
+    },
+
+    async getTip() {
+      return { height: simnet.stacksBlockHeight };
+    },
+
+    async getBlockTime(height) {
+      const time = unwrapOptional(
+        decodeCV(simnet.runSnippet(`(get-stacks-block-info? time u${height})`))
+      );
+      if (time === null) throw new Error(`Failed to fetch block ${height}`);
+      return Number(asBigInt(time));
+    },
+
+    async getAccountNonce(address) {
+      return nonces.get(address) ?? 0n;
+    },
+
+    async getStxBalance(address) {
+      return simnet.getAssetsMap().get("STX")?.get(address) ?? 0n;
+    },
+
+    async broadcast(bytes) {
+      let tx: StacksTransactionWire;
+      try {
+        tx = deserializeTransaction(bytes);
+      } catch {
+        return "Broadcast rejected: malformed transaction";
+      }
+      const call = tx.payload;
+      if (call.payloadType !== PayloadType.ContractCall) {
+        return "Broadcast rejected: the simnet provider only runs contract calls";
+      }
+
+      const txId = with0x(tx.txid());
+      const sender = originAddress(tx);
+      const contractId = `${addressToString(call.contractAddress)}.${call.contractName.content}`;
+      const functionName = call.functionName.content;
+
+      const height = simnet.stacksBlockHeight;
+      let status: string;
+      try {
+        const { result, events } = simnet.callPublicFn(
+          contractId,
+          functionName,
+          call.functionArgs,
+          sender
+        );
+        status =
+          result.type === ClarityType.ResponseOk ? "success" : "abort_by_response";
+        if (status === "success") {
+          const printed = events
+            .filter((e) => e.event === "print_event")
+            .map((e, eventIndex) => ({
+              txId,
+              eventIndex,
+              contractId: e.data.contract_identifier as string,
+              valueHex: e.data.raw_value as string,
+            }));
+          blockEvents.set(height, [...(blockEvents.get(height) ?? []), ...printed]);
+        }
+      } catch {
+        // Runtime errors abort the transaction; it is still mined
+        status = "abort_by_response";
+      }
+
+      bumpNonce(sender);
+      if (tx.auth.authType === AuthType.Sponsored) {
+        bumpNonce(signerAddress(tx, tx.auth.sponsorSpendingCondition));
+      }
+
+      ledger.set(txId, {
+        txId,
+        status,
+        sender,
+        contractCall: {
+          contractId,
+          functionName,
+          functionArgs: namedArgs(
+            simnet.getContractsInterfaces().get(contractId),
+            functionName,
+            call.functionArgs
+          ),
+        },
+      });
+      return { txId };
+    },
+
+    async getBlock(height) {
+      return sealed(height) ? blockAt(height) : null;
+    },
+
+    async getBlockEvents(height) {
+      if (!sealed(height)) return null;
+      return { block: blockAt(height), events: blockEvents.get(height) ?? [] };
+    },
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * x402 Stacks SDK — Clarity Value Codec
+ *
+ * Thin layer over @stacks/transactions for serializing read-only call
+ * arguments and decoding results into plain JS values (bigint for uint/int,
+ * string for principals/strings/buffers, null for `none`).
+ */
+
+import {
+  Cl,
+  cvToHex,
+  hexToCV,
+  ClarityType,
+  type ClarityValue,
+} from "@stacks/transactions";
+
+export type { ClarityValue } from "@stacks/transactions";
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+/** Serialize a Clarity value as a 0x-prefixed hex argument */
+export function encodeCV(cv: ClarityValue): string {
+  return cvToHex(cv);
+}
+
+/** Encode a standard or contract principal argument */
+export function encodePrincipal(principal: string): string {
+  return cvToHex(Cl.principal(principal));
+}
+
+/** Encode a uint argument */
+export function encodeUint(value: bigint | number): string {
+  return cvToHex(Cl.uint(value));
+}
+
+/** Encode a buffer argument from hex (with or without 0x prefix) */
+export function encodeBufferHex(hex: string): string {
+  return cvToHex(Cl.bufferFromHex(hex.replace(/^0x/, "")));
+}
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+/** Deserialize a 0x-prefixed hex Clarity value */
+export function decodeCV(hex: string): ClarityValue {
+  return hexToCV(hex);
+}
+
+function typeError(expected: string, cv: ClarityValue | undefined): Error {
+  return new Error(`Expected Clarity ${expected}, got ${cv?.type ?? "nothing"}`);
+}
+
+/** Unwrap `(some x)` to x, `none` to null */
+export function unwrapOptional(cv: ClarityValue): ClarityValue | null {
+  if (cv.type === ClarityType.OptionalNone) return null;
+  if (cv.type === ClarityType.OptionalSome) return cv.value;
+  throw typeError("optional", cv);
+}
+
+/** Unwrap `(ok x)` to x; throw on `(err code)` */
+export function unwrapOk(cv: ClarityValue): ClarityValue {
+  if (cv.type === ClarityType.ResponseOk) return cv.value;
+  if (cv.type === ClarityType.ResponseErr) {
+    const code =
+      cv.value.type === ClarityType.UInt ? `u${cv.value.value}` : cv.value.type;
+    throw new Error(`Contract returned (err ${code})`);
+  }
+  throw typeError("response", cv);
+}
+
+/** Fields of a tuple, keyed by their Clarity (kebab-case) names */
+export function asTuple(cv: ClarityValue): Record<string, ClarityValue> {
+  if (cv.type !== ClarityType.Tuple) throw typeError("tuple", cv);
+  return cv.value;
+}
+
+export function asBigInt(cv: ClarityValue | undefined): bigint {
+  if (cv?.type === ClarityType.UInt || cv?.type === ClarityType.Int) {
+    return BigInt(cv.value);
+  }
+  throw typeError("int", cv);
+}
+
+export function asNumber(cv: ClarityValue | undefined): number {
+  return Number(asBigInt(cv));
+}
+
+export function asBool(cv: ClarityValue | undefined): boolean {
+  if (cv?.type === ClarityType.BoolTrue) return true;
+  if (cv?.type === ClarityType.BoolFalse) return false;
+  throw typeError("bool", cv);
+}
+
+export function asPrincipal(cv: ClarityValue | undefined): string {
+  if (
+    cv?.type === ClarityType.PrincipalStandard ||
+    cv?.type === ClarityType.PrincipalContract
+  ) {
+    return cv.value;
+  }
+  throw typeError("principal", cv);
+}
+
+export function asString(cv: ClarityValue | undefined): string {
+  if (
+    cv?.type === ClarityType.StringUTF8 ||
+    cv?.type === ClarityType.StringASCII
+  ) {
+    return cv.value;
+  }
+  throw typeError("string", cv);
+}
+
+/** Buffer contents as lowercase hex, no 0x prefix */
+export function asBufferHex(cv: ClarityValue | undefined): string {
+  if (cv?.type === ClarityType.Buffer) return cv.value.toLowerCase();
+  throw typeError("buffer", cv);
+}
+
+/** Decode an `(optional principal)` field */
+export function asOptionalPrincipal(
+  cv: ClarityValue | undefined
+): string | null {
+  if (!cv) throw typeError("optional", cv);
+  const inner = unwrapOptional(cv);
+  return inner ? asPrincipal(inner) : null;
+}
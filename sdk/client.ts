@@ -8,13 +8,43 @@
  */
 
 import {
-  type X402ClientConfig,
+  Cl,
+  makeContractCall,
+  privateKeyToAddress,
+  type ClarityValue,
+} from "@stacks/transactions";
+import {
   type PaymentRequired,
   type PaymentPayload,
   type PaymentRequirements,
+  type SettleResponse,
+  type StacksNetwork,
+  STACKS_MAINNET,
   HEADER_PAYMENT_REQUIRED,
+  HEADER_PAYMENT_RESPONSE,
   HEADER_PAYMENT_SIGNATURE,
 } from "./types.js";
+import {
+  type PostConditionSet,
+  BPS_DENOM,
+  payStxPostConditions,
+  paySip010PostConditions,
+  curveBuyPostConditions,
+} from "./post-conditions.js";
+import { type StacksChainProvider, resolveChain } from "./chain.js";
+import {
+  asBigInt,
+  asTuple,
+  decodeCV,
+  encodeUint,
+  unwrapOk,
+  unwrapOptional,
+} from "./clarity.js";
+import {
+  type SpendingGuard,
+  type SpendingPolicy,
+  createSpendingGuard,
+} from "./spending-policy.js";
 
 // ============================================================================
 // 402 RESPONSE PARSING
@@ -44,6 +74,23 @@ export function parsePaymentRequired(
   }
 }
 
+/**
+ * Extract settlement details from a paid response's PAYMENT-RESPONSE header
+ */
+export function parsePaymentResponse(
+  response: Response
+): SettleResponse | null {
+  const raw = response.headers.get(HEADER_PAYMENT_RESPONSE);
+  if (!raw) return null;
+
+  try {
+    const decoded = atob(raw);
+    return JSON.parse(decoded) as SettleResponse;
+  } catch {
+    return null;
+  }
+}
+
 // ============================================================================
 // NONCE GENERATION
 // ============================================================================
@@ -77,11 +124,34 @@ export function nonceToHex(nonce: Uint8Array): string {
 // ============================================================================
 
 /**
- * Build the contract call arguments for pay-stx.
+ * Read the x402-payments contract's current protocol fee (basis points).
+ */
+export async function getPaymentFeeBps(
+  requirements: PaymentRequirements,
+  chain?: StacksChainProvider | string
+): Promise<bigint> {
+  const { contractAddress, contractName } = requirements.extra;
+  const result = await resolveChain(chain, requirements.network).callReadOnly(
+    `${contractAddress}.${contractName}`,
+    "get-fee-bps",
+    []
+  );
+  return asBigInt(decodeCV(result));
+}
+
+/** A ready-to-sign payment contract call */
+export type PaymentCall = PostConditionSet & {
+  contractAddress: string;
+  contractName: string;
+  functionName: string;
+  functionArgs: ClarityValue[];
+};
+
+/**
+ * Build the contract call for pay-stx, with deny-mode post-conditions.
  *
- * This returns the parameters needed to call the x402-payments contract.
- * The actual transaction submission depends on your wallet library
- * (Leather, @stacks/transactions, etc.)
+ * The payer sends exactly `requirements.amount`; pass the contract's current
+ * `feeBps` (see getPaymentFeeBps) to get the net/fee split in `breakdown`.
  *
  * Usage with @stacks/transactions:
  * ```ts
@@ -96,39 +166,203 @@ export function nonceToHex(nonce: Uint8Array): string {
  *   contractName: args.contractName,
  *   functionName: args.functionName,
  *   functionArgs: args.functionArgs,
+ *   postConditionMode: args.postConditionMode,
  *   postConditions: args.postConditions,
  *   senderKey: yourPrivateKey,
  *   network: "testnet",
  * });
  *
- * const result = await broadcastTransaction(tx);
+ * const result = await broadcastTransaction({ transaction: tx });
  * ```
  */
 export function buildPayStxArgs(
   requirements: PaymentRequirements,
-  nonce: Uint8Array
-): {
-  contractAddress: string;
-  contractName: string;
-  functionName: string;
-  functionArgs: {
-    recipient: string;
-    amount: string;
-    nonce: string;
-  };
-} {
+  nonce: Uint8Array,
+  feeBps: bigint = 0n
+): PaymentCall {
+  const amount = BigInt(requirements.amount);
   return {
     contractAddress: requirements.extra.contractAddress,
     contractName: requirements.extra.contractName,
     functionName: "pay-stx",
-    functionArgs: {
-      recipient: requirements.payTo,
-      amount: requirements.amount,
-      nonce: `0x${nonceToHex(nonce)}`,
-    },
+    functionArgs: [
+      Cl.principal(requirements.payTo),
+      Cl.uint(amount),
+      Cl.buffer(nonce),
+    ],
+    ...payStxPostConditions(amount, feeBps),
+  };
+}
+
+/**
+ * Build the contract call for pay-sip010 (sBTC or any SIP-010 token).
+ *
+ * `requirements.asset` is the token contract principal, passed as the
+ * `<sip010-ft>` trait reference; `requirements.extra.tokenName` names the
+ * fungible token for the FT post-condition.
+ */
+export function buildPaySip010Args(
+  requirements: PaymentRequirements,
+  nonce: Uint8Array,
+  feeBps: bigint = 0n
+): PaymentCall {
+  const [tokenAddress, tokenContract] = requirements.asset.split(".");
+  const tokenName = requirements.extra.tokenName;
+  if (!tokenAddress || !tokenContract) {
+    throw new Error(`Asset is not a token contract: ${requirements.asset}`);
+  }
+  if (!tokenName) {
+    throw new Error(`Missing extra.tokenName for ${requirements.asset}`);
+  }
+
+  const amount = BigInt(requirements.amount);
+  return {
+    contractAddress: requirements.extra.contractAddress,
+    contractName: requirements.extra.contractName,
+    functionName: "pay-sip010",
+    functionArgs: [
+      Cl.contractPrincipal(tokenAddress, tokenContract),
+      Cl.principal(requirements.payTo),
+      Cl.uint(amount),
+      Cl.buffer(nonce),
+    ],
+    ...paySip010PostConditions(
+      amount,
+      { contractId: `${tokenAddress}.${tokenContract}`, tokenName },
+      feeBps
+    ),
   };
 }
 
+/**
+ * Build the payment call for a requirement, dispatching on its asset:
+ * pay-stx for "STX", pay-sip010 for a token contract principal.
+ */
+export function buildPaymentCall(
+  requirements: PaymentRequirements,
+  nonce: Uint8Array,
+  feeBps: bigint = 0n
+): PaymentCall {
+  return requirements.asset === "STX"
+    ? buildPayStxArgs(requirements, nonce, feeBps)
+    : buildPaySip010Args(requirements, nonce, feeBps);
+}
+
+// ============================================================================
+// CURVE PAYMENTS
+// ============================================================================
+
+/** agent-launchpad `get-buy-quote` result, with the curve's fees so far */
+export interface CurveBuyQuote {
+  tokensOut: bigint;
+  fee: bigint;
+  /** The curve's `accrued-fees`, paid out if this buy graduates it */
+  accruedFees: bigint;
+}
+
+/**
+ * Quote a curve-scheme payment: how many curve tokens `requirements.amount`
+ * STX buys right now, and the curve's accrued fees. The launchpad is
+ * deployed alongside the router.
+ */
+export async function getCurveBuyQuote(
+  requirements: PaymentRequirements,
+  chain?: StacksChainProvider | string
+): Promise<CurveBuyQuote> {
+  const { contractAddress, curveId } = requirements.extra;
+  if (curveId === undefined) throw new Error("Missing extra.curveId");
+
+  const provider = resolveChain(chain, requirements.network);
+  const launchpad = `${contractAddress}.agent-launchpad`;
+  const [result, curveResult] = await Promise.all([
+    provider.callReadOnly(launchpad, "get-buy-quote", [
+      encodeUint(BigInt(curveId)),
+      encodeUint(BigInt(requirements.amount)),
+    ]),
+    provider.callReadOnly(launchpad, "get-curve", [encodeUint(BigInt(curveId))]),
+  ]);
+
+  const quote = asTuple(unwrapOk(decodeCV(result)));
+  const curve = unwrapOptional(decodeCV(curveResult));
+  if (!curve) throw new Error(`Curve not found: ${curveId}`);
+  return {
+    tokensOut: asBigInt(quote["tokens-out"]),
+    fee: asBigInt(quote["fee"]),
+    accruedFees: asBigInt(asTuple(curve)["accrued-fees"]),
+  };
+}
+
+/**
+ * Build the contract call for x402-curve-router `pay-via-curve`.
+ *
+ * `min-tokens-out` is the quote less `slippageBps` (default 1%), but never
+ * below the server's `extra.minTokensOut`. The buy's trade fee comes from
+ * the quote, so `breakdown` shows what actually reaches the curve reserve.
+ */
+export function buildPayViaCurveArgs(
+  requirements: PaymentRequirements,
+  nonce: Uint8Array,
+  quote: CurveBuyQuote,
+  slippageBps: bigint = 100n
+): PaymentCall {
+  const { contractAddress, contractName, curveId } = requirements.extra;
+  if (curveId === undefined) throw new Error("Missing extra.curveId");
+
+  const amount = BigInt(requirements.amount);
+  const serverMin = BigInt(requirements.extra.minTokensOut ?? 0);
+  const quotedMin = (quote.tokensOut * (BPS_DENOM - slippageBps)) / BPS_DENOM;
+  const minTokensOut = quotedMin > serverMin ? quotedMin : serverMin;
+
+  // The quoted fee is this buy's share of a graduation payout
+  const postConditions = curveBuyPostConditions(
+    `${contractAddress}.agent-launchpad`,
+    amount,
+    0n,
+    quote.accruedFees + quote.fee
+  );
+  return {
+    contractAddress,
+    contractName,
+    functionName: "pay-via-curve",
+    functionArgs: [
+      Cl.uint(BigInt(curveId)),
+      Cl.uint(amount),
+      Cl.buffer(nonce),
+      Cl.uint(minTokensOut),
+    ],
+    ...postConditions,
+    breakdown: { total: amount, net: amount - quote.fee, fee: quote.fee },
+  };
+}
+
+/**
+ * Build the payment call for any scheme. Exact payments read the contract's
+ * `get-fee-bps` for their breakdown; curve payments read a fresh
+ * `get-buy-quote` to set their slippage bound.
+ */
+export async function preparePaymentCall(
+  requirements: PaymentRequirements,
+  nonce: Uint8Array,
+  options: {
+    apiUrl?: string;
+    chain?: StacksChainProvider;
+    slippageBps?: bigint;
+  } = {}
+): Promise<PaymentCall> {
+  if (requirements.scheme === "curve") {
+    const quote = await getCurveBuyQuote(
+      requirements,
+      options.chain ?? options.apiUrl
+    );
+    return buildPayViaCurveArgs(requirements, nonce, quote, options.slippageBps);
+  }
+  const feeBps = await getPaymentFeeBps(
+    requirements,
+    options.chain ?? options.apiUrl
+  );
+  return buildPaymentCall(requirements, nonce, feeBps);
+}
+
 // ============================================================================
 // PAYMENT PAYLOAD BUILDER
 // ============================================================================
@@ -153,6 +387,27 @@ export function buildPaymentPayload(
   };
 }
 
+/**
+ * Build the payment payload for a sponsored payment: the signed, unbroadcast
+ * transaction goes to the server, which sponsors and broadcasts it
+ */
+export function buildSponsoredPaymentPayload(
+  paymentRequired: PaymentRequired,
+  accepted: PaymentRequirements,
+  transaction: string,
+  nonce: Uint8Array
+): PaymentPayload {
+  return {
+    x402Version: 2,
+    resource: paymentRequired.resource,
+    accepted,
+    payload: {
+      nonce: nonceToHex(nonce),
+      transaction,
+    },
+  };
+}
+
 /**
  * Encode a payment payload for the PAYMENT-SIGNATURE header
  */
@@ -160,6 +415,153 @@ export function encodePaymentPayload(payload: PaymentPayload): string {
   return btoa(JSON.stringify(payload));
 }
 
+// ============================================================================
+// REQUIREMENT SELECTION
+// ============================================================================
+
+/**
+ * Pick one of the payment options a 402 response advertises.
+ * Return undefined if none is acceptable.
+ */
+export type RequirementSelector = (
+  accepts: PaymentRequirements[]
+) => PaymentRequirements | undefined;
+
+/** Take the first advertised option */
+export const firstRequirement: RequirementSelector = (accepts) => accepts[0];
+
+/**
+ * Only consider options on `network`, then pick among them with `select`.
+ */
+export function matchNetwork(
+  network: StacksNetwork,
+  select: RequirementSelector = firstRequirement
+): RequirementSelector {
+  return (accepts) => select(accepts.filter((r) => r.network === network));
+}
+
+/**
+ * Prefer assets in the given order ("STX" or a SIP-010 contract principal),
+ * falling back to the first option if none is listed.
+ */
+export function preferAsset(...assets: string[]): RequirementSelector {
+  return (accepts) => {
+    for (const asset of assets) {
+      const match = accepts.find((r) => r.asset === asset);
+      if (match) return match;
+    }
+    return accepts[0];
+  };
+}
+
+/**
+ * Pick the cheapest option in a reference currency. `rates` maps each asset
+ * to the value of one atomic unit (e.g. USD per microSTX); options in assets
+ * without a rate are skipped.
+ */
+export function cheapestRequirement(
+  rates: Record<string, number>
+): RequirementSelector {
+  return (accepts) => {
+    let best: PaymentRequirements | undefined;
+    let bestCost = Infinity;
+    for (const r of accepts) {
+      const rate = rates[r.asset];
+      if (rate === undefined) continue;
+      const cost = Number(r.amount) * rate;
+      if (cost < bestCost) {
+        best = r;
+        bestCost = cost;
+      }
+    }
+    return best;
+  };
+}
+
+// ============================================================================
+// PRIVATE KEY PAYER
+// ============================================================================
+
+const DEFAULT_TX_FEE = 3_000n;
+
+/** `pay` and `signSponsored` for an account whose private key is at hand */
+export interface KeyPayer {
+  /** The paying account */
+  address: string;
+  pay: AutoPayConfig["pay"];
+  signSponsored: NonNullable<AutoPayConfig["signSponsored"]>;
+}
+
+/**
+ * Pay from a private key: sign each payment call and broadcast it through
+ * the chain provider (or, for sponsored payments, just sign it). Suits
+ * headless agents, scripts and tests; wallets should implement `pay`.
+ *
+ * ```ts
+ * const payingFetch = wrapFetchWithPayment({
+ *   ...createKeyPayer({ privateKey, network: STACKS_TESTNET, chain }),
+ *   network: STACKS_TESTNET,
+ *   chain,
+ * });
+ * ```
+ */
+export function createKeyPayer(options: {
+  privateKey: string;
+  network?: StacksNetwork;
+  /** Where nonces are read and payments broadcast (default: Hiro for `network`) */
+  chain?: StacksChainProvider | string;
+  /** Network fee in microSTX per unsponsored payment (default 3000) */
+  fee?: bigint;
+}): KeyPayer {
+  const network = options.network === STACKS_MAINNET ? "mainnet" : "testnet";
+  const address = privateKeyToAddress(options.privateKey, network);
+  const chain = resolveChain(options.chain, options.network);
+  // Highest nonce taken by pay() so far, for payments the chain hasn't seen yet
+  let lastNonce: bigint | undefined;
+
+  function sign(call: PaymentCall, sponsored: boolean, nonce: bigint) {
+    return makeContractCall({
+      contractAddress: call.contractAddress,
+      contractName: call.contractName,
+      functionName: call.functionName,
+      functionArgs: call.functionArgs,
+      postConditionMode: call.postConditionMode,
+      postConditions: call.postConditions,
+      senderKey: options.privateKey,
+      sponsored,
+      fee: sponsored ? 0n : (options.fee ?? DEFAULT_TX_FEE),
+      nonce,
+      network,
+    });
+  }
+
+  return {
+    address,
+    async pay(_requirements, _nonce, call) {
+      const next = await chain.getAccountNonce(address);
+      // Take the nonce before the next await, so concurrent payments don't share it
+      const nonce = lastNonce !== undefined && lastNonce >= next ? lastNonce + 1n : next;
+      lastNonce = nonce;
+      try {
+        const tx = await sign(call, false, nonce);
+        const broadcast = await chain.broadcast(tx.serializeBytes());
+        if (typeof broadcast === "string") throw new Error(broadcast);
+        return broadcast.txId;
+      } catch (error) {
+        // Never broadcast: hand the nonce back unless a later payment took one
+        if (lastNonce === nonce) lastNonce = nonce - 1n;
+        throw error;
+      }
+    },
+    async signSponsored(_requirements, _nonce, call) {
+      // The server may never broadcast it, and sponsors only take the
+      // account's next nonce, so read it from the chain and keep no count
+      const tx = await sign(call, true, await chain.getAccountNonce(address));
+      return tx.serialize();
+    },
+  };
+}
+
 // ============================================================================
 // FETCH WRAPPER
 // ============================================================================
@@ -175,19 +577,20 @@ export interface AutoPayConfig {
    * The function receives:
    * - requirements: the payment requirements from the 402 response
    * - nonce: a pre-generated 16-byte nonce to use in the contract call
+   * - call: the ready-to-sign contract call for the requirement's scheme
+   *   and asset (pay-stx for "STX", pay-sip010 for a token, pay-via-curve
+   *   for the curve scheme), including deny-mode post-conditions
    *
    * Example with Leather wallet:
    * ```ts
-   * async pay(requirements, nonce) {
+   * async pay(requirements, nonce, call) {
    *   const tx = await openContractCall({
-   *     contractAddress: requirements.extra.contractAddress,
-   *     contractName: requirements.extra.contractName,
-   *     functionName: "pay-stx",
-   *     functionArgs: [
-   *       standardPrincipalCV(requirements.payTo),
-   *       uintCV(requirements.amount),
-   *       bufferCV(nonce),
-   *     ],
+   *     contractAddress: call.contractAddress,
+   *     contractName: call.contractName,
+   *     functionName: call.functionName,
+   *     functionArgs: call.functionArgs,
+   *     postConditionMode: PostConditionMode.Deny,
+   *     postConditions: call.postConditions,
    *   });
    *   return tx.txId;
    * }
@@ -195,43 +598,103 @@ export interface AutoPayConfig {
    */
   pay: (
     requirements: PaymentRequirements,
-    nonce: Uint8Array
+    nonce: Uint8Array,
+    call: PaymentCall
+  ) => Promise<string>;
+
+  /**
+   * Sign (but don't broadcast) the payment as a sponsored transaction and
+   * return it serialized. Used instead of `pay` when the server advertises
+   * `extra.sponsored`, so the payer needs no STX for fees; the server pays
+   * the fee, broadcasts, and waits for confirmation.
+   *
+   * Example with @stacks/transactions:
+   * ```ts
+   * async signSponsored(requirements, nonce, call) {
+   *   const tx = await makeContractCall({
+   *     ...call,
+   *     senderKey,
+   *     sponsored: true,
+   *     fee: 0,
+   *     network: "testnet",
+   *   });
+   *   return tx.serialize();
+   * }
+   * ```
+   */
+  signSponsored?: (
+    requirements: PaymentRequirements,
+    nonce: Uint8Array,
+    call: PaymentCall
   ) => Promise<string>;
 
+  /**
+   * Choose among the options a 402 response advertises
+   * (default: the first one). See matchNetwork, preferAsset and
+   * cheapestRequirement.
+   */
+  selectRequirement?: RequirementSelector;
+
+  /**
+   * Network the payer is on. Options on other networks are never paid,
+   * whatever `selectRequirement` returns.
+   */
+  network?: StacksNetwork;
+
+  /**
+   * Spending limits checked before every payment. A refused payment makes
+   * the wrapped fetch reject with SpendingPolicyError and nothing is paid.
+   * Pass a guard from createSpendingGuard to share budgets across wrappers.
+   */
+  policy?: SpendingPolicy | SpendingGuard;
+
+  /** Slippage allowed on curve-scheme payments (basis points, default 100) */
+  slippageBps?: bigint;
+
+  /**
+   * Retry as soon as the payment is in the mempool instead of waiting for a
+   * block. Only servers with a `mempool` acceptance policy accept it, and
+   * only for requirements under their ceiling.
+   */
+  skipConfirmation?: boolean;
+
   /** Maximum time to wait for tx confirmation (ms, default 120000) */
   confirmationTimeout?: number;
 
   /** Poll interval for tx confirmation (ms, default 3000) */
   pollInterval?: number;
 
-  /** Stacks API URL for checking tx status */
+  /** Stacks API URL for checking tx status (default: Hiro for `network`) */
   apiUrl?: string;
+
+  /** Chain backend for quotes and tx status; replaces `apiUrl` */
+  chain?: StacksChainProvider;
 }
 
 /**
- * Wait for a transaction to be confirmed on-chain
+ * Wait for a transaction to be confirmed on-chain. With `acceptPending`,
+ * return as soon as the chain has seen it in the mempool. Anything short of
+ * "success" (an abort, or a result the provider can't see) returns false.
  */
-async function waitForConfirmation(
+export async function waitForConfirmation(
   txId: string,
-  apiUrl: string,
+  chain: StacksChainProvider | string,
   timeout: number,
-  pollInterval: number
+  pollInterval: number,
+  acceptPending = false
 ): Promise<boolean> {
+  const provider = resolveChain(chain);
   const start = Date.now();
   const cleanTxId = txId.startsWith("0x") ? txId : `0x${txId}`;
 
   while (Date.now() - start < timeout) {
     try {
-      const resp = await fetch(`${apiUrl}/extended/v1/tx/${cleanTxId}`);
-      if (resp.ok) {
-        const data = (await resp.json()) as { tx_status: string };
-        if (data.tx_status === "success") return true;
-        if (
-          data.tx_status === "abort_by_response" ||
-          data.tx_status === "abort_by_post_condition"
-        ) {
-          return false;
-        }
+      const tx = await provider.getTx(cleanTxId);
+      if (tx) {
+        if (tx.status === "success") return true;
+        if (acceptPending && tx.status === "pending") return true;
+        // Aborted, dropped, or mined with a result the provider can't see
+        if (tx.status !== "pending") return false;
       }
     } catch {
       // Retry on network error
@@ -245,33 +708,45 @@ async function waitForConfirmation(
  * Wrap fetch() with automatic x402 payment handling.
  *
  * If the request returns 402, this wrapper will:
- * 1. Parse the payment requirements
- * 2. Call your `pay` function to execute the payment
- * 3. Wait for transaction confirmation
- * 4. Retry the request with the PAYMENT-SIGNATURE header
+ * 1. Parse the payment requirements and select one option
+ * 2. Check it against the spending policy, if any
+ * 3. Build the payment call and pass it to your `pay` function
+ *    (or `signSponsored`, if the server sponsors transactions)
+ * 4. Wait for transaction confirmation (the server does this when sponsoring)
+ * 5. Retry the request with the PAYMENT-SIGNATURE header
  *
  * Usage:
  * ```ts
  * const payingFetch = wrapFetchWithPayment({
- *   pay: async (requirements, nonce) => {
- *     // Use Leather or @stacks/transactions to submit payment
+ *   pay: async (requirements, nonce, call) => {
+ *     // Sign and broadcast `call` with Leather or @stacks/transactions
  *     return txId;
  *   },
  * });
  *
  * // This will auto-pay if the server returns 402
  * const response = await payingFetch("https://api.example.com/premium");
+ *
+ * // Settlement details (tx, payer, receipt block, fee) of a paid request
+ * const settlement = parsePaymentResponse(response);
  * ```
  */
 export function wrapFetchWithPayment(
   config: AutoPayConfig
 ): typeof globalThis.fetch {
-  const apiUrl = config.apiUrl || "https://api.testnet.hiro.so";
+  const chain = resolveChain(config.chain ?? config.apiUrl, config.network);
+  const select = config.network
+    ? matchNetwork(config.network, config.selectRequirement)
+    : (config.selectRequirement ?? firstRequirement);
+  const guard =
+    config.policy && "authorize" in config.policy
+      ? config.policy
+      : config.policy && createSpendingGuard(config.policy);
   const timeout = config.confirmationTimeout || 120_000;
   const pollInterval = config.pollInterval || 3_000;
 
   return async function payingFetch(
-    input: RequestInfo | URL,
+    input: string | URL | Request,
     init?: RequestInit
   ): Promise<Response> {
     // Make the initial request
@@ -288,34 +763,67 @@ export function wrapFetchWithPayment(
       return response; // Can't parse requirements, return original 402
     }
 
-    // Pick the first accepted payment method
-    const accepted = paymentRequired.accepts[0];
+    // Pick one of the accepted payment methods
+    const accepted = select(paymentRequired.accepts);
+    if (!accepted) {
+      return response; // Nothing we can pay, return original 402
+    }
+
+    // Enforce spending limits before anything is signed
+    const url =
+      input instanceof URL
+        ? input.href
+        : typeof input === "string"
+          ? input
+          : input.url;
+    const reservation = await guard?.authorize(url, accepted);
 
     // Generate nonce
     const nonce = generateNonce();
 
-    // Execute payment
-    const txId = await config.pay(accepted, nonce);
+    // Execute payment (pay-stx, pay-sip010 or pay-via-curve), or just sign
+    // it if the server will sponsor it
+    const sponsored = accepted.extra.sponsored && config.signSponsored;
+    let proof: string;
+    try {
+      const call = await preparePaymentCall(accepted, nonce, {
+        chain,
+        slippageBps: config.slippageBps,
+      });
+      proof = sponsored
+        ? await sponsored(accepted, nonce, call)
+        : await config.pay(accepted, nonce, call);
+    } catch (error) {
+      reservation?.release();
+      throw error;
+    }
 
-    // Wait for confirmation
-    const confirmed = await waitForConfirmation(
-      txId,
-      apiUrl,
-      timeout,
-      pollInterval
-    );
+    let payload: PaymentPayload;
+    if (sponsored) {
+      payload = buildSponsoredPaymentPayload(
+        paymentRequired,
+        accepted,
+        proof,
+        nonce
+      );
+    } else {
+      // Wait for confirmation
+      const confirmed = await waitForConfirmation(
+        proof,
+        chain,
+        timeout,
+        pollInterval,
+        config.skipConfirmation
+      );
+
+      if (!confirmed) {
+        throw new Error(`Payment transaction ${proof} failed or timed out`);
+      }
 
-    if (!confirmed) {
-      throw new Error(`Payment transaction ${txId} failed or timed out`);
+      payload = buildPaymentPayload(paymentRequired, accepted, proof, nonce);
     }
 
     // Build payment payload
-    const payload = buildPaymentPayload(
-      paymentRequired,
-      accepted,
-      txId,
-      nonce
-    );
     const encoded = encodePaymentPayload(payload);
 
     // Retry the request with payment proof
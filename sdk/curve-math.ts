@@ -0,0 +1,169 @@
+/**
+ * AI Agent Protocol — Bonding Curve Math
+ *
+ * Pure TypeScript mirror of agent-launchpad's virtual constant-product
+ * curve, for quoting without a network round-trip. Every function takes a
+ * curve snapshot (a CurveRecord from getCurve) and reproduces the
+ * contract's uint arithmetic exactly: same operation order, same floor
+ * division, and the same runtime failures on uint underflow/overflow.
+ *
+ *   token-reserve = total-supply - tokens-sold
+ *   k             = virtual-stx * total-supply   (fixed at launch)
+ *   buy:  new-token-reserve = k / (virtual-stx + stx-reserve + net-stx)
+ *   sell: new-stx-reserve   = k / (token-reserve + tokens-in) - virtual-stx
+ */
+
+import type { BuyQuote, CurveRecord, SellQuote } from "./agent-types.js";
+import { PRICE_SCALE } from "./agent-types.js";
+import { BPS_DENOM } from "./post-conditions.js";
+
+/** The curve fields the math reads */
+export type CurveState = Pick<
+  CurveRecord,
+  | "totalSupply"
+  | "virtualStx"
+  | "k"
+  | "stxReserve"
+  | "tokensSold"
+  | "graduationStx"
+  | "feeBps"
+>;
+
+// ============================================================================
+// CLARITY UINT ARITHMETIC
+// ============================================================================
+
+const MAX_U128 = (1n << 128n) - 1n;
+
+function sub(a: bigint, b: bigint): bigint {
+  if (b > a) throw new Error("ArithmeticUnderflow");
+  return a - b;
+}
+
+function add(a: bigint, b: bigint): bigint {
+  const r = a + b;
+  if (r > MAX_U128) throw new Error("ArithmeticOverflow");
+  return r;
+}
+
+function mul(a: bigint, b: bigint): bigint {
+  const r = a * b;
+  if (r > MAX_U128) throw new Error("ArithmeticOverflow");
+  return r;
+}
+
+function div(a: bigint, b: bigint): bigint {
+  if (b === 0n) throw new Error("DivisionByZero");
+  return a / b;
+}
+
+function tokenReserve(curve: CurveState): bigint {
+  return sub(curve.totalSupply, curve.tokensSold);
+}
+
+function tradeFee(amount: bigint, feeBps: bigint): bigint {
+  return div(mul(amount, feeBps), BPS_DENOM);
+}
+
+// ============================================================================
+// QUOTES
+// ============================================================================
+
+/** `get-buy-quote`: tokens out and fee for `stxAmount` microSTX */
+export function quoteBuy(curve: CurveState, stxAmount: bigint): BuyQuote {
+  const fee = tradeFee(stxAmount, curve.feeBps);
+  const netStx = sub(stxAmount, fee);
+  const reserve = tokenReserve(curve);
+  const newStxReserve = add(curve.stxReserve, netStx);
+  const newTokenReserve = div(curve.k, add(curve.virtualStx, newStxReserve));
+  return { tokensOut: sub(reserve, newTokenReserve), fee };
+}
+
+/** `get-sell-quote`: microSTX out and fee for `tokenAmount` tokens */
+export function quoteSell(curve: CurveState, tokenAmount: bigint): SellQuote {
+  const newTokenReserve = add(tokenReserve(curve), tokenAmount);
+  const newStxReserve = sub(div(curve.k, newTokenReserve), curve.virtualStx);
+  const grossStx = sub(curve.stxReserve, newStxReserve);
+  const fee = tradeFee(grossStx, curve.feeBps);
+  return { stxOut: sub(grossStx, fee), fee };
+}
+
+/** `get-price`: marginal price scaled by PRICE_SCALE (0 when sold out) */
+export function spotPrice(curve: CurveState): bigint {
+  const reserve = tokenReserve(curve);
+  if (reserve === 0n) return 0n;
+  return div(
+    mul(add(curve.virtualStx, curve.stxReserve), PRICE_SCALE),
+    reserve
+  );
+}
+
+// ============================================================================
+// INVERSE QUOTES
+// ============================================================================
+
+/** Smallest gross amount whose post-fee net is at least `net` */
+function grossForNet(net: bigint, feeBps: bigint): bigint {
+  if (net <= 0n) return 0n;
+  // s - floor(s * f / D) >= net holds from ceil(net * D / (D - f)) upwards;
+  // flooring the fee can make a slightly smaller s work too
+  const keep = BPS_DENOM - feeBps;
+  let gross = (net * BPS_DENOM + keep - 1n) / keep;
+  const netOf = (s: bigint) => s - (s * feeBps) / BPS_DENOM;
+  while (gross > 1n && netOf(gross - 1n) >= net) gross -= 1n;
+  return gross;
+}
+
+/**
+ * Smallest `stxAmount` for which a buy returns at least `tokens` tokens,
+ * or null if the curve can't deliver that many.
+ */
+export function stxForTokens(curve: CurveState, tokens: bigint): bigint | null {
+  if (tokens <= 0n) return 0n;
+  const reserve = tokenReserve(curve);
+  if (tokens > reserve) return null;
+
+  // With x = virtual-stx + stx-reserve + net-stx:
+  // tokens-out >= N  <=>  floor(k / x) <= T - N  <=>  x > floor(k / (T - N + 1))
+  const minPool = curve.k / (reserve - tokens + 1n) + 1n;
+  const netStx = minPool - curve.virtualStx - curve.stxReserve;
+
+  // Rounding can leave tokens claimable for any non-zero buy
+  const gross = grossForNet(netStx, curve.feeBps);
+  return gross > 0n ? gross : 1n;
+}
+
+export interface GraduationDistance {
+  /** Net STX the reserve still needs (0 once reached) */
+  stxRemaining: bigint;
+  /** Smallest single buy (incl. fee) that triggers graduation */
+  buyToGraduate: bigint;
+  /** Tokens that buy would return */
+  tokensToGraduate: bigint;
+  /** Reserve progress toward graduation-stx, in basis points (capped at 10000) */
+  progressBps: bigint;
+}
+
+/**
+ * How far the curve is from graduating. A buy graduates the curve when
+ * the updated stx-reserve reaches graduation-stx.
+ */
+export function distanceToGraduation(curve: CurveState): GraduationDistance {
+  const stxRemaining =
+    curve.graduationStx > curve.stxReserve
+      ? curve.graduationStx - curve.stxReserve
+      : 0n;
+  const buyToGraduate = grossForNet(stxRemaining, curve.feeBps);
+  const progressBps =
+    stxRemaining === 0n
+      ? BPS_DENOM
+      : (curve.stxReserve * BPS_DENOM) / curve.graduationStx;
+
+  return {
+    stxRemaining,
+    buyToGraduate,
+    tokensToGraduate:
+      buyToGraduate === 0n ? 0n : quoteBuy(curve, buyToGraduate).tokensOut,
+    progressBps,
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * x402 Stacks SDK — Protocol Events
+ *
+ * Every state change in the protocol contracts is announced with a `print`
+ * of a tuple whose `event` field names it. This module decodes those tuples
+ * into typed events: kebab-case fields become camelCase, uint/int become
+ * bigint, principals and strings stay strings, buffers become lowercase hex.
+ */
+
+import { ClarityType, type ClarityValue } from "@stacks/transactions";
+import type { ChainBlock, ContractEvent } from "./chain.js";
+import { asString, asTuple, decodeCV } from "./clarity.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Admin events printed by every contract */
+interface AdminEventFields {
+  "admin-transfer-initiated": { newAdmin: string };
+  "admin-transferred": { admin: string };
+  "fee-updated": { feeBps: bigint };
+  "fee-recipient-updated": { recipient: string };
+}
+
+/** Payload of each protocol print event, keyed by its `event` name */
+export interface ProtocolEventFields extends AdminEventFields {
+  // x402-payments
+  "x402-payment": {
+    type: "stx" | "sip010";
+    payer: string;
+    recipient: string;
+    amount: bigint;
+    fee: bigint;
+    /** Payment nonce as hex, no 0x prefix */
+    nonce: string;
+  };
+
+  // x402-curve-router
+  "x402-curve-payment": {
+    payer: string;
+    curveId: bigint;
+    stxAmount: bigint;
+    tokensReceived: bigint;
+    fee: bigint;
+    nonce: string;
+  };
+
+  // task-board
+  "task-posted": {
+    taskId: bigint;
+    poster: string;
+    bounty: bigint;
+    fee: bigint;
+    deadline: bigint;
+  };
+  "bid-placed": { taskId: bigint; bidder: string; price: bigint };
+  "task-assigned": { taskId: bigint; agent: string };
+  "work-submitted": { taskId: bigint; agent: string };
+  "task-approved": { taskId: bigint; agent: string; bounty: bigint };
+  "task-disputed": { taskId: bigint; poster: string; reasonUrl: string };
+  "dispute-resolved": { taskId: bigint; payAgent: bigint; refundPoster: bigint };
+  "task-cancelled": { taskId: bigint };
+  "task-expired": { taskId: bigint };
+
+  // agent-registry
+  "agent-registered": { owner: string; name: string; pricePerTask: bigint };
+  "agent-updated": { owner: string };
+  "capability-set": { owner: string; index: bigint; capability: string };
+  "capability-removed": { owner: string; index: bigint };
+  "status-changed": { owner: string; status: bigint };
+  "delegate-added": { owner: string; delegate: string };
+  "delegate-removed": { owner: string; delegate: string };
+
+  // reputation
+  "agent-rated": { taskId: bigint; agent: string; rater: string; score: bigint };
+  "agent-endorsed": { endorser: string; agent: string; capability: string };
+  "endorsement-revoked": { endorser: string; agent: string };
+  "task-completed-recorded": { taskId: bigint; agent: string };
+  "dispute-recorded": { agent: string };
+  "task-board-set": { contract: string };
+
+  // agent-vault
+  "vault-created": {
+    owner: string;
+    perTxCap: bigint;
+    dailyCap: bigint;
+    whitelistOnly: boolean;
+  };
+  "vault-deposit": { owner: string; amount: bigint };
+  "vault-withdraw": { owner: string; amount: bigint };
+  "policy-updated": { owner: string; perTxCap: bigint; dailyCap: bigint };
+  "whitelist-added": { owner: string; target: string };
+  "whitelist-removed": { owner: string; target: string };
+  "vault-spend": { owner: string; spender: string; amount: bigint; memo: string };
+
+  // agent-launchpad
+  "curve-launched": {
+    curveId: bigint;
+    creator: string;
+    name: string;
+    symbol: string;
+    totalSupply: bigint;
+    virtualStx: bigint;
+    graduationStx: bigint;
+  };
+  "token-bought": {
+    curveId: bigint;
+    buyer: string;
+    stxIn: bigint;
+    tokensOut: bigint;
+    fee: bigint;
+    newStxReserve: bigint;
+  };
+  "token-sold": {
+    curveId: bigint;
+    seller: string;
+    tokensIn: bigint;
+    stxOut: bigint;
+    fee: bigint;
+    newStxReserve: bigint;
+  };
+  "token-transferred": { curveId: bigint; from: string; to: string; amount: bigint };
+  "curve-graduated": {
+    curveId: bigint;
+    totalFees: bigint;
+    creatorShare: bigint;
+    protocolShare: bigint;
+  };
+  "defaults-updated": {
+    totalSupply: bigint;
+    virtualStx: bigint;
+    graduationStx: bigint;
+    feeBps: bigint;
+    creatorShareBps: bigint;
+  };
+}
+
+export type ProtocolEventName = keyof ProtocolEventFields;
+
+/** Where an event was emitted */
+export interface EventMeta {
+  txId: string;
+  /** Position of the event within its transaction */
+  eventIndex: number;
+  contractId: string;
+  blockHeight: number;
+  blockHash: string;
+  /** Unix time (seconds) of the block, if the provider reports it */
+  blockTime?: number;
+}
+
+/** A decoded protocol event; narrow on `event` to get its fields */
+export type ProtocolEvent<E extends ProtocolEventName = ProtocolEventName> = {
+  [K in E]: EventMeta & { event: K; data: ProtocolEventFields[K] };
+}[E];
+
+// Runtime list of the names above, kept in sync by the type-checker
+const EVENT_NAMES: Record<ProtocolEventName, true> = {
+  "admin-transfer-initiated": true,
+  "admin-transferred": true,
+  "fee-updated": true,
+  "fee-recipient-updated": true,
+  "x402-payment": true,
+  "x402-curve-payment": true,
+  "task-posted": true,
+  "bid-placed": true,
+  "task-assigned": true,
+  "work-submitted": true,
+  "task-approved": true,
+  "task-disputed": true,
+  "dispute-resolved": true,
+  "task-cancelled": true,
+  "task-expired": true,
+  "agent-registered": true,
+  "agent-updated": true,
+  "capability-set": true,
+  "capability-removed": true,
+  "status-changed": true,
+  "delegate-added": true,
+  "delegate-removed": true,
+  "agent-rated": true,
+  "agent-endorsed": true,
+  "endorsement-revoked": true,
+  "task-completed-recorded": true,
+  "dispute-recorded": true,
+  "task-board-set": true,
+  "vault-created": true,
+  "vault-deposit": true,
+  "vault-withdraw": true,
+  "policy-updated": true,
+  "whitelist-added": true,
+  "whitelist-removed": true,
+  "vault-spend": true,
+  "curve-launched": true,
+  "token-bought": true,
+  "token-sold": true,
+  "token-transferred": true,
+  "curve-graduated": true,
+  "defaults-updated": true,
+};
+
+export function isProtocolEventName(name: string): name is ProtocolEventName {
+  return Object.hasOwn(EVENT_NAMES, name);
+}
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+const camelCase = (name: string) =>
+  name.replace(/-([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+
+function toPlain(cv: ClarityValue): unknown {
+  switch (cv.type) {
+    case ClarityType.UInt:
+    case ClarityType.Int:
+      return BigInt(cv.value);
+    case ClarityType.BoolTrue:
+      return true;
+    case ClarityType.BoolFalse:
+      return false;
+    case ClarityType.Buffer:
+      return cv.value.toLowerCase();
+    case ClarityType.OptionalNone:
+      return null;
+    case ClarityType.OptionalSome:
+    case ClarityType.ResponseOk:
+    case ClarityType.ResponseErr:
+      return toPlain(cv.value);
+    case ClarityType.List:
+      return cv.value.map(toPlain);
+    case ClarityType.Tuple:
+      return Object.fromEntries(
+        Object.entries(cv.value).map(([key, value]) => [camelCase(key), toPlain(value)])
+      );
+    default:
+      return cv.value;
+  }
+}
+
+/**
+ * Decode a print event from `block`. Returns null if the printed value isn't
+ * a protocol event tuple, e.g. a print from some other contract.
+ */
+export function decodePrintEvent(
+  raw: ContractEvent,
+  block: ChainBlock
+): ProtocolEvent | null {
+  let fields: Record<string, ClarityValue>;
+  let name: string;
+  try {
+    fields = asTuple(decodeCV(raw.valueHex));
+    name = asString(fields.event);
+  } catch {
+    return null;
+  }
+  if (!isProtocolEventName(name)) return null;
+
+  const { event: _, ...rest } = fields;
+  const data = toPlain({ type: ClarityType.Tuple, value: rest });
+
+  return {
+    event: name,
+    data,
+    txId: raw.txId,
+    eventIndex: raw.eventIndex,
+    contractId: raw.contractId,
+    blockHeight: block.height,
+    blockHash: block.hash,
+    ...(block.time !== undefined && { blockTime: block.time }),
+  } as ProtocolEvent;
+}
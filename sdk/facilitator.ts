@@ -0,0 +1,440 @@
+/**
+ * x402 Stacks SDK — Facilitator
+ *
+ * x402 v2 lets resource servers hand payment verification to a facilitator
+ * instead of querying the chain themselves. This module provides both sides:
+ *
+ * - A facilitator service (`/verify`, `/settle`, `/supported`) built on
+ *   verifyPayment, as a Fetch-style handler or a standalone node:http server
+ * - A FacilitatorClient that withX402 uses when `config.facilitator` is set
+ *
+ * Stacks payments are usually broadcast and confirmed by the client before
+ * the retry, so `/settle` re-verifies the on-chain receipt and reports the
+ * settlement. With `sponsor` configured, payers may instead send a signed,
+ * unbroadcast sponsored transaction: `/verify` validates it and `/settle`
+ * sponsors, broadcasts and confirms it.
+ */
+
+import { createServer, type Server } from "node:http";
+import { type StacksChainProvider, resolveChain } from "./chain.js";
+import {
+  buildSettleResponse,
+  checkSponsorable,
+  checkSponsoredTransaction,
+  settleSponsoredPayment,
+  verifyPayment,
+} from "./server.js";
+import {
+  type AcceptancePolicy,
+  type FacilitatorRequest,
+  type FreshnessPolicy,
+  type PaymentPayload,
+  type PaymentRequirements,
+  type PaymentScheme,
+  type SettleResponse,
+  type SponsorConfig,
+  type StacksNetwork,
+  type SupportedResponse,
+  type VerifyResponse,
+  type X402ServerConfig,
+  STACKS_MAINNET,
+  STACKS_TESTNET,
+} from "./types.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FacilitatorConfig {
+  /** Networks this facilitator verifies on (default: mainnet and testnet) */
+  networks?: StacksNetwork[];
+  /** Stacks API URL per network (default: Hiro) */
+  apiUrls?: Partial<Record<StacksNetwork, string>>;
+  /** Chain backend per network; replaces that network's API URL */
+  chains?: Partial<Record<StacksNetwork, StacksChainProvider>>;
+  /** Receipt freshness check (default: contract's is-payment-fresh) */
+  freshness?: FreshnessPolicy;
+  /** How settled a payment must be (default: confirmed) */
+  acceptance?: AcceptancePolicy;
+  /**
+   * Payment contracts ("address.name") it will verify against (default:
+   * any). Required with `sponsor`, so fees are only paid for calls to them.
+   */
+  contracts?: string[];
+  /** Sponsor payers' signed, unbroadcast transactions */
+  sponsor?: SponsorConfig;
+}
+
+/** Remote facilitator, as seen by a resource server */
+export interface FacilitatorClient {
+  /** Whether the facilitator sponsors transactions (advertised to payers) */
+  sponsored?: boolean;
+  verify(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<VerifyResponse>;
+  settle(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<SettleResponse>;
+  supported(): Promise<SupportedResponse>;
+}
+
+const SCHEMES: PaymentScheme[] = ["exact", "curve"];
+
+// ============================================================================
+// FACILITATOR OPERATIONS
+// ============================================================================
+
+function networksOf(config: FacilitatorConfig): StacksNetwork[] {
+  return config.networks ?? [STACKS_MAINNET, STACKS_TESTNET];
+}
+
+/** Scheme/network pairs this facilitator can verify */
+export function facilitatorSupported(
+  config: FacilitatorConfig
+): SupportedResponse {
+  return {
+    kinds: networksOf(config).flatMap((network) =>
+      SCHEMES.map((scheme) => ({ x402Version: 2 as const, scheme, network }))
+    ),
+  };
+}
+
+/**
+ * Why this facilitator won't sponsor: no sponsor, or no contract allowlist.
+ * Without one, the contract it pays fees for would come from the caller's
+ * requirements.
+ */
+function sponsorRefusal(config: FacilitatorConfig): string | null {
+  if (!config.sponsor) return "Sponsored payments are not accepted";
+  if (!config.contracts?.length) {
+    return "Sponsored payments need configured payment contracts";
+  }
+  return null;
+}
+
+/**
+ * Server config for verifying against the requirements the resource server
+ * sent, or the reason this facilitator won't verify them
+ */
+function serverConfigFor(
+  config: FacilitatorConfig,
+  requirements: PaymentRequirements
+): X402ServerConfig | string {
+  const { network, scheme, payTo } = requirements;
+  if (!networksOf(config).includes(network)) {
+    return `Unsupported network: ${network}`;
+  }
+  if (!SCHEMES.includes(scheme)) {
+    return `Unsupported scheme: ${scheme}`;
+  }
+
+  const { contractAddress, contractName } = requirements.extra;
+  const contract = `${contractAddress}.${contractName}`;
+  if (config.contracts && !config.contracts.includes(contract)) {
+    return `Unsupported payment contract: ${contract}`;
+  }
+
+  return {
+    contractAddress,
+    contractName,
+    network,
+    payTo,
+    apiUrl: config.apiUrls?.[network],
+    chain: config.chains?.[network],
+    freshness: config.freshness,
+    acceptance: config.acceptance,
+    sponsor: config.sponsor,
+  };
+}
+
+/**
+ * Verify a payment against the requirements the resource server sent.
+ * The payment contract and recipient come from those requirements. A
+ * sponsored payment is validated but not broadcast.
+ */
+export async function facilitatorVerify(
+  config: FacilitatorConfig,
+  payload: PaymentPayload,
+  requirements: PaymentRequirements
+): Promise<VerifyResponse> {
+  const serverConfig = serverConfigFor(config, requirements);
+  if (typeof serverConfig === "string") {
+    return { isValid: false, invalidReason: serverConfig };
+  }
+
+  if (!payload.payload.transaction) {
+    return verifyPayment(serverConfig, payload, requirements);
+  }
+
+  const refusal = sponsorRefusal(config);
+  if (refusal) return { isValid: false, invalidReason: refusal };
+  const checked = checkSponsoredTransaction(
+    payload.payload.transaction,
+    payload.payload.nonce,
+    requirements
+  );
+  if (typeof checked === "string") {
+    return { isValid: false, invalidReason: checked };
+  }
+  let unsponsorable: string | null;
+  try {
+    unsponsorable = await checkSponsorable(
+      resolveChain(serverConfig.chain ?? serverConfig.apiUrl, serverConfig.network),
+      checked,
+      payload.payload.nonce,
+      requirements
+    );
+  } catch (error) {
+    unsponsorable = `Verification error: ${error}`;
+  }
+  if (unsponsorable) return { isValid: false, invalidReason: unsponsorable };
+  return {
+    isValid: true,
+    payer: checked.payer,
+    amount: String(
+      "amount" in checked.args ? checked.args.amount : checked.args.stxAmount
+    ),
+    ...("recipient" in checked.args && { recipient: checked.args.recipient }),
+  };
+}
+
+/**
+ * Settle a payment. A broadcast payment is re-verified and described for
+ * the PAYMENT-RESPONSE header; a sponsored one is broadcast first.
+ */
+export async function facilitatorSettle(
+  config: FacilitatorConfig,
+  payload: PaymentPayload,
+  requirements: PaymentRequirements
+): Promise<SettleResponse> {
+  const refuse = (errorReason?: string): SettleResponse => ({
+    success: false,
+    transaction: payload.payload.txId ?? "",
+    network: requirements.network,
+    errorReason,
+  });
+
+  const serverConfig = serverConfigFor(config, requirements);
+  if (typeof serverConfig === "string") return refuse(serverConfig);
+
+  let settled = payload;
+  if (payload.payload.transaction) {
+    const refusal = sponsorRefusal(config);
+    if (refusal) return refuse(refusal);
+    const sponsored = await settleSponsoredPayment(
+      serverConfig,
+      payload,
+      requirements
+    );
+    if (typeof sponsored === "string") return refuse(sponsored);
+    settled = sponsored;
+  }
+
+  const verification = await verifyPayment(serverConfig, settled, requirements);
+  if (!verification.isValid) return refuse(verification.invalidReason);
+  return buildSettleResponse(settled, requirements, verification);
+}
+
+// ============================================================================
+// HTTP SERVICE
+// ============================================================================
+
+const isString = (value: unknown): value is string =>
+  typeof value === "string" && value.length > 0;
+
+// Atomic amounts and ids are unsigned decimal strings
+const isDecimal = (value: unknown): boolean =>
+  typeof value === "string" && /^\d+$/.test(value);
+
+function isFacilitatorRequest(body: unknown): body is FacilitatorRequest {
+  const b = body as Partial<FacilitatorRequest> | null;
+  const proof = b?.paymentPayload?.payload;
+  const requirements = b?.paymentRequirements;
+  const extra = requirements?.extra;
+  return Boolean(
+    proof &&
+      (isString(proof.txId) || isString(proof.transaction)) &&
+      isString(proof.nonce) &&
+      requirements &&
+      isString(requirements.network) &&
+      isString(requirements.scheme) &&
+      isString(requirements.asset) &&
+      isString(requirements.payTo) &&
+      isDecimal(requirements.amount) &&
+      extra &&
+      isString(extra.contractAddress) &&
+      isString(extra.contractName) &&
+      (extra.curveId === undefined || isDecimal(extra.curveId)) &&
+      (extra.minTokensOut === undefined || isDecimal(extra.minTokensOut))
+  );
+}
+
+/**
+ * Fetch-style request handler serving the facilitator routes. Routes are
+ * matched on the last path segment, so it can be mounted under any prefix.
+ * Malformed requests get a 400; a failure while verifying or settling (e.g.
+ * the chain API being down) gets a 500 rather than rejecting. Throws if
+ * `sponsor` is set without a `contracts` allowlist.
+ *
+ * ```ts
+ * const facilitator = createFacilitatorHandler({ networks: [STACKS_TESTNET] });
+ * export const POST = facilitator; // e.g. app/facilitator/[route]/route.ts
+ * ```
+ */
+export function createFacilitatorHandler(
+  config: FacilitatorConfig
+): (request: Request) => Promise<Response> {
+  if (config.sponsor && !config.contracts?.length) {
+    throw new Error("FacilitatorConfig.contracts is required with sponsor");
+  }
+
+  return async (request) => {
+    const route = new URL(request.url).pathname.split("/").pop();
+
+    if (route === "supported") {
+      if (request.method !== "GET") {
+        return Response.json({ error: "method_not_allowed" }, { status: 405 });
+      }
+      return Response.json(facilitatorSupported(config));
+    }
+
+    if (route !== "verify" && route !== "settle") {
+      return Response.json({ error: "not_found" }, { status: 404 });
+    }
+    if (request.method !== "POST") {
+      return Response.json({ error: "method_not_allowed" }, { status: 405 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      body = null;
+    }
+    if (!isFacilitatorRequest(body)) {
+      return Response.json(
+        {
+          error: "invalid_request",
+          message: "Expected { x402Version, paymentPayload, paymentRequirements }",
+        },
+        { status: 400 }
+      );
+    }
+
+    const { paymentPayload, paymentRequirements } = body;
+    try {
+      return Response.json(
+        route === "verify"
+          ? await facilitatorVerify(config, paymentPayload, paymentRequirements)
+          : await facilitatorSettle(config, paymentPayload, paymentRequirements)
+      );
+    } catch (error) {
+      return Response.json(
+        {
+          error: "facilitator_error",
+          message: error instanceof Error ? error.message : String(error),
+        },
+        { status: 500 }
+      );
+    }
+  };
+}
+
+/**
+ * Run the facilitator as a standalone HTTP server.
+ *
+ * ```ts
+ * const server = await startFacilitatorServer(
+ *   { networks: [STACKS_TESTNET] },
+ *   { port: 4020 }
+ * );
+ * ```
+ */
+export async function startFacilitatorServer(
+  config: FacilitatorConfig,
+  options: { port: number; host?: string }
+): Promise<Server> {
+  const handle = createFacilitatorHandler(config);
+
+  const server = createServer(async (req, res) => {
+    let response: Response;
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+
+      const hasBody = req.method !== "GET" && req.method !== "HEAD";
+      response = await handle(
+        new Request(`http://${req.headers.host ?? "localhost"}${req.url}`, {
+          method: req.method,
+          headers: req.headers as Record<string, string>,
+          body: hasBody ? Buffer.concat(chunks) : undefined,
+        })
+      );
+    } catch {
+      response = Response.json({ error: "facilitator_error" }, { status: 500 });
+    }
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+    res.writeHead(response.status, headers);
+    res.end(await response.text());
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(options.port, options.host, resolve)
+  );
+  return server;
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+/**
+ * Client for a remote facilitator. Pass it as `config.facilitator` to make
+ * withX402 verify payments through it. HTTP failures throw rather than
+ * reporting the payment invalid.
+ *
+ * ```ts
+ * const config = {
+ *   contractAddress: "ST...",
+ *   network: STACKS_TESTNET,
+ *   payTo: "ST...",
+ *   facilitator: createFacilitatorClient("https://facilitator.example.com"),
+ * };
+ * ```
+ */
+export function createFacilitatorClient(
+  url: string,
+  options: { headers?: Record<string, string>; sponsored?: boolean } = {}
+): FacilitatorClient {
+  const base = url.replace(/\/+$/, "");
+
+  async function call<T>(route: string, body?: FacilitatorRequest): Promise<T> {
+    const response = await fetch(`${base}/${route}`, {
+      method: body ? "POST" : "GET",
+      headers: {
+        ...options.headers,
+        ...(body && { "Content-Type": "application/json" }),
+      },
+      body: body && JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Facilitator /${route} failed: ${response.status}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  return {
+    sponsored: options.sponsored,
+    verify: (paymentPayload, paymentRequirements) =>
+      call("verify", { x402Version: 2, paymentPayload, paymentRequirements }),
+    settle: (paymentPayload, paymentRequirements) =>
+      call("settle", { x402Version: 2, paymentPayload, paymentRequirements }),
+    supported: () => call("supported"),
+  };
+}
@@ -27,8 +27,8 @@
  * import { wrapFetchWithPayment } from "@x402/stacks/client";
  *
  * const payingFetch = wrapFetchWithPayment({
- *   pay: async (requirements, nonce) => {
- *     // Submit payment via Leather wallet or @stacks/transactions
+ *   pay: async (requirements, nonce, call) => {
+ *     // Sign and submit `call` via Leather wallet or @stacks/transactions
  *     return txId;
  *   },
  * });
@@ -41,4 +41,13 @@
 export * from "./types.js";
 export * from "./server.js";
 export * from "./client.js";
-
+export * from "./proof-store.js";
+export * from "./post-conditions.js";
+export * from "./spending-policy.js";
+export * from "./adapters.js";
+export * from "./facilitator.js";
+export * from "./acceptance.js";
+export * from "./chain.js";
+export * from "./events.js";
+export * from "./indexer.js";
+export * from "./reporting.js";
@@ -0,0 +1,454 @@
+/**
+ * x402 Stacks SDK — Event Indexer
+ *
+ * Follows the protocol contracts block by block, decodes their print events
+ * and persists them to an EventStore, so payment history, task timelines
+ * and volume stats can be queried without scanning contract maps.
+ *
+ * The indexer remembers the hash of every block it stored. When a new
+ * block's parent doesn't match, the chain has reorganized: it walks back to
+ * the last block both sides agree on, drops everything above it and
+ * re-indexes from there.
+ */
+
+import type { ChainBlock, StacksChainProvider } from "./chain.js";
+import {
+  type ProtocolEvent,
+  type ProtocolEventName,
+  decodePrintEvent,
+} from "./events.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Which events to return from EventStore.query */
+export interface EventFilter<E extends ProtocolEventName = ProtocolEventName> {
+  event?: E | E[];
+  contractId?: string;
+  txId?: string;
+  /** Inclusive block height bounds */
+  fromHeight?: number;
+  toHeight?: number;
+  /** Exact matches on event fields, e.g. `{ payer: "SP..." }` */
+  where?: Partial<Record<string, string | bigint | boolean>>;
+  /** Newest first instead of chain order */
+  reverse?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+/** Pluggable storage for indexed blocks and events */
+export interface EventStore {
+  /** Highest indexed block, or null before the first one */
+  getCheckpoint(): Promise<ChainBlock | null>;
+  getBlock(height: number): Promise<ChainBlock | null>;
+  /** Store a block and its events; implementations must do this atomically */
+  addBlock(block: ChainBlock, events: ProtocolEvent[]): Promise<void>;
+  /** Drop every block, and its events, above `height` */
+  rollback(height: number): Promise<void>;
+  /** Matching events in chain order */
+  query<E extends ProtocolEventName = ProtocolEventName>(
+    filter?: EventFilter<E>
+  ): Promise<ProtocolEvent<E>[]>;
+}
+
+export interface EventIndexerConfig {
+  /** Must implement getBlock and getBlockEvents */
+  chain: StacksChainProvider;
+  store: EventStore;
+  /** Only index events from these contract ids (default: all) */
+  contracts?: string[];
+  /** First block to index when the store is empty (default 1) */
+  startHeight?: number;
+  /** Stay this many blocks behind the tip (default 0) */
+  confirmations?: number;
+  /** Milliseconds between polls in start() (default 10000) */
+  pollInterval?: number;
+  /** Called after each block that had protocol events is stored */
+  onEvents?: (events: ProtocolEvent[], block: ChainBlock) => void;
+  /** Called after a reorg rolled the store back to `height` */
+  onReorg?: (height: number) => void;
+  /** Called when a background sync fails; the next poll retries */
+  onError?: (error: unknown) => void;
+}
+
+export interface EventIndexer {
+  /** Index every new block up to the tip; resolves to the number indexed */
+  sync(): Promise<number>;
+  /** Poll sync() until stop() */
+  start(): void;
+  /** Stop polling; resolves once any running sync finishes */
+  stop(): Promise<void>;
+}
+
+// ============================================================================
+// FILTERING
+// ============================================================================
+
+function matches(event: ProtocolEvent, filter: EventFilter): boolean {
+  if (filter.event !== undefined) {
+    const names = Array.isArray(filter.event) ? filter.event : [filter.event];
+    if (!names.includes(event.event)) return false;
+  }
+  if (filter.contractId !== undefined && event.contractId !== filter.contractId) {
+    return false;
+  }
+  if (filter.txId !== undefined && event.txId !== filter.txId) return false;
+  if (filter.fromHeight !== undefined && event.blockHeight < filter.fromHeight) {
+    return false;
+  }
+  if (filter.toHeight !== undefined && event.blockHeight > filter.toHeight) {
+    return false;
+  }
+  const data = event.data as Record<string, unknown>;
+  return Object.entries(filter.where ?? {}).every(
+    ([field, value]) => data[field] === value
+  );
+}
+
+function page<T>(items: T[], filter: EventFilter): T[] {
+  const ordered = filter.reverse ? [...items].reverse() : items;
+  const offset = filter.offset ?? 0;
+  return ordered.slice(
+    offset,
+    filter.limit !== undefined ? offset + filter.limit : undefined
+  );
+}
+
+// ============================================================================
+// IN-MEMORY STORE
+// ============================================================================
+
+/** In-process store; the index is lost when the process exits */
+export function createMemoryEventStore(): EventStore {
+  const blocks: ChainBlock[] = [];
+  const events: ProtocolEvent[] = [];
+
+  return {
+    async getCheckpoint() {
+      return blocks.at(-1) ?? null;
+    },
+    async getBlock(height) {
+      return blocks.find((b) => b.height === height) ?? null;
+    },
+    async addBlock(block, added) {
+      blocks.push(block);
+      events.push(...added);
+    },
+    async rollback(height) {
+      while ((blocks.at(-1)?.height ?? -Infinity) > height) blocks.pop();
+      while ((events.at(-1)?.blockHeight ?? -Infinity) > height) events.pop();
+    },
+    async query<E extends ProtocolEventName>(filter: EventFilter<E> = {}) {
+      return page(
+        events.filter((e) => matches(e, filter)),
+        filter
+      ) as ProtocolEvent<E>[];
+    },
+  };
+}
+
+// ============================================================================
+// SQLITE STORE
+// ============================================================================
+
+/** The subset of a better-sqlite3 style database the store needs */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+  };
+}
+
+interface BlockRow {
+  height: number;
+  hash: string;
+  parent_hash: string;
+  time: number | null;
+}
+
+interface EventRow {
+  block_height: number;
+  block_hash: string;
+  block_time: number | null;
+  tx_id: string;
+  event_index: number;
+  contract_id: string;
+  event: string;
+  data: string;
+}
+
+// bigint fields are stored as {"$n": "123"} since JSON has no bigint. The
+// replacer reads the raw value, as a BigInt toJSON polyfill runs before it.
+const toJson = (data: unknown) =>
+  JSON.stringify(data, function (this: Record<string, unknown>, key, v) {
+    const raw = this[key];
+    return typeof raw === "bigint" ? { $n: raw.toString() } : v;
+  });
+const fromJson = (json: string) =>
+  JSON.parse(json, (_, v) =>
+    v !== null && typeof v === "object" && typeof v.$n === "string" ? BigInt(v.$n) : v
+  );
+
+function blockFromRow(row: BlockRow): ChainBlock {
+  return {
+    height: row.height,
+    hash: row.hash,
+    parentHash: row.parent_hash,
+    ...(row.time !== null && { time: row.time }),
+  };
+}
+
+/**
+ * SQLite store, for a database opened with better-sqlite3 or any driver with
+ * the same synchronous API. Creates its tables on first use; events are
+ * filtered by name, contract, tx and height in SQL and by `where` in JS.
+ */
+export function createSqliteEventStore(db: SqliteDatabase): EventStore {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS x402_blocks (
+      height INTEGER PRIMARY KEY,
+      hash TEXT NOT NULL,
+      parent_hash TEXT NOT NULL,
+      time INTEGER
+    );
+    CREATE TABLE IF NOT EXISTS x402_events (
+      block_height INTEGER NOT NULL,
+      block_hash TEXT NOT NULL,
+      block_time INTEGER,
+      tx_id TEXT NOT NULL,
+      event_index INTEGER NOT NULL,
+      contract_id TEXT NOT NULL,
+      event TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS x402_events_by_name ON x402_events (event, block_height);
+    CREATE INDEX IF NOT EXISTS x402_events_by_height ON x402_events (block_height);
+  `);
+
+  const insertBlock = db.prepare(
+    "INSERT OR REPLACE INTO x402_blocks (height, hash, parent_hash, time) VALUES (?, ?, ?, ?)"
+  );
+  const insertEvent = db.prepare(
+    `INSERT INTO x402_events
+       (block_height, block_hash, block_time, tx_id, event_index, contract_id, event, data)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+
+  function transaction(work: () => void): void {
+    db.exec("BEGIN");
+    try {
+      work();
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  return {
+    async getCheckpoint() {
+      const row = db
+        .prepare("SELECT * FROM x402_blocks ORDER BY height DESC LIMIT 1")
+        .get() as BlockRow | undefined;
+      return row ? blockFromRow(row) : null;
+    },
+
+    async getBlock(height) {
+      const row = db
+        .prepare("SELECT * FROM x402_blocks WHERE height = ?")
+        .get(height) as BlockRow | undefined;
+      return row ? blockFromRow(row) : null;
+    },
+
+    async addBlock(block, events) {
+      transaction(() => {
+        insertBlock.run(block.height, block.hash, block.parentHash, block.time ?? null);
+        for (const e of events) {
+          insertEvent.run(
+            e.blockHeight,
+            e.blockHash,
+            e.blockTime ?? null,
+            e.txId,
+            e.eventIndex,
+            e.contractId,
+            e.event,
+            toJson(e.data)
+          );
+        }
+      });
+    },
+
+    async rollback(height) {
+      transaction(() => {
+        db.prepare("DELETE FROM x402_events WHERE block_height > ?").run(height);
+        db.prepare("DELETE FROM x402_blocks WHERE height > ?").run(height);
+      });
+    },
+
+    async query<E extends ProtocolEventName>(filter: EventFilter<E> = {}) {
+      const clauses: string[] = [];
+      const params: unknown[] = [];
+      if (filter.event !== undefined) {
+        const names = Array.isArray(filter.event) ? filter.event : [filter.event];
+        clauses.push(`event IN (${names.map(() => "?").join(", ")})`);
+        params.push(...names);
+      }
+      if (filter.contractId !== undefined) {
+        clauses.push("contract_id = ?");
+        params.push(filter.contractId);
+      }
+      if (filter.txId !== undefined) {
+        clauses.push("tx_id = ?");
+        params.push(filter.txId);
+      }
+      if (filter.fromHeight !== undefined) {
+        clauses.push("block_height >= ?");
+        params.push(filter.fromHeight);
+      }
+      if (filter.toHeight !== undefined) {
+        clauses.push("block_height <= ?");
+        params.push(filter.toHeight);
+      }
+      const where = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
+      const rows = db
+        .prepare(`SELECT * FROM x402_events ${where} ORDER BY rowid`)
+        .all(...params) as EventRow[];
+
+      const events = rows.map(
+        (row) =>
+          ({
+            event: row.event,
+            data: fromJson(row.data),
+            txId: row.tx_id,
+            eventIndex: row.event_index,
+            contractId: row.contract_id,
+            blockHeight: row.block_height,
+            blockHash: row.block_hash,
+            ...(row.block_time !== null && { blockTime: row.block_time }),
+          }) as ProtocolEvent
+      );
+      return page(
+        filter.where ? events.filter((e) => matches(e, filter)) : events,
+        filter
+      ) as ProtocolEvent<E>[];
+    },
+  };
+}
+
+// ============================================================================
+// INDEXER
+// ============================================================================
+
+/**
+ * Index protocol events from `chain` into `store`.
+ *
+ * Call sync() yourself to drive the indexer from a websocket block
+ * subscription or an event-observer webhook, or start() to poll. Blocks
+ * are indexed in order, so an interrupted sync resumes where it stopped.
+ *
+ * @example
+ * ```ts
+ * const indexer = createEventIndexer({
+ *   chain: createHiroProvider({ network: "stacks:1" }),
+ *   store: createSqliteEventStore(new Database("events.db")),
+ *   contracts: [`${deployer}.x402-payments`],
+ *   startHeight: 180_000,
+ * });
+ * indexer.start();
+ * const payments = await indexer.store.query({ event: "x402-payment" });
+ * ```
+ */
+export function createEventIndexer(
+  config: EventIndexerConfig
+): EventIndexer & { store: EventStore } {
+  const { chain, store, contracts } = config;
+  const startHeight = config.startHeight ?? 1;
+  const confirmations = config.confirmations ?? 0;
+  const pollInterval = config.pollInterval ?? 10_000;
+
+  let running: Promise<number> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let polling = false;
+
+  // Highest stored block that's still on the chain
+  async function forkPoint(from: number): Promise<number> {
+    for (let height = from; height >= startHeight; height--) {
+      const [stored, current] = await Promise.all([
+        store.getBlock(height),
+        chain.getBlock!(height),
+      ]);
+      if (stored && current && stored.hash === current.hash) return height;
+    }
+    return startHeight - 1;
+  }
+
+  async function syncOnce(): Promise<number> {
+    if (!chain.getBlock || !chain.getBlockEvents) {
+      throw new Error("Chain provider doesn't expose blocks; use the Hiro or simnet provider");
+    }
+    const tip = (await chain.getTip()).height - confirmations;
+
+    let indexed = 0;
+    for (;;) {
+      const checkpoint = await store.getCheckpoint();
+      const height = checkpoint ? checkpoint.height + 1 : startHeight;
+      if (height > tip) break;
+
+      const found = await chain.getBlockEvents(height, contracts);
+      if (!found) break;
+      const { block } = found;
+
+      if (checkpoint && block.parentHash !== checkpoint.hash) {
+        const fork = await forkPoint(checkpoint.height - 1);
+        await store.rollback(fork);
+        config.onReorg?.(fork);
+        continue;
+      }
+
+      const events = found.events
+        .filter((e) => !contracts || contracts.includes(e.contractId))
+        .map((e) => decodePrintEvent(e, block))
+        .filter((e): e is ProtocolEvent => e !== null);
+      await store.addBlock(block, events);
+      indexed++;
+      if (events.length > 0) config.onEvents?.(events, block);
+    }
+    return indexed;
+  }
+
+  function sync(): Promise<number> {
+    // One sync at a time: a caller arriving mid-sync shares its result
+    running ??= syncOnce().finally(() => {
+      running = null;
+    });
+    return running;
+  }
+
+  function poll() {
+    sync()
+      .catch((error) => config.onError?.(error))
+      .finally(() => {
+        if (polling) timer = setTimeout(poll, pollInterval);
+      });
+  }
+
+  return {
+    store,
+    sync,
+    start() {
+      if (polling) return;
+      polling = true;
+      poll();
+    },
+    async stop() {
+      polling = false;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      await running?.catch(() => undefined);
+    },
+  };
+}
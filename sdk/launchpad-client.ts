@@ -0,0 +1,114 @@
+/**
+ * AI Agent Protocol — Launchpad Client Module (Write Functions)
+ *
+ * Builds contract call arguments for agent-launchpad: launching an agent's
+ * bonding curve, trading on it, moving tokens between holders, and
+ * graduating it. Same shape as agent-client builders; buys and sells carry
+ * deny-mode post-conditions.
+ */
+
+import { Cl } from "@stacks/transactions";
+import type { AgentSDKConfig } from "./agent-types.js";
+import { type ContractCallArgs, contractCall } from "./agent-client.js";
+import {
+  curveBuyPostConditions,
+  curveSellPostConditions,
+} from "./post-conditions.js";
+
+const LAUNCHPAD = "agent-launchpad";
+
+function launchpadId(config: AgentSDKConfig): `${string}.${string}` {
+  return `${config.contractAddress}.${LAUNCHPAD}`;
+}
+
+// ============================================================================
+// CURVES
+// ============================================================================
+
+/** Launch the caller's curve (must be a registered agent, one curve each) */
+export function buildLaunch(
+  config: AgentSDKConfig,
+  params: { name: string; symbol: string }
+): ContractCallArgs {
+  return contractCall(config, LAUNCHPAD, "launch", [
+    ["name", Cl.stringUtf8(params.name)],
+    ["symbol", Cl.stringUtf8(params.symbol)],
+  ]);
+}
+
+/** Graduate a curve that has reached its graduation threshold */
+export function buildGraduate(
+  config: AgentSDKConfig,
+  curveId: bigint
+): ContractCallArgs {
+  return contractCall(config, LAUNCHPAD, "graduate", [
+    ["curve-id", Cl.uint(curveId)],
+  ]);
+}
+
+// ============================================================================
+// TRADING
+// ============================================================================
+
+/**
+ * Buy curve tokens with `stxAmount` microSTX. `feeBps` and `accruedFees`
+ * are the curve's `fee-bps` and `accrued-fees` (see getCurve), used for the
+ * spend breakdown and to bound the fee payout if the buy graduates the curve.
+ */
+export function buildBuy(
+  config: AgentSDKConfig,
+  params: {
+    curveId: bigint;
+    stxAmount: bigint;
+    minTokensOut: bigint;
+    feeBps: bigint;
+    accruedFees: bigint;
+  }
+): ContractCallArgs {
+  return contractCall(
+    config,
+    LAUNCHPAD,
+    "buy",
+    [
+      ["curve-id", Cl.uint(params.curveId)],
+      ["stx-amount", Cl.uint(params.stxAmount)],
+      ["min-tokens-out", Cl.uint(params.minTokensOut)],
+    ],
+    curveBuyPostConditions(
+      launchpadId(config),
+      params.stxAmount,
+      params.feeBps,
+      params.accruedFees
+    )
+  );
+}
+
+/** Sell curve tokens back for at least `minStxOut` microSTX */
+export function buildSell(
+  config: AgentSDKConfig,
+  params: { curveId: bigint; tokenAmount: bigint; minStxOut: bigint }
+): ContractCallArgs {
+  return contractCall(
+    config,
+    LAUNCHPAD,
+    "sell",
+    [
+      ["curve-id", Cl.uint(params.curveId)],
+      ["token-amount", Cl.uint(params.tokenAmount)],
+      ["min-stx-out", Cl.uint(params.minStxOut)],
+    ],
+    curveSellPostConditions(launchpadId(config), params.minStxOut)
+  );
+}
+
+/** Move curve tokens to another holder */
+export function buildTransfer(
+  config: AgentSDKConfig,
+  params: { curveId: bigint; amount: bigint; recipient: string }
+): ContractCallArgs {
+  return contractCall(config, LAUNCHPAD, "transfer", [
+    ["curve-id", Cl.uint(params.curveId)],
+    ["amount", Cl.uint(params.amount)],
+    ["recipient", Cl.principal(params.recipient)],
+  ]);
+}
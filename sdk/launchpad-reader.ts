@@ -0,0 +1,166 @@
+/**
+ * AI Agent Protocol — Launchpad Reader Module (Read-Only Queries)
+ *
+ * Fetches agent-launchpad state via the Stacks API: curves, holder
+ * balances, trade quotes, and the current marginal price. Results are
+ * decoded into the typed records from agent-types.ts.
+ */
+
+import type {
+  AgentSDKConfig,
+  BuyQuote,
+  CurveRecord,
+  LaunchpadStats,
+  SellQuote,
+} from "./agent-types.js";
+import { callOptional, callReadOnly } from "./agent-reader.js";
+import {
+  type ClarityValue,
+  encodePrincipal,
+  encodeUint,
+  unwrapOk,
+  asTuple,
+  asBigInt,
+  asBool,
+  asPrincipal,
+  asString,
+} from "./clarity.js";
+
+const LAUNCHPAD = "agent-launchpad";
+
+// ============================================================================
+// RECORD DECODERS
+// ============================================================================
+
+export function decodeCurveRecord(cv: ClarityValue): CurveRecord {
+  const t = asTuple(cv);
+  return {
+    creator: asPrincipal(t["creator"]),
+    name: asString(t["name"]),
+    symbol: asString(t["symbol"]),
+    totalSupply: asBigInt(t["total-supply"]),
+    virtualStx: asBigInt(t["virtual-stx"]),
+    k: asBigInt(t["k"]),
+    stxReserve: asBigInt(t["stx-reserve"]),
+    tokensSold: asBigInt(t["tokens-sold"]),
+    graduationStx: asBigInt(t["graduation-stx"]),
+    feeBps: asBigInt(t["fee-bps"]),
+    accruedFees: asBigInt(t["accrued-fees"]),
+    graduated: asBool(t["graduated"]),
+    createdAt: asBigInt(t["created-at"]),
+    creatorShareBps: asBigInt(t["creator-share-bps"]),
+  };
+}
+
+// ============================================================================
+// CURVE READERS
+// ============================================================================
+
+export async function getCurve(
+  config: AgentSDKConfig,
+  curveId: bigint
+): Promise<CurveRecord | null> {
+  return callOptional(
+    config,
+    LAUNCHPAD,
+    "get-curve",
+    [encodeUint(curveId)],
+    decodeCurveRecord
+  );
+}
+
+/** Token balance of `holder` on a curve (0 if they never held any) */
+export async function getBalance(
+  config: AgentSDKConfig,
+  curveId: bigint,
+  holder: string
+): Promise<bigint> {
+  const t = asTuple(
+    await callReadOnly(config, LAUNCHPAD, "get-balance", [
+      encodeUint(curveId),
+      encodePrincipal(holder),
+    ])
+  );
+  return asBigInt(t["amount"]);
+}
+
+/** The curve id launched by `agent`, or null if it has none */
+export async function getAgentCurve(
+  config: AgentSDKConfig,
+  agent: string
+): Promise<bigint | null> {
+  return callOptional(
+    config,
+    LAUNCHPAD,
+    "get-agent-curve",
+    [encodePrincipal(agent)],
+    (cv) => asBigInt(asTuple(cv)["curve-id"])
+  );
+}
+
+export async function getLaunchpadStats(
+  config: AgentSDKConfig
+): Promise<LaunchpadStats> {
+  const t = asTuple(await callReadOnly(config, LAUNCHPAD, "get-stats"));
+  return {
+    totalCurves: asBigInt(t["total-curves"]),
+    defaultTotalSupply: asBigInt(t["default-total-supply"]),
+    defaultVirtualStx: asBigInt(t["default-virtual-stx"]),
+    defaultGraduationStx: asBigInt(t["default-graduation-stx"]),
+    defaultFeeBps: asBigInt(t["default-fee-bps"]),
+    defaultCreatorShareBps: asBigInt(t["default-creator-share-bps"]),
+  };
+}
+
+// ============================================================================
+// QUOTES
+// ============================================================================
+
+/** Tokens and fee for buying with `stxAmount` microSTX right now */
+export async function getBuyQuote(
+  config: AgentSDKConfig,
+  curveId: bigint,
+  stxAmount: bigint
+): Promise<BuyQuote> {
+  const t = asTuple(
+    unwrapOk(
+      await callReadOnly(config, LAUNCHPAD, "get-buy-quote", [
+        encodeUint(curveId),
+        encodeUint(stxAmount),
+      ])
+    )
+  );
+  return { tokensOut: asBigInt(t["tokens-out"]), fee: asBigInt(t["fee"]) };
+}
+
+/** microSTX and fee for selling `tokenAmount` tokens right now */
+export async function getSellQuote(
+  config: AgentSDKConfig,
+  curveId: bigint,
+  tokenAmount: bigint
+): Promise<SellQuote> {
+  const t = asTuple(
+    unwrapOk(
+      await callReadOnly(config, LAUNCHPAD, "get-sell-quote", [
+        encodeUint(curveId),
+        encodeUint(tokenAmount),
+      ])
+    )
+  );
+  return { stxOut: asBigInt(t["stx-out"]), fee: asBigInt(t["fee"]) };
+}
+
+/**
+ * Current marginal price, scaled by PRICE_SCALE (10^12): divide by
+ * PRICE_SCALE for microSTX per smallest token unit.
+ */
+export async function getPrice(
+  config: AgentSDKConfig,
+  curveId: bigint
+): Promise<bigint> {
+  return asBigInt(
+    unwrapOk(
+      await callReadOnly(config, LAUNCHPAD, "get-price", [encodeUint(curveId)])
+    )
+  );
+}
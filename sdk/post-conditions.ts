@@ -0,0 +1,147 @@
+/**
+ * x402 Stacks SDK — Post-Condition Builders
+ *
+ * Deny-mode post-conditions for every call that moves the signer's assets:
+ * x402 payments, task escrow, vault deposits, and bonding-curve trades.
+ * Each builder pins the exact amount the transaction origin will send,
+ * including protocol fees computed from the contract's `fee-bps`, so a
+ * wallet can show (and enforce) precisely what is being spent.
+ */
+
+import { Pc, type PostCondition } from "@stacks/transactions";
+
+// ============================================================================
+// FEES
+// ============================================================================
+
+export const BPS_DENOM = 10_000n;
+
+/** amount * fee-bps / 10000, rounded down — mirrors the contracts' calc-fee */
+export function calcFee(amount: bigint, feeBps: bigint): bigint {
+  return (amount * feeBps) / BPS_DENOM;
+}
+
+/** What the signer spends and where it goes */
+export interface SpendBreakdown {
+  /** Total sent by the transaction origin */
+  total: bigint;
+  /** Portion received by the counterparty (recipient, escrow, curve reserve) */
+  net: bigint;
+  /** Protocol / trade fee portion */
+  fee: bigint;
+}
+
+/** Post-conditions plus the spend they encode */
+export interface PostConditionSet {
+  postConditionMode: "deny";
+  postConditions: PostCondition[];
+  breakdown: SpendBreakdown;
+}
+
+function originSendsStx(breakdown: SpendBreakdown): PostConditionSet {
+  return {
+    postConditionMode: "deny",
+    postConditions: [Pc.origin().willSendEq(breakdown.total).ustx()],
+    breakdown,
+  };
+}
+
+// ============================================================================
+// x402 PAYMENTS
+// ============================================================================
+
+/**
+ * `pay-stx`: the payer sends exactly `amount`; the contract splits it into
+ * net (to recipient) and fee (to fee-recipient).
+ */
+export function payStxPostConditions(
+  amount: bigint,
+  feeBps: bigint = 0n
+): PostConditionSet {
+  const fee = calcFee(amount, feeBps);
+  return originSendsStx({ total: amount, net: amount - fee, fee });
+}
+
+/**
+ * `pay-sip010`: the payer sends exactly `amount` of the token.
+ * `tokenName` is the `define-fungible-token` name inside the token contract.
+ */
+export function paySip010PostConditions(
+  amount: bigint,
+  token: { contractId: `${string}.${string}`; tokenName: string },
+  feeBps: bigint = 0n
+): PostConditionSet {
+  const fee = calcFee(amount, feeBps);
+  return {
+    postConditionMode: "deny",
+    postConditions: [
+      Pc.origin().willSendEq(amount).ft(token.contractId, token.tokenName),
+    ],
+    breakdown: { total: amount, net: amount - fee, fee },
+  };
+}
+
+// ============================================================================
+// AGENT PROTOCOL
+// ============================================================================
+
+/** `post-task`: the poster escrows bounty + task-board fee */
+export function postTaskPostConditions(
+  bounty: bigint,
+  feeBps: bigint
+): PostConditionSet {
+  const fee = calcFee(bounty, feeBps);
+  return originSendsStx({ total: bounty + fee, net: bounty, fee });
+}
+
+/** vault `deposit`: the owner sends exactly `amount` into the vault */
+export function vaultDepositPostConditions(amount: bigint): PostConditionSet {
+  return originSendsStx({ total: amount, net: amount, fee: 0n });
+}
+
+// ============================================================================
+// BONDING CURVE
+// ============================================================================
+
+/**
+ * launchpad `buy` (and `pay-via-curve`, which buys on the payer's behalf):
+ * the buyer sends exactly `stxAmount`. A buy that crosses the graduation
+ * threshold also pays out the curve's accrued fees from the launchpad, so
+ * that contract may send at most `accruedFees` (the curve's `accrued-fees`,
+ * see getCurve) plus this buy's fee. If other trades add fees first, a
+ * graduating buy fails its post-condition instead of paying out more.
+ */
+export function curveBuyPostConditions(
+  launchpadContract: `${string}.${string}`,
+  stxAmount: bigint,
+  feeBps: bigint,
+  accruedFees: bigint
+): PostConditionSet {
+  const fee = calcFee(stxAmount, feeBps);
+  return {
+    postConditionMode: "deny",
+    postConditions: [
+      Pc.origin().willSendEq(stxAmount).ustx(),
+      Pc.principal(launchpadContract).willSendLte(accruedFees + fee).ustx(),
+    ],
+    breakdown: { total: stxAmount, net: stxAmount - fee, fee },
+  };
+}
+
+/**
+ * launchpad `sell`: the seller sends no on-chain assets (curve tokens live in
+ * the contract's ledger, so the breakdown is all zero) and the launchpad
+ * must pay out at least `minStxOut`.
+ */
+export function curveSellPostConditions(
+  launchpadContract: `${string}.${string}`,
+  minStxOut: bigint
+): PostConditionSet {
+  return {
+    postConditionMode: "deny",
+    postConditions: [
+      Pc.principal(launchpadContract).willSendGte(minStxOut).ustx(),
+    ],
+    breakdown: { total: 0n, net: 0n, fee: 0n },
+  };
+}
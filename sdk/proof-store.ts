@@ -0,0 +1,202 @@
+/**
+ * x402 Stacks SDK — Payment Proof Store
+ *
+ * On-chain nonces stop a payment from being *made* twice, but nothing stops a
+ * resource server from *serving* the same PAYMENT-SIGNATURE forever. A proof
+ * store records each redemption so withX402 can enforce a policy:
+ * once per resource (default), N times, or unlimited within a TTL.
+ */
+
+import { readFile, writeFile, rename } from "node:fs/promises";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** How often one payment proof may unlock the same resource */
+export interface RedemptionPolicy {
+  /** Max redemptions per resource (default 1, or unlimited if ttlSeconds is set) */
+  maxRedemptions?: number;
+  /** Seconds after the first redemption during which the proof stays usable */
+  ttlSeconds?: number;
+}
+
+/** Redemption record kept per (nonce, resource) key */
+export interface ProofRedemption {
+  count: number;
+  firstRedeemedAt: number; // Unix ms
+}
+
+/** Pluggable storage for spent payment proofs */
+export interface PaymentProofStore {
+  /**
+   * Record one redemption of `key`. Resolves false (and records nothing) if
+   * the policy forbids another redemption. Implementations must make the
+   * check-and-record atomic so concurrent requests can't both pass.
+   */
+  redeem(key: string, policy: RedemptionPolicy, now?: number): Promise<boolean>;
+}
+
+// ============================================================================
+// POLICY
+// ============================================================================
+
+/**
+ * Apply a redemption policy to an existing record.
+ * Returns the updated record, or null if the redemption is refused.
+ */
+export function nextRedemption(
+  existing: ProofRedemption | undefined,
+  policy: RedemptionPolicy,
+  now: number
+): ProofRedemption | null {
+  if (!existing) return { count: 1, firstRedeemedAt: now };
+
+  const max =
+    policy.maxRedemptions ?? (policy.ttlSeconds !== undefined ? Infinity : 1);
+  if (existing.count >= max) return null;
+
+  if (
+    policy.ttlSeconds !== undefined &&
+    now - existing.firstRedeemedAt > policy.ttlSeconds * 1000
+  ) {
+    return null;
+  }
+
+  return { ...existing, count: existing.count + 1 };
+}
+
+/**
+ * A request path as routers match it: no query string or fragment, dot
+ * segments resolved, lowercase, with repeated and trailing slashes dropped.
+ * Express, for one, serves `/Premium/` and `/premium` from the same route.
+ */
+export function normalizePath(resourceUrl: string): string {
+  let pathname: string;
+  try {
+    pathname = new URL(resourceUrl, "http://resource.invalid").pathname;
+  } catch {
+    pathname = resourceUrl.split(/[?#]/)[0];
+  }
+  const path = pathname.toLowerCase().replace(/\/{2,}/g, "/").replace(/\/+$/, "");
+  return path.startsWith("/") ? path : `/${path}`;
+}
+
+/**
+ * The resource a proof is redeemed against, defined by the server: the
+ * route's `resource` id if it has one, else the normalized request path,
+ * prefixed with the server's canonical `origin` if configured. The
+ * request's own origin comes from the client's Host header, so it is never
+ * part of the key.
+ */
+export function resourceKey(
+  resourceUrl: string,
+  options: { resource?: string; origin?: string } = {}
+): string {
+  if (options.resource) return options.resource;
+  const origin = options.origin?.replace(/\/+$/, "") ?? "";
+  return `${origin}${normalizePath(resourceUrl)}`;
+}
+
+/** Build the store key for a proof redeemed against `resource` (see resourceKey) */
+export function proofKey(nonce: string, resource: string): string {
+  return `${nonce.replace(/^0x/, "").toLowerCase()}:${resource}`;
+}
+
+// ============================================================================
+// IN-MEMORY LRU STORE
+// ============================================================================
+
+/**
+ * In-process store with least-recently-used eviction.
+ *
+ * Evicted proofs become redeemable again, so size `maxEntries` to cover the
+ * payment freshness window of your traffic.
+ */
+export function createMemoryProofStore(
+  options: { maxEntries?: number } = {}
+): PaymentProofStore {
+  const maxEntries = options.maxEntries ?? 100_000;
+  const entries = new Map<string, ProofRedemption>();
+
+  return {
+    async redeem(key, policy, now = Date.now()) {
+      const next = nextRedemption(entries.get(key), policy, now);
+      if (!next) return false;
+
+      // Re-insert to move the key to the most-recently-used position
+      entries.delete(key);
+      entries.set(key, next);
+
+      if (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+      return true;
+    },
+  };
+}
+
+// ============================================================================
+// FILE-BACKED STORE
+// ============================================================================
+
+/**
+ * JSON-file store that survives restarts. Suitable for a single server
+ * process at modest volume: redemptions are serialized in-process and each
+ * one rewrites the whole file, atomically via rename. Put a database behind
+ * PaymentProofStore for anything larger.
+ *
+ * Records older than `retentionSeconds` (default one day) are pruned on each
+ * write, which makes their proofs redeemable again. Keep it longer than both
+ * the payment freshness window and any redemption TTL.
+ */
+export function createFileProofStore(
+  path: string,
+  options: { retentionSeconds?: number } = {}
+): PaymentProofStore {
+  const retentionMs = (options.retentionSeconds ?? 86_400) * 1000;
+  let entries: Record<string, ProofRedemption> | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function load(): Promise<Record<string, ProofRedemption>> {
+    if (entries) return entries;
+    try {
+      entries = JSON.parse(await readFile(path, "utf-8")) as Record<
+        string,
+        ProofRedemption
+      >;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      entries = {};
+    }
+    return entries;
+  }
+
+  async function redeemLocked(
+    key: string,
+    policy: RedemptionPolicy,
+    now: number
+  ): Promise<boolean> {
+    const data = await load();
+    for (const [stored, record] of Object.entries(data)) {
+      if (now - record.firstRedeemedAt >= retentionMs) delete data[stored];
+    }
+    const next = nextRedemption(data[key], policy, now);
+    if (!next) return false;
+
+    data[key] = next;
+    const tmp = `${path}.tmp`;
+    await writeFile(tmp, JSON.stringify(data));
+    await rename(tmp, path);
+    return true;
+  }
+
+  return {
+    redeem(key, policy, now = Date.now()) {
+      const result = queue.then(() => redeemLocked(key, policy, now));
+      queue = result.catch(() => undefined);
+      return result;
+    },
+  };
+}
@@ -0,0 +1,344 @@
+/**
+ * x402 Stacks SDK — Payment History & Revenue Reporting
+ *
+ * The contract only keeps global totals. For per-resource and per-payer
+ * books, withX402 appends every payment it serves to a PaymentLog, and the
+ * event indexer holds every `x402-payment` that reached the chain. This
+ * module turns either source into revenue reports, finds payments that may
+ * deserve a refund, and exports rows as CSV or JSON.
+ *
+ * Amounts are summed per asset: STX and token amounts are never added
+ * together.
+ */
+
+import { appendFile, readFile } from "node:fs/promises";
+import type { EventStore } from "./indexer.js";
+import type { ProtocolEvent } from "./events.js";
+import type { PaymentScheme, StacksNetwork } from "./types.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** One payment, as served by withX402 or as seen on chain */
+export interface PaymentRecord {
+  txId: string;
+  payer: string;
+  recipient: string;
+  /** "STX", a SIP-010 contract principal, or "sip010" if only the event is known */
+  asset: string;
+  /** Atomic units paid, protocol fee included */
+  amount: bigint;
+  /** Protocol fee taken from `amount`, if known */
+  fee?: bigint;
+  /** Payment nonce as hex, no 0x prefix */
+  nonce: string;
+  /** Unix ms: when it was served, or its block time */
+  time?: number;
+  /** Resource the proof was redeemed against (served payments only) */
+  resource?: string;
+  scheme?: PaymentScheme;
+  network?: StacksNetwork;
+  /** Block height recorded in the on-chain receipt */
+  blockHeight?: number;
+  /** Served from the mempool, before the tx executed */
+  pending?: boolean;
+}
+
+/** Where withX402 records the payments it served */
+export interface PaymentLog {
+  record(payment: PaymentRecord): Promise<void>;
+  /** Every recorded payment, oldest first */
+  list(): Promise<PaymentRecord[]>;
+}
+
+/** Totals for one group of payments in one asset */
+export interface RevenueRow {
+  /** Resource URL, payer address or UTC day (YYYY-MM-DD) */
+  key: string;
+  asset: string;
+  count: number;
+  /** Paid by payers, fees included */
+  gross: bigint;
+  /** Protocol fees */
+  fees: bigint;
+  /** Received: gross minus fees */
+  net: bigint;
+}
+
+export interface RefundCandidate {
+  payment: PaymentRecord;
+  /**
+   * - `unserved`: reached the chain but withX402 never served it
+   * - `duplicate`: same payer and resource paid again within the window
+   */
+  reason: "unserved" | "duplicate";
+}
+
+export interface RevenueReport {
+  /** Inclusive time bounds the report covers (Unix ms), if any */
+  from?: number;
+  to?: number;
+  totals: RevenueRow[];
+  byResource: RevenueRow[];
+  byPayer: RevenueRow[];
+  byDay: RevenueRow[];
+  refundCandidates: RefundCandidate[];
+}
+
+// ============================================================================
+// PAYMENT LOGS
+// ============================================================================
+
+/** In-process payment log; entries are lost when the process exits */
+export function createMemoryPaymentLog(): PaymentLog {
+  const payments: PaymentRecord[] = [];
+  return {
+    async record(payment) {
+      payments.push(payment);
+    },
+    async list() {
+      return [...payments];
+    },
+  };
+}
+
+// bigint fields are stored as strings since JSON has no bigint
+function recordToJson(payment: PaymentRecord): string {
+  return JSON.stringify(payment, (_, v) =>
+    typeof v === "bigint" ? v.toString() : v
+  );
+}
+
+function recordFromJson(line: string): PaymentRecord {
+  const raw = JSON.parse(line);
+  return {
+    ...raw,
+    amount: BigInt(raw.amount),
+    ...(raw.fee !== undefined && { fee: BigInt(raw.fee) }),
+  };
+}
+
+/**
+ * Append-only JSON Lines log that survives restarts. Suitable for a single
+ * server process; appends are serialized in-process.
+ */
+export function createFilePaymentLog(path: string): PaymentLog {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    record(payment) {
+      const result = queue.then(() =>
+        appendFile(path, `${recordToJson(payment)}\n`)
+      );
+      queue = result.catch(() => undefined);
+      return result;
+    },
+    async list() {
+      await queue;
+      let text: string;
+      try {
+        text = await readFile(path, "utf-8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+        return [];
+      }
+      return text
+        .split("\n")
+        .filter((line) => line.trim())
+        .map(recordFromJson);
+    },
+  };
+}
+
+// ============================================================================
+// ON-CHAIN PAYMENTS
+// ============================================================================
+
+/** Payment records for indexed `x402-payment` events */
+export function paymentsFromEvents(
+  events: ProtocolEvent<"x402-payment">[]
+): PaymentRecord[] {
+  return events.map((e) => ({
+    txId: e.txId,
+    payer: e.data.payer,
+    recipient: e.data.recipient,
+    asset: e.data.type === "stx" ? "STX" : "sip010",
+    amount: e.data.amount,
+    fee: e.data.fee,
+    nonce: e.data.nonce,
+    blockHeight: e.blockHeight,
+    ...(e.blockTime !== undefined && { time: e.blockTime * 1000 }),
+  }));
+}
+
+/** Indexed payments to `recipient`, oldest first */
+export async function loadIndexedPayments(
+  store: EventStore,
+  recipient: string,
+  range: { fromHeight?: number; toHeight?: number } = {}
+): Promise<PaymentRecord[]> {
+  const events = await store.query({
+    event: "x402-payment",
+    where: { recipient },
+    ...range,
+  });
+  return paymentsFromEvents(events);
+}
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+/** UTC day of a Unix ms timestamp, or "unknown" */
+export function paymentDay(time: number | undefined): string {
+  return time === undefined ? "unknown" : new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Sum payments per (key, asset). Rows are sorted by gross revenue,
+ * highest first.
+ */
+export function summarizePayments(
+  payments: PaymentRecord[],
+  keyOf: (payment: PaymentRecord) => string
+): RevenueRow[] {
+  const rows = new Map<string, RevenueRow>();
+  for (const payment of payments) {
+    const key = keyOf(payment);
+    const id = `${key}\n${payment.asset}`;
+    const row = rows.get(id) ?? {
+      key,
+      asset: payment.asset,
+      count: 0,
+      gross: 0n,
+      fees: 0n,
+      net: 0n,
+    };
+    const fee = payment.fee ?? 0n;
+    row.count++;
+    row.gross += payment.amount;
+    row.fees += fee;
+    row.net += payment.amount - fee;
+    rows.set(id, row);
+  }
+  return [...rows.values()].sort((a, b) =>
+    a.gross === b.gross ? a.key.localeCompare(b.key) : a.gross > b.gross ? -1 : 1
+  );
+}
+
+/**
+ * Payments that may deserve a refund: on-chain payments withX402 never
+ * served (matched by txId), and repeat payments by one payer for one
+ * resource within `duplicateWindowMs` (default 60s) of the previous one.
+ */
+export function findRefundCandidates(
+  served: PaymentRecord[],
+  onChain: PaymentRecord[] = [],
+  options: { duplicateWindowMs?: number } = {}
+): RefundCandidate[] {
+  const window = options.duplicateWindowMs ?? 60_000;
+  const candidates: RefundCandidate[] = [];
+
+  const servedTxIds = new Set(served.map((p) => p.txId));
+  for (const payment of onChain) {
+    if (!servedTxIds.has(payment.txId)) {
+      candidates.push({ payment, reason: "unserved" });
+    }
+  }
+
+  const lastPaid = new Map<string, number>();
+  const byTime = served
+    .filter((p) => p.resource !== undefined && p.time !== undefined)
+    .sort((a, b) => a.time! - b.time!);
+  for (const payment of byTime) {
+    const key = `${payment.payer}\n${payment.resource}`;
+    const previous = lastPaid.get(key);
+    if (previous !== undefined && payment.time! - previous <= window) {
+      candidates.push({ payment, reason: "duplicate" });
+    }
+    lastPaid.set(key, payment.time!);
+  }
+  return candidates;
+}
+
+/**
+ * Revenue report over served payments, optionally limited to [from, to]
+ * (Unix ms). Pass `onChain` (e.g. from loadIndexedPayments) to also flag
+ * payments that were made but never served.
+ *
+ * @example
+ * ```ts
+ * const served = await paymentLog.list();
+ * const onChain = await loadIndexedPayments(indexer.store, payTo);
+ * const report = buildRevenueReport(served, { onChain, from: Date.parse("2025-01-01") });
+ * await writeFile("revenue.csv", toCsv(report.byResource));
+ * ```
+ */
+export function buildRevenueReport(
+  served: PaymentRecord[],
+  options: {
+    onChain?: PaymentRecord[];
+    from?: number;
+    to?: number;
+    duplicateWindowMs?: number;
+  } = {}
+): RevenueReport {
+  const { from, to } = options;
+  const inRange = (p: PaymentRecord) =>
+    (from === undefined || (p.time !== undefined && p.time >= from)) &&
+    (to === undefined || (p.time !== undefined && p.time <= to));
+  const payments = served.filter(inRange);
+
+  return {
+    ...(from !== undefined && { from }),
+    ...(to !== undefined && { to }),
+    totals: summarizePayments(payments, () => "total"),
+    byResource: summarizePayments(payments, (p) => p.resource ?? "unknown"),
+    byPayer: summarizePayments(payments, (p) => p.payer),
+    byDay: summarizePayments(payments, (p) => paymentDay(p.time)).sort((a, b) =>
+      a.key.localeCompare(b.key)
+    ),
+    refundCandidates: findRefundCandidates(
+      payments,
+      options.onChain?.filter(inRange),
+      options
+    ),
+  };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with a header row. Columns default to the keys of the first row;
+ * bigints are written in full.
+ */
+export function toCsv<T extends object>(
+  rows: T[],
+  columns: Array<keyof T & string> = Object.keys(rows[0] ?? {}) as Array<
+    keyof T & string
+  >
+): string {
+  const lines = [columns.map(csvCell).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => csvCell(row[column])).join(","));
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/** JSON with bigints written as decimal strings */
+export function toJson(value: unknown, space?: number): string {
+  return JSON.stringify(
+    value,
+    (_, v) => (typeof v === "bigint" ? v.toString() : v),
+    space
+  );
+}
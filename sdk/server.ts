@@ -7,180 +7,824 @@
  * 3. Wrap route handlers with automatic x402 payment gating
  */
 
+import {
+  AuthType,
+  PayloadType,
+  PostConditionMode,
+  addressToString,
+  cvToHex,
+  deserializeTransaction,
+  privateKeyToAddress,
+  sponsorTransaction,
+  wireToPostCondition,
+  type StacksTransactionWire,
+} from "@stacks/transactions";
 import {
   type X402ServerConfig,
+  type AcceptancePolicy,
   type PaymentRequired,
   type PaymentPayload,
   type PaymentRequirements,
   type PaymentReceipt,
+  type PaymentCallArgs,
+  type CurvePaymentReceipt,
+  type CurveCallArgs,
+  type PaymentOption,
+  type PaymentOptions,
+  type FreshnessPolicy,
   type ResourceInfo,
+  type SettleResponse,
+  type SponsorConfig,
   type VerifyResponse,
   HEADER_PAYMENT_REQUIRED,
   HEADER_PAYMENT_SIGNATURE,
   HEADER_PAYMENT_RESPONSE,
+  STACKS_MAINNET,
 } from "./types.js";
+import { waitForConfirmation } from "./client.js";
+import {
+  type ChainTx,
+  type StacksChainProvider,
+  originAddress,
+  resolveChain,
+} from "./chain.js";
+import {
+  type PayerBlocklist,
+  createMemoryPayerBlocklist,
+  recheckPendingPayment,
+} from "./acceptance.js";
+import {
+  type PaymentProofStore,
+  type RedemptionPolicy,
+  createMemoryProofStore,
+  proofKey,
+  resourceKey,
+} from "./proof-store.js";
+import {
+  type ClarityValue,
+  encodeBufferHex,
+  encodePrincipal,
+  decodeCV,
+  unwrapOk,
+  unwrapOptional,
+  asTuple,
+  asBigInt,
+  asBool,
+  asPrincipal,
+  asBufferHex,
+} from "./clarity.js";
 
 // ============================================================================
 // PAYMENT REQUIREMENTS BUILDER
 // ============================================================================
 
+/** Server config with a payment option's overrides applied */
+function configForOption(
+  config: X402ServerConfig,
+  option: PaymentOption
+): X402ServerConfig {
+  const network = option.network ?? config.network;
+  return {
+    ...config,
+    network,
+    contractAddress: option.contractAddress ?? config.contractAddress,
+    contractName:
+      option.contractName ??
+      (option.scheme === "curve" ? "x402-curve-router" : config.contractName),
+    payTo: option.payTo ?? config.payTo,
+    // The configured API URL and chain only serve the configured network
+    apiUrl:
+      option.apiUrl ?? (network === config.network ? config.apiUrl : undefined),
+    chain:
+      option.chain ??
+      (option.apiUrl === undefined && network === config.network
+        ? config.chain
+        : undefined),
+  };
+}
+
+function listPaymentOptions(options: PaymentOptions): PaymentOption[] {
+  return "accepts" in options ? options.accepts : [options];
+}
+
 /**
  * Build payment requirements for a 402 response
  */
 export function buildPaymentRequirements(
   config: X402ServerConfig,
-  options: {
-    /** Amount in microSTX (or token atomic units) */
-    amount: string | number | bigint;
-    /** "STX" or SIP-010 contract principal */
-    asset?: string;
-    /** Max time for payment completion (default 300s) */
-    maxTimeoutSeconds?: number;
-  }
+  options: PaymentOption
 ): PaymentRequirements {
+  const resolved = configForOption(config, options);
+  const curve = options.scheme === "curve";
+  if (curve && options.curveId === undefined) {
+    throw new Error("curve scheme requires a curveId");
+  }
   return {
-    scheme: "exact",
-    network: config.network,
-    asset: options.asset || "STX",
+    scheme: options.scheme ?? "exact",
+    network: resolved.network,
+    // Curve payments are always made in STX
+    asset: curve ? "STX" : options.asset || "STX",
     amount: String(options.amount),
-    payTo: config.payTo,
+    payTo: resolved.payTo,
     maxTimeoutSeconds: options.maxTimeoutSeconds || 300,
     extra: {
-      contractAddress: config.contractAddress,
-      contractName: config.contractName || "x402-payments",
+      contractAddress: resolved.contractAddress,
+      contractName: resolved.contractName || "x402-payments",
+      ...(options.tokenName && { tokenName: options.tokenName }),
+      ...(curve && { curveId: String(options.curveId) }),
+      ...(curve &&
+        options.minTokensOut !== undefined && {
+          minTokensOut: String(options.minTokensOut),
+        }),
+      ...((config.sponsor || config.facilitator?.sponsored) && {
+        sponsored: true,
+      }),
     },
   };
 }
 
 /**
- * Build a full 402 Payment Required response body
+ * Build a full 402 Payment Required response body.
+ *
+ * Pass `{ accepts: [...] }` to advertise several options at once, e.g.
+ * STX and sBTC, or a mainnet and a testnet deployment.
  */
 export function buildPaymentRequired(
   config: X402ServerConfig,
   resource: ResourceInfo,
-  options: {
-    amount: string | number | bigint;
-    asset?: string;
-    maxTimeoutSeconds?: number;
-    error?: string;
-  }
+  options: PaymentOptions & { error?: string }
 ): PaymentRequired {
   return {
     x402Version: 2,
     error: options.error || "Payment required",
     resource,
-    accepts: [buildPaymentRequirements(config, options)],
+    accepts: listPaymentOptions(options).map((option) =>
+      buildPaymentRequirements(config, option)
+    ),
   };
 }
 
+/**
+ * Whether a client's `accepted` requirement names the same payment route
+ * (scheme, network, asset, recipient, contract, curve) as one of ours. Amounts are
+ * not compared: the server's own amount is what verification enforces.
+ */
+export function matchesRequirement(
+  ours: PaymentRequirements,
+  accepted: PaymentRequirements | undefined
+): boolean {
+  return (
+    !!accepted &&
+    accepted.scheme === ours.scheme &&
+    accepted.network === ours.network &&
+    accepted.asset === ours.asset &&
+    accepted.payTo === ours.payTo &&
+    accepted.extra?.contractAddress === ours.extra.contractAddress &&
+    accepted.extra?.contractName === ours.extra.contractName &&
+    accepted.extra?.curveId === ours.extra.curveId
+  );
+}
+
+// ============================================================================
+// RECEIPT DECODING
+// ============================================================================
+
+/**
+ * Decode the `verify-payment` read-only result into a PaymentReceipt.
+ *
+ * The result is a serialized `(optional { payer, recipient, amount, fee,
+ * block, is-stx })`. Returns null for `none` or any unexpected shape.
+ */
+export function decodePaymentReceipt(hex: string): PaymentReceipt | null {
+  try {
+    const inner = unwrapOptional(decodeCV(hex));
+    if (!inner) return null;
+
+    const t = asTuple(inner);
+    return {
+      payer: asPrincipal(t["payer"]),
+      recipient: asPrincipal(t["recipient"]),
+      amount: asBigInt(t["amount"]),
+      fee: asBigInt(t["fee"]),
+      block: asBigInt(t["block"]),
+      isStx: asBool(t["is-stx"]),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode the `function_args` of a `pay-stx` / `pay-sip010` transaction as
+ * reported by the Stacks API. Returns null if any argument is missing or
+ * has the wrong Clarity type.
+ */
+export function decodePaymentCallArgs(
+  functionArgs: Array<{ hex: string; name: string }> | undefined
+): PaymentCallArgs | null {
+  if (!functionArgs) return null;
+
+  try {
+    const byName = new Map<string, ClarityValue>();
+    for (const arg of functionArgs) byName.set(arg.name, decodeCV(arg.hex));
+
+    const token = byName.get("token");
+    return {
+      token: token ? asPrincipal(token) : undefined,
+      recipient: asPrincipal(byName.get("recipient")),
+      amount: asBigInt(byName.get("amount")),
+      nonce: asBufferHex(byName.get("nonce")),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check that the transaction's call arguments are the ones behind the
+ * claimed nonce and the recorded receipt, so a txId and a nonce taken
+ * from two different payments can't be combined into one proof.
+ */
+export function checkCallArgs(
+  args: PaymentCallArgs,
+  nonce: string,
+  receipt: PaymentReceipt
+): string | null {
+  if (args.nonce !== nonce.replace(/^0x/, "").toLowerCase()) {
+    return "Nonce does not match transaction arguments";
+  }
+
+  if (args.recipient !== receipt.recipient || args.amount !== receipt.amount) {
+    return "Transaction arguments do not match on-chain receipt";
+  }
+
+  return null;
+}
+
+/**
+ * Check that the transaction paid in the required asset: `pay-stx` for STX,
+ * or `pay-sip010` with exactly the required token contract.
+ */
+export function checkAsset(
+  functionName: string,
+  args: PaymentCallArgs,
+  requirements: PaymentRequirements
+): string | null {
+  if (requirements.asset === "STX") {
+    return functionName === "pay-stx" && args.token === undefined
+      ? null
+      : `Wrong asset: paid via ${functionName}, required STX`;
+  }
+
+  if (functionName !== "pay-sip010") {
+    return `Wrong asset: paid via ${functionName}, required ${requirements.asset}`;
+  }
+  if (args.token !== requirements.asset) {
+    return `Wrong token: ${args.token}`;
+  }
+  return null;
+}
+
+/**
+ * Check an on-chain receipt against the server's own payment requirements.
+ * Returns the reason the receipt falls short, or null if it satisfies them.
+ */
+export function checkReceipt(
+  receipt: PaymentReceipt,
+  requirements: PaymentRequirements
+): string | null {
+  if (receipt.amount < BigInt(requirements.amount)) {
+    return `Insufficient amount: paid ${receipt.amount}, required ${requirements.amount}`;
+  }
+
+  if (receipt.recipient !== requirements.payTo) {
+    return `Wrong recipient: ${receipt.recipient}`;
+  }
+
+  const wantsStx = requirements.asset === "STX";
+  if (receipt.isStx !== wantsStx) {
+    return `Wrong asset: paid ${receipt.isStx ? "STX" : "SIP-010"}, required ${requirements.asset}`;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// CURVE RECEIPTS
+// ============================================================================
+
+/**
+ * Decode the x402-curve-router `verify-payment` result, a serialized
+ * `(optional { payer, curve-id, stx-amount, tokens-received, fee, block })`.
+ * Returns null for `none` or any unexpected shape.
+ */
+export function decodeCurveReceipt(hex: string): CurvePaymentReceipt | null {
+  try {
+    const inner = unwrapOptional(decodeCV(hex));
+    if (!inner) return null;
+
+    const t = asTuple(inner);
+    return {
+      payer: asPrincipal(t["payer"]),
+      curveId: asBigInt(t["curve-id"]),
+      stxAmount: asBigInt(t["stx-amount"]),
+      tokensReceived: asBigInt(t["tokens-received"]),
+      fee: asBigInt(t["fee"]),
+      block: asBigInt(t["block"]),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode the `function_args` of a `pay-via-curve` transaction.
+ * Returns null if any argument is missing or has the wrong Clarity type.
+ */
+export function decodeCurveCallArgs(
+  functionArgs: Array<{ hex: string; name: string }> | undefined
+): CurveCallArgs | null {
+  if (!functionArgs) return null;
+
+  try {
+    const byName = new Map<string, ClarityValue>();
+    for (const arg of functionArgs) byName.set(arg.name, decodeCV(arg.hex));
+
+    return {
+      curveId: asBigInt(byName.get("curve-id")),
+      stxAmount: asBigInt(byName.get("stx-amount")),
+      nonce: asBufferHex(byName.get("nonce")),
+      minTokensOut: asBigInt(byName.get("min-tokens-out")),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a curve payment: the tx arguments must match the receipt, and the
+ * receipt must buy on the required curve for at least the required amount,
+ * delivering at least `minTokensOut` tokens.
+ */
+export function checkCurvePayment(
+  args: CurveCallArgs,
+  nonce: string,
+  receipt: CurvePaymentReceipt,
+  requirements: PaymentRequirements
+): string | null {
+  if (args.nonce !== nonce.replace(/^0x/, "").toLowerCase()) {
+    return "Nonce does not match transaction arguments";
+  }
+
+  if (
+    args.curveId !== receipt.curveId ||
+    args.stxAmount !== receipt.stxAmount
+  ) {
+    return "Transaction arguments do not match on-chain receipt";
+  }
+
+  if (
+    requirements.extra.curveId === undefined ||
+    receipt.curveId !== BigInt(requirements.extra.curveId)
+  ) {
+    return `Wrong curve: ${receipt.curveId}`;
+  }
+
+  if (receipt.stxAmount < BigInt(requirements.amount)) {
+    return `Insufficient amount: paid ${receipt.stxAmount}, required ${requirements.amount}`;
+  }
+
+  const minTokensOut = BigInt(requirements.extra.minTokensOut ?? 0);
+  if (receipt.tokensReceived < minTokensOut) {
+    return `Insufficient tokens: received ${receipt.tokensReceived}, required ${minTokensOut}`;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// FRESHNESS
+// ============================================================================
+
+/** x402-payments PAYMENT-LIFETIME (~24 hours of blocks) */
+const PAYMENT_LIFETIME_BLOCKS = 144;
+
+/**
+ * Check that a receipt is recent enough under the given freshness policy.
+ * Returns a "Stale payment" reason if it isn't, or null if it is.
+ */
+export async function checkFreshness(
+  chain: StacksChainProvider | string,
+  config: X402ServerConfig,
+  receipt: { block: bigint },
+  nonceHex: string,
+  requirements: PaymentRequirements
+): Promise<string | null> {
+  let policy: FreshnessPolicy = config.freshness ?? { mode: "contract" };
+
+  // x402-curve-router has no is-payment-fresh; apply x402-payments'
+  // PAYMENT-LIFETIME to its receipts instead
+  if (policy.mode === "contract" && requirements.scheme === "curve") {
+    policy = { mode: "blocks", maxAgeBlocks: PAYMENT_LIFETIME_BLOCKS };
+  }
+
+  const provider = resolveChain(chain, config.network);
+  switch (policy.mode) {
+    case "off":
+      return null;
+
+    case "contract": {
+      const contractName = config.contractName || "x402-payments";
+      const fresh = await provider.callReadOnly(
+        `${config.contractAddress}.${contractName}`,
+        "is-payment-fresh",
+        [encodeBufferHex(nonceHex)]
+      );
+      return asBool(decodeCV(fresh))
+        ? null
+        : `Stale payment: receipt at block ${receipt.block} is past the contract's payment lifetime`;
+    }
+
+    case "blocks": {
+      const tip = await provider.getTip();
+      const age = BigInt(tip.height) - receipt.block;
+      return age > BigInt(policy.maxAgeBlocks)
+        ? `Stale payment: receipt is ${age} blocks old (max ${policy.maxAgeBlocks})`
+        : null;
+    }
+
+    case "seconds": {
+      const maxAge = policy.maxAgeSeconds ?? requirements.maxTimeoutSeconds;
+      const blockTime = await provider.getBlockTime(receipt.block);
+      const age = Math.floor(Date.now() / 1000) - blockTime;
+      return age > maxAge
+        ? `Stale payment: receipt is ${age}s old (max ${maxAge}s)`
+        : null;
+    }
+  }
+}
+
 // ============================================================================
 // PAYMENT VERIFICATION
 // ============================================================================
 
+function chainFor(config: X402ServerConfig): StacksChainProvider {
+  return resolveChain(config.chain ?? config.apiUrl, config.network);
+}
+
+/**
+ * Fetch the payment transaction and check it is a call to our contract
+ * that is settled enough for the acceptance policy. Returns the
+ * transaction, or the reason it can't be a payment.
+ */
+async function fetchPaymentTx(
+  chain: StacksChainProvider,
+  expectedContract: string,
+  txId: string,
+  acceptance: AcceptancePolicy = { mode: "confirmed" },
+  acceptPending = false
+): Promise<ChainTx | string> {
+  const txData = await chain.getTx(txId);
+  if (!txData) return "Transaction not found";
+
+  // Must be executed (or pending, if the policy takes the risk)
+  if (txData.status === "pending") {
+    if (!acceptPending) return "Transaction status: pending";
+  } else if (txData.status !== "success" && txData.status !== "unknown") {
+    // "unknown" comes from providers that can't see results; the receipt decides
+    return `Transaction status: ${txData.status}`;
+  } else if (acceptance.mode === "confirmed" && txData.unanchored) {
+    return "Transaction is not yet in an anchored block";
+  }
+
+  // Must call our payment contract
+  if (txData.contractCall?.contractId !== expectedContract) {
+    return `Wrong contract: ${txData.contractCall?.contractId}`;
+  }
+
+  return txData;
+}
+
+/**
+ * Call the contract's `verify-payment` read-only function for a nonce.
+ * Returns the serialized `(optional receipt)`, or the reason the call failed.
+ */
+async function readReceipt(
+  chain: StacksChainProvider,
+  contractAddress: string,
+  contractName: string,
+  nonceHex: string
+): Promise<{ result: string } | string> {
+  try {
+    return {
+      result: await chain.callReadOnly(
+        `${contractAddress}.${contractName}`,
+        "verify-payment",
+        [encodeBufferHex(nonceHex)]
+      ),
+    };
+  } catch (error) {
+    return error instanceof Error ? error.message : "Failed to call verify-payment";
+  }
+}
+
+// ============================================================================
+// MEMPOOL ACCEPTANCE
+// ============================================================================
+
+type MempoolAcceptance = Extract<AcceptancePolicy, { mode: "mempool" }>;
+
+let defaultBlocklist: PayerBlocklist | undefined;
+
+function blocklistFor(policy: MempoolAcceptance): PayerBlocklist {
+  if (policy.blocklist) return policy.blocklist;
+  defaultBlocklist ??= createMemoryPayerBlocklist();
+  return defaultBlocklist;
+}
+
+// Pending txIds already being re-checked
+const rechecking = new Set<string>();
+
+/**
+ * Accept a pending payment on the strength of its call arguments, and
+ * re-check it in the background until it confirms or fails.
+ */
+async function verifyPendingPayment(
+  chain: StacksChainProvider,
+  contractId: string,
+  payload: PaymentPayload,
+  requirements: PaymentRequirements,
+  txData: ChainTx,
+  args: PaymentCallArgs | CurveCallArgs,
+  policy: MempoolAcceptance
+): Promise<VerifyResponse> {
+  const fn = txData.contractCall!.functionName;
+  const mismatch = checkUnsettledCall(
+    fn,
+    args,
+    payload.payload.nonce,
+    requirements
+  );
+  if (mismatch) return { isValid: false, invalidReason: mismatch };
+
+  const payer = txData.sender;
+  if (!payer) return { isValid: false, invalidReason: "Missing sender" };
+
+  // A nonce that already has a receipt is spent; this tx would abort
+  const [contractAddress, contractName] = contractId.split(".");
+  const read = await readReceipt(
+    chain,
+    contractAddress,
+    contractName,
+    args.nonce
+  );
+  if (typeof read === "string") {
+    return { isValid: false, invalidReason: read };
+  }
+  if (unwrapOptional(decodeCV(read.result))) {
+    return { isValid: false, invalidReason: "Nonce already used" };
+  }
+
+  const txId = payload.payload.txId!;
+  if (!rechecking.has(txId)) {
+    rechecking.add(txId);
+    recheckPendingPayment(chain, txId, payer, requirements, {
+      blocklist: blocklistFor(policy),
+      onFailed: policy.onPaymentFailed,
+      timeout: policy.recheckTimeout,
+      pollInterval: policy.pollInterval,
+    })
+      .catch(() => undefined)
+      .finally(() => rechecking.delete(txId));
+  }
+
+  return {
+    isValid: true,
+    payer,
+    amount: String("recipient" in args ? args.amount : args.stxAmount),
+    ...("recipient" in args && { recipient: args.recipient }),
+    pending: true,
+  };
+}
+
+/**
+ * Check the arguments of a payment call that hasn't executed yet (pending
+ * or unbroadcast) against the requirements. Once it runs, the contract
+ * moves exactly these amounts or aborts.
+ */
+export function checkUnsettledCall(
+  functionName: string,
+  args: PaymentCallArgs | CurveCallArgs,
+  nonce: string,
+  requirements: PaymentRequirements
+): string | null {
+  if (args.nonce !== nonce.replace(/^0x/, "").toLowerCase()) {
+    return "Nonce does not match transaction arguments";
+  }
+
+  if ("recipient" in args) {
+    return (
+      checkAsset(functionName, args, requirements) ||
+      (args.recipient !== requirements.payTo
+        ? `Wrong recipient: ${args.recipient}`
+        : null) ||
+      (args.amount < BigInt(requirements.amount)
+        ? `Insufficient amount: paid ${args.amount}, required ${requirements.amount}`
+        : null)
+    );
+  }
+
+  if (
+    requirements.extra.curveId === undefined ||
+    args.curveId !== BigInt(requirements.extra.curveId)
+  ) {
+    return `Wrong curve: ${args.curveId}`;
+  }
+  if (args.stxAmount < BigInt(requirements.amount)) {
+    return `Insufficient amount: paid ${args.stxAmount}, required ${requirements.amount}`;
+  }
+  const minTokensOut = BigInt(requirements.extra.minTokensOut ?? 0);
+  if (args.minTokensOut < minTokensOut) {
+    return `Insufficient min-tokens-out: ${args.minTokensOut}, required ${minTokensOut}`;
+  }
+  return null;
+}
+
 /**
  * Verify a payment by reading the on-chain nonce record
  *
- * Calls the x402-payments contract's `verify-payment` read-only function
- * via the Stacks API.
+ * Calls the payment contract's `verify-payment` read-only function through
+ * the configured chain provider, decodes the receipt, and checks it against the server's own
+ * requirements — never the ones echoed back by the client. `curve`
+ * requirements are checked against the x402-curve-router receipt.
  */
 export async function verifyPayment(
   config: X402ServerConfig,
-  payload: PaymentPayload
+  payload: PaymentPayload,
+  requirements: PaymentRequirements
 ): Promise<VerifyResponse> {
-  const apiUrl =
-    config.apiUrl ||
-    (config.network === "stacks:1"
-      ? "https://api.hiro.so"
-      : "https://api.testnet.hiro.so");
-
+  const chain = chainFor(config);
   const contractAddress = config.contractAddress;
-  const contractName = config.contractName || "x402-payments";
+  const contractName =
+    config.contractName ||
+    (requirements.scheme === "curve" ? "x402-curve-router" : "x402-payments");
 
-  // First verify the transaction was confirmed
-  const txUrl = `${apiUrl}/extended/v1/tx/${payload.payload.txId}`;
-  try {
-    const txResp = await fetch(txUrl);
-    if (!txResp.ok) {
-      return { isValid: false, invalidReason: "Transaction not found" };
-    }
+  const acceptance = config.acceptance ?? { mode: "confirmed" };
+  const mempool = acceptance.mode === "mempool" ? acceptance : undefined;
 
-    const txData = (await txResp.json()) as {
-      tx_status: string;
-      sender_address?: string;
-      contract_call?: {
-        contract_id: string;
-        function_name: string;
-        function_args?: Array<{ repr: string }>;
-      };
-    };
+  if (!payload.payload.txId) {
+    return { isValid: false, invalidReason: "Missing txId" };
+  }
 
-    // Must be confirmed
-    if (txData.tx_status !== "success") {
-      return {
-        isValid: false,
-        invalidReason: `Transaction status: ${txData.tx_status}`,
-      };
+  try {
+    // First verify the transaction was confirmed and called our contract
+    const txData = await fetchPaymentTx(
+      chain,
+      `${contractAddress}.${contractName}`,
+      payload.payload.txId,
+      acceptance,
+      mempool !== undefined &&
+        BigInt(requirements.amount) <= BigInt(mempool.maxAmount)
+    );
+    if (typeof txData === "string") {
+      return { isValid: false, invalidReason: txData };
     }
 
-    // Must call our x402-payments contract
-    const expectedContract = `${contractAddress}.${contractName}`;
-    if (txData.contract_call?.contract_id !== expectedContract) {
+    // Payers whose earlier mempool payment failed are refused
+    if (
+      mempool &&
+      txData.sender &&
+      (await blocklistFor(mempool).isBlocked(txData.sender))
+    ) {
       return {
         isValid: false,
-        invalidReason: `Wrong contract: ${txData.contract_call?.contract_id}`,
+        invalidReason: "Payer is blocked: an earlier mempool payment failed",
       };
     }
 
-    // Must call pay-stx or pay-sip010
-    const fn = txData.contract_call?.function_name;
-    if (fn !== "pay-stx" && fn !== "pay-sip010") {
+    // Must call pay-stx or pay-sip010 (pay-via-curve for the curve scheme)
+    const fn = txData.contractCall?.functionName;
+    const expectedFns =
+      requirements.scheme === "curve"
+        ? ["pay-via-curve"]
+        : ["pay-stx", "pay-sip010"];
+    if (!fn || !expectedFns.includes(fn)) {
       return {
         isValid: false,
         invalidReason: `Wrong function: ${fn}`,
       };
     }
 
+    // The tx arguments must name the nonce we're about to look up
+    const functionArgs = txData.contractCall?.functionArgs;
+    const callArgs =
+      requirements.scheme === "curve"
+        ? decodeCurveCallArgs(functionArgs)
+        : decodePaymentCallArgs(functionArgs);
+    if (!callArgs) {
+      return { isValid: false, invalidReason: "Malformed payment arguments" };
+    }
+
+    // STX requirements need pay-stx; token requirements need pay-sip010
+    // with the same token contract
+    if ("recipient" in callArgs) {
+      const wrongAsset = checkAsset(fn, callArgs, requirements);
+      if (wrongAsset) {
+        return { isValid: false, invalidReason: wrongAsset };
+      }
+    }
+
+    // A pending payment has no receipt yet: check what it will do
+    if (txData.status === "pending") {
+      return await verifyPendingPayment(
+        chain,
+        `${contractAddress}.${contractName}`,
+        payload,
+        requirements,
+        txData,
+        callArgs,
+        mempool!
+      );
+    }
+
     // Now verify the nonce on-chain via read-only call
     const nonceHex = payload.payload.nonce.replace(/^0x/, "");
-    const verifyUrl = `${apiUrl}/v2/contracts/call-read/${contractAddress}/${contractName}/verify-payment`;
-
-    const verifyResp = await fetch(verifyUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        sender: contractAddress,
-        arguments: [`0x${nonceHex}`],
-      }),
-    });
+    const read = await readReceipt(
+      chain,
+      contractAddress,
+      contractName,
+      nonceHex
+    );
+    if (typeof read === "string") {
+      return { isValid: false, invalidReason: read };
+    }
 
-    if (!verifyResp.ok) {
-      return {
-        isValid: false,
-        invalidReason: "Failed to call verify-payment",
+    // Decode the receipt; `none` means the nonce was never paid
+    let receipt: { payer: string; block: bigint };
+    let verified: VerifyResponse;
+    let mismatch: string | null;
+    if ("recipient" in callArgs) {
+      const paid = decodePaymentReceipt(read.result);
+      if (!paid) {
+        return { isValid: false, invalidReason: "Nonce not found on-chain" };
+      }
+      receipt = paid;
+      mismatch =
+        checkCallArgs(callArgs, payload.payload.nonce, paid) ||
+        checkReceipt(paid, requirements);
+      verified = {
+        isValid: true,
+        payer: paid.payer,
+        amount: paid.amount.toString(),
+        recipient: paid.recipient,
+        block: paid.block.toString(),
+        fee: paid.fee.toString(),
+      };
+    } else {
+      const paid = decodeCurveReceipt(read.result);
+      if (!paid) {
+        return { isValid: false, invalidReason: "Nonce not found on-chain" };
+      }
+      receipt = paid;
+      mismatch = checkCurvePayment(
+        callArgs,
+        payload.payload.nonce,
+        paid,
+        requirements
+      );
+      verified = {
+        isValid: true,
+        payer: paid.payer,
+        amount: paid.stxAmount.toString(),
+        block: paid.block.toString(),
+        fee: paid.fee.toString(),
       };
     }
 
-    const verifyData = (await verifyResp.json()) as {
-      okay: boolean;
-      result?: string;
-    };
+    // The receipt must be the sender's own: another account's payment with
+    // the same nonce says nothing about how this transaction ended
+    if (!mismatch && receipt.payer !== txData.sender) {
+      mismatch = "Payer does not match transaction sender";
+    }
 
-    if (!verifyData.okay || !verifyData.result) {
-      return { isValid: false, invalidReason: "Contract call failed" };
+    if (mismatch) {
+      return { isValid: false, invalidReason: mismatch };
     }
 
-    // If result contains "none", payment wasn't recorded
-    if (verifyData.result.includes("none")) {
-      return { isValid: false, invalidReason: "Nonce not found on-chain" };
+    // Old receipts must not unlock content forever
+    const stale = await checkFreshness(
+      chain,
+      config,
+      receipt,
+      nonceHex,
+      requirements
+    );
+    if (stale) {
+      return { isValid: false, invalidReason: stale };
     }
 
-    // Payment verified: extract payer from transaction
-    return {
-      isValid: true,
-      payer: txData.sender_address,
-      amount: payload.accepted.amount,
-      recipient: payload.accepted.payTo,
-    };
+    // Payment verified: report what the chain recorded
+    return verified;
   } catch (error) {
     return {
       isValid: false,
@@ -189,6 +833,273 @@ export async function verifyPayment(
   }
 }
 
+// ============================================================================
+// SPONSORED SETTLEMENT
+// ============================================================================
+
+/** Parameter names of each payment function, in call order */
+const CALL_ARG_NAMES: Record<string, string[]> = {
+  "pay-stx": ["recipient", "amount", "nonce"],
+  "pay-sip010": ["token", "recipient", "amount", "nonce"],
+  "pay-via-curve": ["curve-id", "stx-amount", "nonce", "min-tokens-out"],
+};
+
+const DEFAULT_SPONSOR_FEE = 3_000n;
+
+/** A signed, unbroadcast payment that passed checkSponsoredTransaction */
+export interface SponsoredPayment {
+  transaction: StacksTransactionWire;
+  payer: string;
+  functionName: string;
+  args: PaymentCallArgs | CurveCallArgs;
+}
+
+/**
+ * Validate a payer's signed-but-unbroadcast sponsored transaction before
+ * paying its fee: sponsored auth with a valid origin signature, a call to
+ * the required payment contract whose arguments satisfy the requirements,
+ * and deny-mode post-conditions pinning the payer's outflow to the amount
+ * paid. Returns the decoded payment, or the reason it can't be sponsored.
+ */
+export function checkSponsoredTransaction(
+  hex: string,
+  nonce: string,
+  requirements: PaymentRequirements
+): SponsoredPayment | string {
+  let tx: StacksTransactionWire;
+  try {
+    tx = deserializeTransaction(hex.replace(/^0x/, ""));
+  } catch {
+    return "Malformed sponsored transaction";
+  }
+
+  if (tx.auth.authType !== AuthType.Sponsored) {
+    return "Transaction is not sponsored";
+  }
+  if (String(tx.chainId) !== requirements.network.split(":")[1]) {
+    return "Transaction is for another network";
+  }
+  try {
+    tx.verifyOrigin();
+  } catch {
+    return "Invalid origin signature";
+  }
+
+  const call = tx.payload;
+  if (call.payloadType !== PayloadType.ContractCall) {
+    return "Transaction is not a contract call";
+  }
+  const { contractAddress, contractName } = requirements.extra;
+  const contract = `${addressToString(call.contractAddress)}.${call.contractName.content}`;
+  if (contract !== `${contractAddress}.${contractName}`) {
+    return `Wrong contract: ${contract}`;
+  }
+
+  const fn = call.functionName.content;
+  const curve = requirements.scheme === "curve";
+  const expectedFns = curve ? ["pay-via-curve"] : ["pay-stx", "pay-sip010"];
+  if (!expectedFns.includes(fn)) {
+    return `Wrong function: ${fn}`;
+  }
+
+  const functionArgs = call.functionArgs.map((cv, i) => ({
+    name: CALL_ARG_NAMES[fn][i],
+    hex: cvToHex(cv),
+  }));
+  const args = curve
+    ? decodeCurveCallArgs(functionArgs)
+    : decodePaymentCallArgs(functionArgs);
+  if (!args || functionArgs.length !== CALL_ARG_NAMES[fn].length) {
+    return "Malformed payment arguments";
+  }
+  // The arguments must already satisfy the requirements: the sponsor pays
+  // the fee whether or not the payment is good enough
+  const mismatch = checkUnsettledCall(fn, args, nonce, requirements);
+  if (mismatch) return mismatch;
+  const paid = "recipient" in args ? args.amount : args.stxAmount;
+
+  // Deny mode, with the payer sending exactly the amount paid
+  if (tx.postConditionMode !== PostConditionMode.Deny) {
+    return "Post-condition mode must be deny";
+  }
+  const payer = originAddress(tx);
+  const token = requirements.asset === "STX" ? null : `${requirements.asset}::`;
+  const pinned = tx.postConditions.values
+    .map(wireToPostCondition)
+    .some(
+      (pc) =>
+        (pc.address === "origin" || pc.address === payer) &&
+        pc.condition === "eq" &&
+        BigInt(pc.amount ?? -1) === paid &&
+        (token === null
+          ? pc.type === "stx-postcondition"
+          : pc.type === "ft-postcondition" && pc.asset.startsWith(token))
+    );
+  if (!pinned) {
+    return "Post-conditions must pin the payer's outflow to the amount paid";
+  }
+
+  return { transaction: tx, payer, functionName: fn, args };
+}
+
+/**
+ * Check the chain state a sponsored payment depends on, so the sponsor
+ * doesn't pay for a call that is sure to abort: the payment nonce must be
+ * unused, the transaction's nonce must be the payer's next one, and the
+ * payer must hold the amount in the asset paid. Returns the reason it
+ * can't be sponsored, or null.
+ */
+export async function checkSponsorable(
+  chain: StacksChainProvider,
+  payment: SponsoredPayment,
+  nonce: string,
+  requirements: PaymentRequirements
+): Promise<string | null> {
+  const { contractAddress, contractName } = requirements.extra;
+  const read = await readReceipt(
+    chain,
+    contractAddress,
+    contractName,
+    nonce.replace(/^0x/, "")
+  );
+  if (typeof read === "string") return read;
+  if (unwrapOptional(decodeCV(read.result)) !== null) {
+    return "Nonce already used";
+  }
+
+  const expected = await chain.getAccountNonce(payment.payer);
+  const txNonce = payment.transaction.auth.spendingCondition.nonce;
+  if (txNonce !== expected) {
+    return `Wrong transaction nonce: ${txNonce}, payer's next is ${expected}`;
+  }
+
+  const { args } = payment;
+  const paid = "recipient" in args ? args.amount : args.stxAmount;
+  const balance =
+    "recipient" in args && args.token
+      ? asBigInt(
+          unwrapOk(
+            decodeCV(
+              await chain.callReadOnly(args.token, "get-balance", [
+                encodePrincipal(payment.payer),
+              ])
+            )
+          )
+        )
+      : await chain.getStxBalance(payment.payer);
+  if (balance < paid) {
+    return `Insufficient balance: ${balance}, required ${paid}`;
+  }
+  return null;
+}
+
+// Highest nonce each sponsor has broadcast with, so settlements don't reuse
+// one the chain hasn't seen yet
+const sponsorNonces = new Map<string, bigint>();
+// Tail of each sponsor's queue of nonce picks and broadcasts
+const sponsorQueues = new Map<string, Promise<unknown>>();
+
+async function nextSponsorNonce(
+  chain: StacksChainProvider,
+  sponsor: string
+): Promise<bigint> {
+  const next = await chain.getAccountNonce(sponsor);
+  const used = sponsorNonces.get(sponsor);
+  return used !== undefined && used >= next ? used + 1n : next;
+}
+
+/**
+ * Pick the sponsor's next nonce and broadcast with it, one settlement per
+ * sponsor at a time so concurrent ones can't pick the same nonce. A
+ * rejected broadcast leaves its nonce for the next settlement.
+ */
+function broadcastAsSponsor(
+  chain: StacksChainProvider,
+  sponsor: string,
+  send: (sponsorNonce: bigint) => Promise<{ txId: string } | string>
+): Promise<{ txId: string } | string> {
+  const run = (sponsorQueues.get(sponsor) ?? Promise.resolve()).then(async () => {
+    const sponsorNonce = await nextSponsorNonce(chain, sponsor);
+    const broadcast = await send(sponsorNonce);
+    if (typeof broadcast !== "string") sponsorNonces.set(sponsor, sponsorNonce);
+    return broadcast;
+  });
+  const tail = run.catch(() => undefined);
+  sponsorQueues.set(sponsor, tail);
+  tail.then(() => {
+    if (sponsorQueues.get(sponsor) === tail) sponsorQueues.delete(sponsor);
+  });
+  return run;
+}
+
+/**
+ * Settle a sponsored payment: validate the payer's transaction and the
+ * chain state it needs (see checkSponsorable), sign it as `config.sponsor`,
+ * broadcast it and wait for confirmation. Returns the
+ * payload with its `txId` filled in (ready for verifyPayment), or the
+ * reason settlement failed.
+ */
+export async function settleSponsoredPayment(
+  config: X402ServerConfig,
+  payload: PaymentPayload,
+  requirements: PaymentRequirements
+): Promise<PaymentPayload | string> {
+  const sponsor: SponsorConfig | undefined = config.sponsor;
+  if (!sponsor) return "Sponsored payments are not accepted";
+  if (!payload.payload.transaction) return "Missing sponsored transaction";
+
+  const checked = checkSponsoredTransaction(
+    payload.payload.transaction,
+    payload.payload.nonce,
+    requirements
+  );
+  if (typeof checked === "string") return checked;
+
+  const chain = chainFor(config);
+  const network = config.network === STACKS_MAINNET ? "mainnet" : "testnet";
+  const sponsorAddress = privateKeyToAddress(sponsor.privateKey, network);
+
+  try {
+    const unsponsorable = await checkSponsorable(
+      chain,
+      checked,
+      payload.payload.nonce,
+      requirements
+    );
+    if (unsponsorable) return unsponsorable;
+
+    const broadcast = await broadcastAsSponsor(
+      chain,
+      sponsorAddress,
+      async (sponsorNonce) => {
+        const signed = await sponsorTransaction({
+          transaction: checked.transaction,
+          sponsorPrivateKey: sponsor.privateKey,
+          fee: sponsor.fee ?? DEFAULT_SPONSOR_FEE,
+          sponsorNonce,
+          network,
+        });
+        return chain.broadcast(signed.serializeBytes());
+      }
+    );
+    if (typeof broadcast === "string") return broadcast;
+
+    const confirmed = await waitForConfirmation(
+      broadcast.txId,
+      chain,
+      sponsor.confirmationTimeout || 120_000,
+      sponsor.pollInterval || 3_000
+    );
+    if (!confirmed) {
+      return `Sponsored transaction ${broadcast.txId} failed or timed out`;
+    }
+
+    return { ...payload, payload: { ...payload.payload, txId: broadcast.txId } };
+  } catch (error) {
+    return `Sponsorship error: ${error}`;
+  }
+}
+
 // ============================================================================
 // HTTP HELPERS
 // ============================================================================
@@ -199,9 +1110,7 @@ export async function verifyPayment(
 export function create402Response(
   config: X402ServerConfig,
   request: { url: string },
-  options: {
-    amount: string | number | bigint;
-    asset?: string;
+  options: PaymentOptions & {
     description?: string;
     mimeType?: string;
   }
@@ -216,10 +1125,7 @@ export function create402Response(
     mimeType: options.mimeType || "application/json",
   };
 
-  const paymentRequired = buildPaymentRequired(config, resource, {
-    amount: options.amount,
-    asset: options.asset,
-  });
+  const paymentRequired = buildPaymentRequired(config, resource, options);
 
   const encoded = Buffer.from(JSON.stringify(paymentRequired)).toString(
     "base64"
@@ -238,8 +1144,26 @@ export function create402Response(
   };
 }
 
+/** Whether a decoded header has the fields verification reads */
+function isPaymentPayload(value: unknown): value is PaymentPayload {
+  const payload = value as Partial<PaymentPayload> | null;
+  const proof = payload?.payload;
+  return (
+    typeof payload === "object" &&
+    payload !== null &&
+    (payload.accepted === undefined ||
+      (typeof payload.accepted === "object" && payload.accepted !== null)) &&
+    typeof proof === "object" &&
+    proof !== null &&
+    typeof proof.nonce === "string" &&
+    /^(0x)?[0-9a-fA-F]+$/.test(proof.nonce) &&
+    (typeof proof.txId === "string" || typeof proof.transaction === "string")
+  );
+}
+
 /**
- * Extract and decode payment payload from request headers
+ * Extract and decode payment payload from request headers. A header that
+ * doesn't decode to a payload counts as no payment.
  */
 export function extractPaymentPayload(
   headers: Record<string, string | undefined>
@@ -251,17 +1175,114 @@ export function extractPaymentPayload(
   if (!raw) return null;
 
   try {
-    const decoded = Buffer.from(raw, "base64").toString("utf-8");
-    return JSON.parse(decoded) as PaymentPayload;
+    const decoded: unknown = JSON.parse(
+      Buffer.from(raw, "base64").toString("utf-8")
+    );
+    return isPaymentPayload(decoded) ? decoded : null;
   } catch {
     return null;
   }
 }
 
+/**
+ * Describe a verified payment as a SettleResponse: the transaction, the
+ * network it settled on, and what the on-chain receipt recorded.
+ */
+export function buildSettleResponse(
+  payload: PaymentPayload,
+  requirements: PaymentRequirements,
+  verification: VerifyResponse
+): SettleResponse {
+  return {
+    success: true,
+    transaction: payload.payload.txId ?? "",
+    network: requirements.network,
+    payer: verification.payer,
+    block: verification.block,
+    fee: verification.fee,
+    pending: verification.pending,
+  };
+}
+
+/**
+ * Encode a SettleResponse for the PAYMENT-RESPONSE header
+ */
+export function encodeSettleResponse(settlement: SettleResponse): string {
+  return Buffer.from(JSON.stringify(settlement)).toString("base64");
+}
+
 // ============================================================================
 // MIDDLEWARE PATTERN
 // ============================================================================
 
+/** Pricing and redemption options for one gated route */
+export type X402RouteOptions = PaymentOptions & {
+  description?: string;
+  /** How often one proof may unlock this resource (default: once) */
+  redemption?: RedemptionPolicy;
+  /**
+   * Id proofs are redeemed against, e.g. "premium-feed" (default: the
+   * normalized request path, see resourceKey)
+   */
+  resource?: string;
+};
+
+let defaultProofStore: PaymentProofStore | undefined;
+
+/**
+ * Verify a broadcast payment, or settle a sponsored one first, through the
+ * facilitator if configured. Returns the payload with its final txId.
+ */
+async function verifyOrSettle(
+  config: X402ServerConfig,
+  payload: PaymentPayload,
+  requirements: PaymentRequirements
+): Promise<{ verification: VerifyResponse; settled: PaymentPayload }> {
+  if (!payload.payload.transaction) {
+    const verification = config.facilitator
+      ? await config.facilitator.verify(payload, requirements)
+      : await verifyPayment(config, payload, requirements);
+    return { verification, settled: payload };
+  }
+
+  if (config.facilitator) {
+    const settlement = await config.facilitator.settle(payload, requirements);
+    return {
+      verification: settlement.success
+        ? {
+            isValid: true,
+            payer: settlement.payer,
+            block: settlement.block,
+            fee: settlement.fee,
+            pending: settlement.pending,
+          }
+        : { isValid: false, invalidReason: settlement.errorReason },
+      settled: {
+        ...payload,
+        payload: { ...payload.payload, txId: settlement.transaction },
+      },
+    };
+  }
+
+  const settled = await settleSponsoredPayment(config, payload, requirements);
+  if (typeof settled === "string") {
+    return {
+      verification: { isValid: false, invalidReason: settled },
+      settled: payload,
+    };
+  }
+  return {
+    verification: await verifyPayment(config, settled, requirements),
+    settled,
+  };
+}
+
+function proofStoreFor(config: X402ServerConfig): PaymentProofStore {
+  if (config.proofStore) return config.proofStore;
+  defaultProofStore ??= createMemoryProofStore();
+  return defaultProofStore;
+}
+
 /**
  * Wrap an async handler with x402 payment gating.
  *
@@ -275,8 +1296,21 @@ export function extractPaymentPayload(
  * if (!result.allowed) {
  *   // Return result.response (402 Payment Required)
  * }
- * // Proceed — result.payer is the verified wallet
+ * // Proceed — result.payer is the verified wallet; attach result.headers
+ * // (PAYMENT-RESPONSE) to the response
  * ```
+ *
+ * Pass `accepts: [...]` instead of a single amount to offer several payment
+ * options; the payment is verified against whichever one the client chose.
+ *
+ * Each proof is redeemed once per resource by default. Pass `redemption`
+ * to allow N uses or a TTL, and `config.proofStore` to persist redemptions.
+ * The resource is the route's `resource` id or its normalized path (under
+ * `config.origin`), so changing the Host header or the path's case doesn't
+ * make a proof redeemable again.
+ * Set `config.facilitator` to verify through a remote facilitator, and
+ * `config.sponsor` to accept signed, unbroadcast sponsored transactions.
+ * Set `config.paymentLog` to record each served payment for reporting.
  */
 export async function withX402(
   config: X402ServerConfig,
@@ -284,13 +1318,15 @@ export async function withX402(
     url: string;
     headers: Record<string, string | undefined>;
   },
-  options: {
-    amount: string | number | bigint;
-    asset?: string;
-    description?: string;
-  }
+  options: X402RouteOptions
 ): Promise<
-  | { allowed: true; payer: string; payload: PaymentPayload }
+  | {
+      allowed: true;
+      payer: string;
+      payload: PaymentPayload;
+      settlement: SettleResponse;
+      headers: Record<string, string>;
+    }
   | {
       allowed: false;
       response: {
@@ -311,8 +1347,35 @@ export async function withX402(
     };
   }
 
-  // Verify the payment
-  const verification = await verifyPayment(config, payload);
+  // Find the option the client paid with (or our only one) and verify the
+  // payment against our own requirements for it
+  const choices = listPaymentOptions(options).map((option) => ({
+    config: configForOption(config, option),
+    requirements: buildPaymentRequirements(config, option),
+  }));
+  const chosen =
+    choices.find((c) => matchesRequirement(c.requirements, payload.accepted)) ??
+    (choices.length === 1 ? choices[0] : undefined);
+
+  if (!chosen) {
+    return {
+      allowed: false,
+      response: {
+        status: 402,
+        headers: { "Content-Type": "application/json" },
+        body: {
+          error: "payment_invalid",
+          message: "Payment does not match any accepted option",
+        },
+      },
+    };
+  }
+
+  const { verification, settled } = await verifyOrSettle(
+    chosen.config,
+    payload,
+    chosen.requirements
+  );
 
   if (!verification.isValid) {
     return {
@@ -328,9 +1391,67 @@ export async function withX402(
     };
   }
 
+  // Redeem the proof so the same payment can't be replayed indefinitely
+  const resource = resourceKey(request.url, {
+    resource: options.resource,
+    origin: config.origin,
+  });
+  const redeemed = await proofStoreFor(config).redeem(
+    proofKey(settled.payload.nonce, resource),
+    options.redemption ?? {}
+  );
+
+  if (!redeemed) {
+    return {
+      allowed: false,
+      response: {
+        status: 402,
+        headers: { "Content-Type": "application/json" },
+        body: {
+          error: "payment_already_used",
+          message: "Payment proof has already been redeemed for this resource",
+        },
+      },
+    };
+  }
+
+  const settlement = buildSettleResponse(
+    settled,
+    chosen.requirements,
+    verification
+  );
+
+  if (config.paymentLog) {
+    try {
+      await config.paymentLog.record({
+        txId: settlement.transaction,
+        payer: verification.payer!,
+        recipient: chosen.requirements.payTo,
+        asset: chosen.requirements.asset,
+        amount: BigInt(verification.amount ?? chosen.requirements.amount),
+        ...(verification.fee !== undefined && { fee: BigInt(verification.fee) }),
+        nonce: settled.payload.nonce.replace(/^0x/, "").toLowerCase(),
+        time: Date.now(),
+        resource,
+        scheme: chosen.requirements.scheme,
+        network: chosen.requirements.network,
+        ...(verification.block !== undefined && {
+          blockHeight: Number(verification.block),
+        }),
+        ...(verification.pending && { pending: true }),
+      });
+    } catch {
+      // The payment is already redeemed; a logging failure mustn't refuse it
+    }
+  }
+
   return {
     allowed: true,
     payer: verification.payer!,
-    payload,
+    payload: settled,
+    settlement,
+    headers: {
+      [HEADER_PAYMENT_RESPONSE]: encodeSettleResponse(settlement),
+    },
   };
 }
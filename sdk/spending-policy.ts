@@ -0,0 +1,247 @@
+/**
+ * x402 Stacks SDK — Client Spending Policy
+ *
+ * Unattended agents must not pay whatever a server asks. A spending policy
+ * caps each payment and the total spent per host and overall within a
+ * rolling window, restricts who can be paid, and escalates large payments
+ * to a human (or another agent) before any transaction is signed.
+ *
+ * Amounts are atomic units keyed by asset ("STX" or a SIP-010 contract
+ * principal); an asset without an entry is not limited by that rule. Once
+ * any amount rule is set, an asset none of them lists is refused, so a
+ * server can't slip past the caps by asking for another token.
+ */
+
+import type { PaymentRequirements } from "./types.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Atomic-unit amounts per asset */
+export type AssetAmounts = Record<string, string | number | bigint>;
+
+/** A payment awaiting approval */
+export interface PaymentApprovalRequest {
+  url: string;
+  host: string;
+  requirements: PaymentRequirements;
+  amount: bigint;
+  /** Already spent on this host within the window, in this asset */
+  spentOnHost: bigint;
+  /** Already spent overall within the window, in this asset */
+  spentTotal: bigint;
+}
+
+export interface SpendingPolicy {
+  /** Largest single payment */
+  maxPerRequest?: AssetAmounts;
+  /** Budget per host within the window */
+  perHostBudget?: AssetAmounts;
+  /** Budget across all hosts within the window */
+  budget?: AssetAmounts;
+  /** Rolling budget window (seconds, default 86400) */
+  windowSeconds?: number;
+  /** If set, only these recipients may be paid */
+  allowPayTo?: string[];
+  denyPayTo?: string[];
+  /**
+   * If set, only these contracts may be used — both the payment contract
+   * (`extra.contractAddress.contractName`) and, for SIP-010, the token
+   */
+  allowContracts?: string[];
+  denyContracts?: string[];
+  /** Payments above this need `onApprovalRequired` to return true */
+  approvalThreshold?: AssetAmounts;
+  onApprovalRequired?: (
+    request: PaymentApprovalRequest
+  ) => boolean | Promise<boolean>;
+}
+
+export type SpendingRefusal =
+  | "asset_not_allowed"
+  | "payee_not_allowed"
+  | "contract_not_allowed"
+  | "over_request_max"
+  | "over_host_budget"
+  | "over_budget"
+  | "approval_denied";
+
+/** Thrown by wrapFetchWithPayment when the policy refuses a payment */
+export class SpendingPolicyError extends Error {
+  readonly name = "SpendingPolicyError";
+
+  constructor(
+    readonly reason: SpendingRefusal,
+    message: string,
+    readonly url: string,
+    readonly requirements: PaymentRequirements
+  ) {
+    super(message);
+  }
+}
+
+/** A spend counted against the budgets until released */
+export interface SpendReservation {
+  /** Undo the reservation (the payment was never made) */
+  release(): void;
+}
+
+export interface SpendingGuard {
+  /**
+   * Check a payment against the policy and reserve it against the budgets.
+   * Throws SpendingPolicyError if refused; nothing is reserved in that case.
+   */
+  authorize(
+    url: string,
+    requirements: PaymentRequirements,
+    now?: number
+  ): Promise<SpendReservation>;
+}
+
+// ============================================================================
+// GUARD
+// ============================================================================
+
+interface SpendEntry {
+  host: string;
+  asset: string;
+  amount: bigint;
+  at: number; // Unix ms
+}
+
+// Rules that limit amounts; an asset must appear in one of them
+const AMOUNT_RULES = [
+  "maxPerRequest",
+  "perHostBudget",
+  "budget",
+  "approvalThreshold",
+] as const;
+
+function limitFor(amounts: AssetAmounts | undefined, asset: string) {
+  const limit = amounts?.[asset];
+  return limit === undefined ? undefined : BigInt(limit);
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Create an in-memory guard enforcing `policy`. Budgets are tracked for the
+ * lifetime of the guard, so share one guard across all fetch wrappers that
+ * draw on the same budget.
+ */
+export function createSpendingGuard(policy: SpendingPolicy): SpendingGuard {
+  const windowMs = (policy.windowSeconds ?? 86_400) * 1000;
+  let entries: SpendEntry[] = [];
+
+  function spent(asset: string, now: number, host?: string): bigint {
+    let total = 0n;
+    for (const e of entries) {
+      if (now - e.at >= windowMs || e.asset !== asset) continue;
+      if (host === undefined || e.host === host) total += e.amount;
+    }
+    return total;
+  }
+
+  return {
+    async authorize(url, requirements, now = Date.now()) {
+      const refuse = (reason: SpendingRefusal, message: string) =>
+        new SpendingPolicyError(reason, message, url, requirements);
+
+      const { payTo, asset } = requirements;
+      const rules = AMOUNT_RULES.filter((rule) => policy[rule] !== undefined);
+      if (rules.length && !rules.some((rule) => policy[rule]![asset] !== undefined)) {
+        throw refuse("asset_not_allowed", `Asset has no limit in the policy: ${asset}`);
+      }
+
+      if (
+        policy.denyPayTo?.includes(payTo) ||
+        (policy.allowPayTo && !policy.allowPayTo.includes(payTo))
+      ) {
+        throw refuse("payee_not_allowed", `Recipient not allowed: ${payTo}`);
+      }
+
+      const { contractAddress, contractName } = requirements.extra;
+      const contracts = [`${contractAddress}.${contractName}`];
+      if (asset !== "STX") contracts.push(asset);
+      for (const contract of contracts) {
+        if (
+          policy.denyContracts?.includes(contract) ||
+          (policy.allowContracts && !policy.allowContracts.includes(contract))
+        ) {
+          throw refuse("contract_not_allowed", `Contract not allowed: ${contract}`);
+        }
+      }
+
+      const amount = BigInt(requirements.amount);
+      const maxPerRequest = limitFor(policy.maxPerRequest, asset);
+      if (maxPerRequest !== undefined && amount > maxPerRequest) {
+        throw refuse(
+          "over_request_max",
+          `Payment of ${amount} ${asset} exceeds per-request max ${maxPerRequest}`
+        );
+      }
+
+      entries = entries.filter((e) => now - e.at < windowMs);
+      const host = hostOf(url);
+      const spentOnHost = spent(asset, now, host);
+      const spentTotal = spent(asset, now);
+
+      const hostBudget = limitFor(policy.perHostBudget, asset);
+      if (hostBudget !== undefined && spentOnHost + amount > hostBudget) {
+        throw refuse(
+          "over_host_budget",
+          `Payment of ${amount} ${asset} exceeds remaining budget for ${host} (${hostBudget - spentOnHost})`
+        );
+      }
+
+      const budget = limitFor(policy.budget, asset);
+      if (budget !== undefined && spentTotal + amount > budget) {
+        throw refuse(
+          "over_budget",
+          `Payment of ${amount} ${asset} exceeds remaining budget (${budget - spentTotal})`
+        );
+      }
+
+      // Reserve before asking for approval, so concurrent requests can't
+      // both fit into the same remaining budget
+      const entry: SpendEntry = { host, asset, amount, at: now };
+      entries.push(entry);
+      const reservation: SpendReservation = {
+        release() {
+          entries = entries.filter((e) => e !== entry);
+        },
+      };
+
+      const threshold = limitFor(policy.approvalThreshold, asset);
+      if (threshold !== undefined && amount > threshold) {
+        const approved = await Promise.resolve(
+          policy.onApprovalRequired?.({
+            url,
+            host,
+            requirements,
+            amount,
+            spentOnHost,
+            spentTotal,
+          }) ?? false
+        ).catch(() => false);
+
+        if (!approved) {
+          reservation.release();
+          throw refuse(
+            "approval_denied",
+            `Payment of ${amount} ${asset} to ${host} was not approved`
+          );
+        }
+      }
+
+      return reservation;
+    },
+  };
+}
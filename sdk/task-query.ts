@@ -0,0 +1,256 @@
+/**
+ * AI Agent Protocol — Task Queries
+ *
+ * task-board stores tasks in a map keyed by sequential id (0 through
+ * `total-tasks` - 1) and has no way to enumerate them. This module reads
+ * ids in concurrent batches with bounded parallelism and filters the
+ * decoded TaskRecords client-side, so agents can find open work, a
+ * poster's tasks or an agent's assignments.
+ *
+ * createTaskCache keeps the results between calls: each refresh reads
+ * only tasks posted since, plus cached tasks that haven't reached a final
+ * status.
+ */
+
+import {
+  type AgentSDKConfig,
+  type TaskRecord,
+  type TaskStatus,
+  TASK_CANCELLED,
+  TASK_COMPLETED,
+  TASK_EXPIRED,
+  TASK_OPEN,
+} from "./agent-types.js";
+import { getTask, getTaskStats, mapConcurrent } from "./agent-reader.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TaskEntry {
+  id: bigint;
+  task: TaskRecord;
+}
+
+/** Every set field must match */
+export interface TaskFilter {
+  status?: TaskStatus | TaskStatus[];
+  poster?: string;
+  /** Assigned agent */
+  assignedTo?: string;
+  /** Inclusive bounty bounds, in microSTX */
+  minBounty?: bigint;
+  maxBounty?: bigint;
+  /** Inclusive deadline bounds, as block heights */
+  deadlineFrom?: bigint;
+  deadlineTo?: bigint;
+}
+
+export interface TaskQueryOptions {
+  /** Most read-only calls in flight at once (default 8) */
+  concurrency?: number;
+  /** Stop after this many matches */
+  limit?: number;
+  /** Scan from the newest task down instead of from id 0 */
+  newestFirst?: boolean;
+}
+
+const DEFAULT_CONCURRENCY = 8;
+
+// Tasks in these states can't change any more
+const FINAL_STATUSES: ReadonlySet<TaskStatus> = new Set([
+  TASK_COMPLETED,
+  TASK_CANCELLED,
+  TASK_EXPIRED,
+]);
+
+export function isTaskFinal(status: TaskStatus): boolean {
+  return FINAL_STATUSES.has(status);
+}
+
+export function matchesTaskFilter(task: TaskRecord, filter: TaskFilter): boolean {
+  if (filter.status !== undefined) {
+    const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+    if (!statuses.includes(task.status)) return false;
+  }
+  if (filter.poster !== undefined && task.poster !== filter.poster) return false;
+  if (filter.assignedTo !== undefined && task.assignedTo !== filter.assignedTo) {
+    return false;
+  }
+  if (filter.minBounty !== undefined && task.bounty < filter.minBounty) return false;
+  if (filter.maxBounty !== undefined && task.bounty > filter.maxBounty) return false;
+  if (filter.deadlineFrom !== undefined && task.deadline < filter.deadlineFrom) {
+    return false;
+  }
+  if (filter.deadlineTo !== undefined && task.deadline > filter.deadlineTo) {
+    return false;
+  }
+  return true;
+}
+
+// ============================================================================
+// BATCH READS
+// ============================================================================
+
+/**
+ * Read tasks by id, at most `concurrency` at a time. Results keep the
+ * order of `ids`; ids with no task are left out.
+ */
+export async function getTasks(
+  config: AgentSDKConfig,
+  ids: bigint[],
+  concurrency = DEFAULT_CONCURRENCY
+): Promise<TaskEntry[]> {
+  const tasks = await mapConcurrent(ids, concurrency, (id) => getTask(config, id));
+  const entries: TaskEntry[] = [];
+  tasks.forEach((task, index) => {
+    if (task) entries.push({ id: ids[index], task });
+  });
+  return entries;
+}
+
+function idRange(from: bigint, to: bigint, newestFirst: boolean): bigint[] {
+  const ids: bigint[] = [];
+  for (let id = from; id < to; id++) ids.push(id);
+  return newestFirst ? ids.reverse() : ids;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Scan every task and return those matching `filter`, in id order (or
+ * newest first). Reads one batch of `concurrency` ids at a time, so a
+ * `limit` stops the scan early.
+ */
+export async function listTasks(
+  config: AgentSDKConfig,
+  filter: TaskFilter = {},
+  options: TaskQueryOptions = {}
+): Promise<TaskEntry[]> {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const { totalTasks } = await getTaskStats(config);
+  const ids = idRange(0n, totalTasks, options.newestFirst ?? false);
+
+  const matches: TaskEntry[] = [];
+  for (let start = 0; start < ids.length; start += concurrency) {
+    const batch = await getTasks(
+      config,
+      ids.slice(start, start + concurrency),
+      concurrency
+    );
+    for (const entry of batch) {
+      if (!matchesTaskFilter(entry.task, filter)) continue;
+      matches.push(entry);
+      if (options.limit !== undefined && matches.length >= options.limit) {
+        return matches;
+      }
+    }
+  }
+  return matches;
+}
+
+/** Tasks still open for bids */
+export async function listOpenTasks(
+  config: AgentSDKConfig,
+  filter: Omit<TaskFilter, "status"> = {},
+  options?: TaskQueryOptions
+): Promise<TaskEntry[]> {
+  return listTasks(config, { ...filter, status: TASK_OPEN }, options);
+}
+
+export async function listTasksByPoster(
+  config: AgentSDKConfig,
+  poster: string,
+  filter: Omit<TaskFilter, "poster"> = {},
+  options?: TaskQueryOptions
+): Promise<TaskEntry[]> {
+  return listTasks(config, { ...filter, poster }, options);
+}
+
+/** Tasks assigned to `agent`, whatever their status */
+export async function listTasksByAgent(
+  config: AgentSDKConfig,
+  agent: string,
+  filter: Omit<TaskFilter, "assignedTo"> = {},
+  options?: TaskQueryOptions
+): Promise<TaskEntry[]> {
+  return listTasks(config, { ...filter, assignedTo: agent }, options);
+}
+
+// ============================================================================
+// INCREMENTAL CACHE
+// ============================================================================
+
+export interface TaskCache {
+  /**
+   * Read tasks posted since the last refresh and re-read cached tasks that
+   * can still change. Resolves to the tasks that are new or changed.
+   */
+  refresh(): Promise<TaskEntry[]>;
+  /** Cached tasks matching `filter`, in id order */
+  query(filter?: TaskFilter): TaskEntry[];
+  get(id: bigint): TaskRecord | null;
+}
+
+/**
+ * Task list kept up to date incrementally. Call refresh() before querying,
+ * e.g. once per block; the first refresh reads every task.
+ */
+export function createTaskCache(
+  config: AgentSDKConfig,
+  options: { concurrency?: number } = {}
+): TaskCache {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const tasks = new Map<bigint, TaskRecord>();
+  let known = 0n;
+  let running: Promise<TaskEntry[]> | null = null;
+
+  async function refreshOnce(): Promise<TaskEntry[]> {
+    const { totalTasks } = await getTaskStats(config);
+    const live = [...tasks]
+      .filter(([, task]) => !isTaskFinal(task.status))
+      .map(([id]) => id);
+    const entries = await getTasks(
+      config,
+      [...live, ...idRange(known, totalTasks, false)],
+      concurrency
+    );
+    // An id that read as missing (say, from a node behind the stats) is
+    // read again next time, with every id after it
+    const fetched = new Set(entries.map((entry) => entry.id));
+    while (known < totalTasks && fetched.has(known)) known++;
+
+    const changed: TaskEntry[] = [];
+    for (const entry of entries) {
+      const cached = tasks.get(entry.id);
+      tasks.set(entry.id, entry.task);
+      if (!cached || !sameTask(cached, entry.task)) changed.push(entry);
+    }
+    return changed.sort((a, b) => (a.id < b.id ? -1 : 1));
+  }
+
+  return {
+    refresh() {
+      // One refresh at a time: a caller arriving mid-refresh shares its result
+      running ??= refreshOnce().finally(() => {
+        running = null;
+      });
+      return running;
+    },
+    query(filter = {}) {
+      return [...tasks]
+        .sort(([a], [b]) => (a < b ? -1 : 1))
+        .filter(([, task]) => matchesTaskFilter(task, filter))
+        .map(([id, task]) => ({ id, task }));
+    },
+    get(id) {
+      return tasks.get(id) ?? null;
+    },
+  };
+}
+
+function sameTask(a: TaskRecord, b: TaskRecord): boolean {
+  return (Object.keys(a) as Array<keyof TaskRecord>).every((key) => a[key] === b[key]);
+}
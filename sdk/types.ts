@@ -5,6 +5,12 @@
  * adapted for Stacks blockchain (STX + SIP-010 tokens).
  */
 
+import type { FailedPayment, PayerBlocklist } from "./acceptance.js";
+import type { StacksChainProvider } from "./chain.js";
+import type { FacilitatorClient } from "./facilitator.js";
+import type { PaymentProofStore } from "./proof-store.js";
+import type { PaymentLog } from "./reporting.js";
+
 // CAIP-2 network identifiers for Stacks
 export const STACKS_MAINNET = "stacks:1" as const;
 export const STACKS_TESTNET = "stacks:2147483648" as const;
@@ -22,17 +28,29 @@ export interface ResourceInfo {
   mimeType: string;
 }
 
+/**
+ * Payment schemes:
+ * - `exact`: pay-stx / pay-sip010 on x402-payments, straight to `payTo`
+ * - `curve`: pay-via-curve on x402-curve-router, buying the agent's
+ *   bonding-curve tokens with the payment
+ */
+export type PaymentScheme = "exact" | "curve";
+
 /** What the server accepts as payment */
 export interface PaymentRequirements {
-  scheme: "exact";
+  scheme: PaymentScheme;
   network: StacksNetwork;
   asset: "STX" | string; // "STX" for native, or SIP-010 contract principal
   amount: string; // Atomic units as string (microSTX for STX)
   payTo: string; // Recipient Stacks address
   maxTimeoutSeconds: number;
   extra: {
-    contractAddress: string; // x402-payments contract address
-    contractName: string; // "x402-payments"
+    contractAddress: string; // x402-payments (or x402-curve-router) contract address
+    contractName: string; // "x402-payments" or "x402-curve-router"
+    tokenName?: string; // SIP-010 asset name (define-fungible-token), for post-conditions
+    curveId?: string; // curve scheme: agent-launchpad curve id
+    minTokensOut?: string; // curve scheme: fewest curve tokens the payer must receive
+    sponsored?: boolean; // Server sponsors (pays the fee for) signed, unbroadcast txs
   };
 }
 
@@ -50,8 +68,9 @@ export interface PaymentPayload {
   resource: ResourceInfo;
   accepted: PaymentRequirements;
   payload: {
-    txId: string; // Stacks transaction ID
+    txId?: string; // Stacks transaction ID (absent until a sponsored tx is broadcast)
     nonce: string; // Hex-encoded 16-byte nonce used in payment
+    transaction?: string; // Sponsored settlement: signed, unbroadcast tx (hex)
   };
 }
 
@@ -62,14 +81,40 @@ export interface VerifyResponse {
   payer?: string;
   amount?: string;
   recipient?: string;
+  block?: string; // Block height recorded in the on-chain receipt
+  fee?: string; // Protocol fee taken from the payment
+  pending?: boolean; // Accepted from the mempool, not yet executed
 }
 
-/** Settlement result */
+/** Settlement result, sent base64-encoded in PAYMENT-RESPONSE */
 export interface SettleResponse {
   success: boolean;
   transaction: string;
   network: StacksNetwork;
   payer?: string;
+  block?: string; // Block height recorded in the on-chain receipt
+  fee?: string; // Protocol fee taken from the payment
+  pending?: boolean; // Accepted from the mempool, not yet executed
+  errorReason?: string; // Why settlement failed (success: false)
+}
+
+/** Body of a facilitator /verify or /settle request */
+export interface FacilitatorRequest {
+  x402Version: 2;
+  paymentPayload: PaymentPayload;
+  paymentRequirements: PaymentRequirements;
+}
+
+/** One scheme/network pair a facilitator can verify */
+export interface SupportedKind {
+  x402Version: 2;
+  scheme: PaymentScheme;
+  network: StacksNetwork;
+}
+
+/** Facilitator /supported response */
+export interface SupportedResponse {
+  kinds: SupportedKind[];
 }
 
 // ============================================================================
@@ -85,23 +130,157 @@ export interface PaymentReceipt {
   isStx: boolean;
 }
 
+/** x402-curve-router receipt for a `pay-via-curve` payment */
+export interface CurvePaymentReceipt {
+  payer: string;
+  curveId: bigint;
+  stxAmount: bigint;
+  tokensReceived: bigint;
+  fee: bigint;
+  block: bigint;
+}
+
+/** Arguments of a `pay-stx` / `pay-sip010` call, decoded from the tx */
+export interface PaymentCallArgs {
+  token?: string; // SIP-010 contract principal (pay-sip010 only)
+  recipient: string;
+  amount: bigint;
+  nonce: string; // Lowercase hex, no 0x prefix
+}
+
+/** Arguments of a `pay-via-curve` call, decoded from the tx */
+export interface CurveCallArgs {
+  curveId: bigint;
+  stxAmount: bigint;
+  nonce: string; // Lowercase hex, no 0x prefix
+  minTokensOut: bigint;
+}
+
 // ============================================================================
 // SDK Configuration
 // ============================================================================
 
+/**
+ * How old a payment receipt may be before it no longer unlocks content.
+ *
+ * - `contract`: the contract's `is-payment-fresh` (PAYMENT-LIFETIME, 144 blocks)
+ * - `blocks`: receipt block vs. chain tip
+ * - `seconds`: receipt block timestamp vs. wall clock
+ *   (default: the requirement's `maxTimeoutSeconds`)
+ * - `off`: no freshness check
+ */
+export type FreshnessPolicy =
+  | { mode: "contract" }
+  | { mode: "blocks"; maxAgeBlocks: number }
+  | { mode: "seconds"; maxAgeSeconds?: number }
+  | { mode: "off" };
+
+/**
+ * How settled a payment transaction must be before it unlocks content.
+ *
+ * - `confirmed`: executed in an anchored block (default)
+ * - `microblock`: executed, in an anchored block or a microblock
+ * - `mempool`: also accept pending transactions for requirements up to
+ *   `maxAmount`. Each is re-checked in the background; payers whose tx
+ *   aborts or never confirms are added to `blocklist` and refused.
+ */
+export type AcceptancePolicy =
+  | { mode: "confirmed" }
+  | { mode: "microblock" }
+  | {
+      mode: "mempool";
+      /** Highest required amount (atomic units) accepted while pending */
+      maxAmount: string | number | bigint;
+      /** Refused payers (default: shared in-memory blocklist) */
+      blocklist?: PayerBlocklist;
+      /** Called when an accepted pending payment fails */
+      onPaymentFailed?: (failure: FailedPayment) => void;
+      /** How long to re-check a pending payment, in ms (default 10 min) */
+      recheckTimeout?: number;
+      /** Re-check poll interval, in ms (default 10s) */
+      pollInterval?: number;
+    };
+
 export interface X402ServerConfig {
   /** x402-payments contract address (deployer principal) */
   contractAddress: string;
   /** Contract name (default: "x402-payments") */
   contractName?: string;
-  /** Stacks API URL */
+  /** Stacks API URL (default: Hiro for `network`) */
   apiUrl?: string;
+  /** Chain backend; replaces `apiUrl` (default: Hiro provider at `apiUrl`) */
+  chain?: StacksChainProvider;
   /** Network */
   network: StacksNetwork;
   /** Recipient address for payments */
   payTo: string;
+  /** Receipt freshness check (default: contract's is-payment-fresh) */
+  freshness?: FreshnessPolicy;
+  /** How settled a payment must be (default: confirmed) */
+  acceptance?: AcceptancePolicy;
+  /** Spent-proof store (default: shared in-memory LRU) */
+  proofStore?: PaymentProofStore;
+  /**
+   * Canonical origin of this server, e.g. "https://api.example.com". Prefixes
+   * redemption keys so servers sharing a proof store stay apart; the
+   * request's own origin is client-controlled and never used.
+   */
+  origin?: string;
+  /** Verify through a remote facilitator instead of the Stacks API */
+  facilitator?: FacilitatorClient;
+  /** Sponsor and broadcast payers' signed transactions (pays their fees) */
+  sponsor?: SponsorConfig;
+  /** Record each payment withX402 serves, for revenue reports */
+  paymentLog?: PaymentLog;
+}
+
+/** Account that sponsors payers' transactions */
+export interface SponsorConfig {
+  /** Sponsor private key (hex); this account pays the network fee */
+  privateKey: string;
+  /** Fee in microSTX paid per sponsored transaction (default 3000) */
+  fee?: bigint;
+  /** How long to wait for a sponsored tx to confirm, in ms (default 120s) */
+  confirmationTimeout?: number;
+  /** Poll interval while waiting, in ms (default 3s) */
+  pollInterval?: number;
+}
+
+/**
+ * One way to pay for a resource. A 402 response may advertise several
+ * (STX vs sBTC, mainnet vs testnet); the override fields replace the
+ * server config for this option only.
+ */
+export interface PaymentOption {
+  /** Payment scheme (default "exact") */
+  scheme?: PaymentScheme;
+  /** Amount in microSTX (or token atomic units) */
+  amount: string | number | bigint;
+  /** "STX" or SIP-010 contract principal (default "STX") */
+  asset?: string;
+  /** SIP-010 asset name inside the token contract (for client post-conditions) */
+  tokenName?: string;
+  /** Max time for payment completion (default 300s) */
+  maxTimeoutSeconds?: number;
+  /** curve scheme: the agent's agent-launchpad curve */
+  curveId?: string | number | bigint;
+  /** curve scheme: fewest curve tokens the payer must receive */
+  minTokensOut?: string | number | bigint;
+  network?: StacksNetwork;
+  contractAddress?: string;
+  /** Default "x402-payments", or "x402-curve-router" for the curve scheme */
+  contractName?: string;
+  payTo?: string;
+  /** Stacks API URL for verifying this option (default: Hiro for its network) */
+  apiUrl?: string;
+  /** Chain backend for verifying this option; replaces `apiUrl` */
+  chain?: StacksChainProvider;
 }
 
+/** A single payment option, or several for the client to choose from */
+export type PaymentOptions = PaymentOption | { accepts: PaymentOption[] };
+
+/** @deprecated Unused; configure clients with AutoPayConfig */
 export interface X402ClientConfig {
   /** Stacks API URL */
   apiUrl?: string;
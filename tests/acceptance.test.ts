@@ -0,0 +1,206 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Cl, cvToHex } from "@stacks/transactions";
+import {
+  type FailedPayment,
+  createMemoryPayerBlocklist,
+  recheckPendingPayment,
+} from "../sdk/acceptance.ts";
+import { waitForConfirmation } from "../sdk/client.ts";
+import { buildPaymentRequirements, verifyPayment } from "../sdk/server.ts";
+import {
+  STACKS_TESTNET,
+  type AcceptancePolicy,
+  type PaymentPayload,
+  type X402ServerConfig,
+} from "../sdk/types.ts";
+
+const PAYER = "ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC";
+const NONCE = "0c".repeat(16);
+
+const base: X402ServerConfig = {
+  contractAddress: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+  network: STACKS_TESTNET,
+  payTo: "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG",
+  apiUrl: "http://chain",
+  freshness: { mode: "off" },
+};
+const requirements = buildPaymentRequirements(base, { amount: "10000" });
+const payload: PaymentPayload = {
+  x402Version: 2,
+  resource: { url: "https://api.example.com/premium", description: "", mimeType: "" },
+  accepted: requirements,
+  payload: { txId: "0xfeed", nonce: NONCE },
+};
+
+// Stacks API whose payment tx status can change between calls; the receipt
+// exists only once the tx has executed
+function stubChain(tx: { tx_status: string; is_unanchored?: boolean }) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) => {
+      if (url.includes("/extended/v1/tx/")) {
+        return Response.json({
+          ...tx,
+          sender_address: PAYER,
+          contract_call: {
+            contract_id: `${base.contractAddress}.x402-payments`,
+            function_name: "pay-stx",
+            function_args: [
+              { name: "recipient", hex: cvToHex(Cl.principal(base.payTo)) },
+              { name: "amount", hex: cvToHex(Cl.uint(10_000)) },
+              { name: "nonce", hex: cvToHex(Cl.bufferFromHex(NONCE)) },
+            ],
+          },
+        });
+      }
+      const receipt = Cl.tuple({
+        payer: Cl.principal(PAYER),
+        recipient: Cl.principal(base.payTo),
+        amount: Cl.uint(10_000),
+        fee: Cl.uint(0),
+        block: Cl.uint(7),
+        "is-stx": Cl.bool(true),
+      });
+      return Response.json({
+        okay: true,
+        result: cvToHex(
+          tx.tx_status === "success" ? Cl.some(receipt) : Cl.none()
+        ),
+      });
+    })
+  );
+}
+
+function mempool(extra: Partial<AcceptancePolicy> = {}): X402ServerConfig {
+  return {
+    ...base,
+    acceptance: {
+      mode: "mempool",
+      maxAmount: 10_000n,
+      blocklist: createMemoryPayerBlocklist(),
+      pollInterval: 1,
+      ...extra,
+    } as AcceptancePolicy,
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("acceptance policy", () => {
+  it("requires an anchored block by default", async () => {
+    stubChain({ tx_status: "pending" });
+    expect(await verifyPayment(base, payload, requirements)).toMatchObject({
+      isValid: false,
+      invalidReason: "Transaction status: pending",
+    });
+
+    stubChain({ tx_status: "success", is_unanchored: true });
+    expect(await verifyPayment(base, payload, requirements)).toMatchObject({
+      isValid: false,
+      invalidReason: "Transaction is not yet in an anchored block",
+    });
+  });
+
+  it("accepts microblock transactions in microblock mode", async () => {
+    stubChain({ tx_status: "success", is_unanchored: true });
+    const config = { ...base, acceptance: { mode: "microblock" as const } };
+    expect(await verifyPayment(config, payload, requirements)).toMatchObject({
+      isValid: true,
+      payer: PAYER,
+      block: "7",
+    });
+  });
+
+  it("accepts pending payments up to the ceiling in mempool mode", async () => {
+    stubChain({ tx_status: "pending" });
+    const config = mempool({ recheckTimeout: 1 });
+    expect(await verifyPayment(config, payload, requirements)).toEqual({
+      isValid: true,
+      payer: PAYER,
+      amount: "10000",
+      recipient: base.payTo,
+      pending: true,
+    });
+
+    // Above the ceiling, the payment must confirm first
+    const pricier = buildPaymentRequirements(base, { amount: "10001" });
+    expect(await verifyPayment(config, payload, pricier)).toMatchObject({
+      isValid: false,
+      invalidReason: "Transaction status: pending",
+    });
+  });
+
+  it("refuses pending payments reusing a spent nonce", async () => {
+    stubChain({ tx_status: "pending" });
+    const fetchMock = vi.mocked(fetch);
+    const chain = fetchMock.getMockImplementation()!;
+    fetchMock.mockImplementation(async (url) =>
+      String(url).includes("verify-payment")
+        ? Response.json({
+            okay: true,
+            result: cvToHex(Cl.some(Cl.tuple({ block: Cl.uint(1) }))),
+          })
+        : chain(url)
+    );
+
+    expect(await verifyPayment(mempool(), payload, requirements)).toMatchObject({
+      isValid: false,
+      invalidReason: "Nonce already used",
+    });
+  });
+
+  it("blocks payers whose accepted pending payment aborts", async () => {
+    const tx = { tx_status: "pending" };
+    stubChain(tx);
+    let failed!: (failure: FailedPayment) => void;
+    const failure = new Promise<FailedPayment>((resolve) => (failed = resolve));
+    const config = mempool({ onPaymentFailed: failed, recheckTimeout: 60_000 });
+    // A txId no earlier test has left a re-check running for
+    const aborting = { ...payload, payload: { txId: "0xdead", nonce: NONCE } };
+
+    expect((await verifyPayment(config, aborting, requirements)).isValid).toBe(
+      true
+    );
+    tx.tx_status = "abort_by_response";
+    expect(await failure).toMatchObject({
+      txId: "0xdead",
+      payer: PAYER,
+      status: "abort_by_response",
+    });
+
+    // Even a confirmed payment from that payer is now refused
+    tx.tx_status = "success";
+    expect(await verifyPayment(config, payload, requirements)).toMatchObject({
+      isValid: false,
+      invalidReason: "Payer is blocked: an earlier mempool payment failed",
+    });
+  });
+
+  it("treats a payment that never leaves the mempool as failed", async () => {
+    stubChain({ tx_status: "pending" });
+    const blocklist = createMemoryPayerBlocklist();
+    const outcome = await recheckPendingPayment(
+      "http://chain",
+      "0xfeed",
+      PAYER,
+      requirements,
+      { blocklist, timeout: 5, pollInterval: 1 }
+    );
+    expect(outcome).toBe("failed");
+    expect(await blocklist.isBlocked(PAYER)).toBe(true);
+  });
+});
+
+describe("client skipConfirmation", () => {
+  it("stops waiting once the tx is in the mempool", async () => {
+    stubChain({ tx_status: "pending" });
+    expect(await waitForConfirmation("0xfeed", "http://chain", 20, 1)).toBe(
+      false
+    );
+    expect(
+      await waitForConfirmation("0xfeed", "http://chain", 20, 1, true)
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,292 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Cl, cvToHex } from "@stacks/transactions";
+import {
+  type X402Context,
+  type X402Pricing,
+  withX402Route,
+  x402Express,
+  x402Fastify,
+  x402Hono,
+} from "../sdk/adapters.ts";
+import { parsePaymentResponse } from "../sdk/client.ts";
+import { createMemoryProofStore } from "../sdk/proof-store.ts";
+import { buildPaymentRequirements } from "../sdk/server.ts";
+import {
+  HEADER_PAYMENT_REQUIRED,
+  HEADER_PAYMENT_RESPONSE,
+  HEADER_PAYMENT_SIGNATURE,
+  STACKS_TESTNET,
+  type PaymentPayload,
+} from "../sdk/types.ts";
+
+const PAYER = "ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC";
+const URL_ = "https://api.example.com/premium";
+const NONCE = "0a".repeat(16);
+
+function pricing(): X402Pricing {
+  return {
+    config: {
+      contractAddress: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      network: STACKS_TESTNET,
+      payTo: "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG",
+      apiUrl: "http://chain",
+      freshness: { mode: "off" },
+      proofStore: createMemoryProofStore(),
+    },
+    amount: "10000",
+  };
+}
+
+function signature(p: X402Pricing): string {
+  const payload: PaymentPayload = {
+    x402Version: 2,
+    resource: { url: URL_, description: "", mimeType: "" },
+    accepted: buildPaymentRequirements(p.config, { amount: "10000" }),
+    payload: { txId: "0xabc", nonce: NONCE },
+  };
+  return btoa(JSON.stringify(payload));
+}
+
+// Stacks API answering for one confirmed 10000 microSTX pay-stx
+function stubChain(p: X402Pricing) {
+  const { contractAddress, payTo } = p.config;
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) => {
+      if (url.includes("/extended/v1/tx/")) {
+        return Response.json({
+          tx_status: "success",
+          sender_address: PAYER,
+          contract_call: {
+            contract_id: `${contractAddress}.x402-payments`,
+            function_name: "pay-stx",
+            function_args: [
+              { name: "recipient", hex: cvToHex(Cl.principal(payTo)) },
+              { name: "amount", hex: cvToHex(Cl.uint(10_000)) },
+              { name: "nonce", hex: cvToHex(Cl.bufferFromHex(NONCE)) },
+            ],
+          },
+        });
+      }
+      return Response.json({
+        okay: true,
+        result: cvToHex(
+          Cl.some(
+            Cl.tuple({
+              payer: Cl.principal(PAYER),
+              recipient: Cl.principal(payTo),
+              amount: Cl.uint(10_000),
+              fee: Cl.uint(50),
+              block: Cl.uint(100),
+              "is-stx": Cl.bool(true),
+            })
+          )
+        ),
+      });
+    })
+  );
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("withX402Route (Next.js)", () => {
+  it("answers unpaid requests with 402 and PAYMENT-REQUIRED", async () => {
+    const handler = vi.fn();
+    const route = withX402Route(handler, pricing());
+
+    const response = await route(new Request(URL_), {});
+    expect(response.status).toBe(402);
+    expect(response.headers.get(HEADER_PAYMENT_REQUIRED)).toBeTruthy();
+    expect(parsePaymentResponse(response)).toBeNull();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("treats a payment header without a payment proof as unpaid", async () => {
+    const handler = vi.fn();
+    const route = withX402Route(handler, pricing());
+
+    for (const header of [
+      btoa("{}"),
+      btoa("null"),
+      btoa(JSON.stringify({ payload: { nonce: NONCE } })),
+      btoa(JSON.stringify({ payload: { txId: 1, nonce: NONCE } })),
+      btoa(JSON.stringify({ payload: { txId: "0xabc", nonce: "zz" } })),
+      "not base64 json",
+    ]) {
+      const response = await route(
+        new Request(URL_, { headers: { [HEADER_PAYMENT_SIGNATURE]: header } }),
+        {}
+      );
+      expect(response.status).toBe(402);
+      expect(await response.json()).toMatchObject({ error: "payment_required" });
+    }
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("passes the payer to the handler and sets PAYMENT-RESPONSE", async () => {
+    const p = pricing();
+    stubChain(p);
+    const route = withX402Route<{ params: Promise<object> }>(
+      async (_request, { x402 }) => Response.json({ payer: x402.payer }),
+      p
+    );
+
+    const response = await route(
+      new Request(URL_, {
+        headers: { [HEADER_PAYMENT_SIGNATURE]: signature(p) },
+      }),
+      { params: Promise.resolve({}) }
+    );
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ payer: PAYER });
+    expect(parsePaymentResponse(response)).toEqual({
+      success: true,
+      transaction: "0xabc",
+      network: STACKS_TESTNET,
+      payer: PAYER,
+      block: "100",
+      fee: "50",
+    });
+  });
+
+  it("adds PAYMENT-RESPONSE to responses with immutable headers", async () => {
+    const p = pricing();
+    stubChain(p);
+    const route = withX402Route(
+      async () => Response.redirect("https://cdn.example.com/premium", 307),
+      p
+    );
+
+    const response = await route(
+      new Request(URL_, { headers: { [HEADER_PAYMENT_SIGNATURE]: signature(p) } }),
+      {}
+    );
+    expect(response.status).toBe(307);
+    expect(response.headers.get("location")).toBe("https://cdn.example.com/premium");
+    expect(parsePaymentResponse(response)).toMatchObject({ success: true, payer: PAYER });
+  });
+});
+
+describe("x402Express", () => {
+  function fakeResponse() {
+    const headers: Record<string, string> = {};
+    return {
+      headers,
+      statusCode: 200,
+      body: undefined as string | undefined,
+      setHeader(name: string, value: string) {
+        headers[name] = value;
+      },
+      end(body?: string) {
+        this.body = body;
+      },
+    };
+  }
+
+  it("ends unpaid requests with 402", async () => {
+    const res = fakeResponse();
+    const next = vi.fn();
+    await x402Express(pricing())(
+      { url: "/premium", headers: { host: "api.example.com" } },
+      res,
+      next
+    );
+    expect(res.statusCode).toBe(402);
+    expect(res.headers[HEADER_PAYMENT_REQUIRED]).toBeTruthy();
+    expect(JSON.parse(res.body!).error).toBe("payment_required");
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("attaches req.x402 for paid requests", async () => {
+    const p = pricing();
+    stubChain(p);
+    const req: {
+      url: string;
+      headers: Record<string, string>;
+      x402?: X402Context;
+    } = {
+      url: "/premium",
+      headers: {
+        host: "api.example.com",
+        [HEADER_PAYMENT_SIGNATURE.toLowerCase()]: signature(p),
+      },
+    };
+    const res = fakeResponse();
+    const next = vi.fn();
+    await x402Express(p)(req, res, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(req.x402?.payer).toBe(PAYER);
+    expect(res.headers[HEADER_PAYMENT_RESPONSE]).toBeTruthy();
+
+    // The same proof can't unlock the route twice
+    const replay = fakeResponse();
+    await x402Express(p)({ ...req }, replay, vi.fn());
+    expect(replay.statusCode).toBe(402);
+    expect(JSON.parse(replay.body!).error).toBe("payment_already_used");
+  });
+});
+
+describe("x402Hono", () => {
+  it("short-circuits with a 402 Response", async () => {
+    const next = vi.fn();
+    const response = await x402Hono(pricing())(
+      {
+        req: { url: URL_, raw: new Request(URL_) },
+        set: vi.fn(),
+        header: vi.fn(),
+      },
+      next
+    );
+    expect(response?.status).toBe(402);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
+
+describe("x402Fastify", () => {
+  let hook: (request: unknown, reply: unknown) => Promise<unknown>;
+
+  beforeEach(async () => {
+    await x402Fastify(
+      {
+        decorateRequest: vi.fn(),
+        addHook: (_name, fn) => {
+          hook = fn as typeof hook;
+        },
+      },
+      pricing()
+    );
+  });
+
+  it("replies 402 from its preHandler hook", async () => {
+    const reply = {
+      status: 0,
+      headers: {} as Record<string, string>,
+      code(status: number) {
+        this.status = status;
+        return this;
+      },
+      header(name: string, value: string) {
+        this.headers[name] = value;
+        return this;
+      },
+      send: vi.fn(function (this: unknown) {
+        return this;
+      }),
+    };
+    await hook(
+      {
+        url: "/premium",
+        protocol: "https",
+        hostname: "api.example.com",
+        headers: {},
+      },
+      reply
+    );
+    expect(reply.status).toBe(402);
+    expect(reply.headers[HEADER_PAYMENT_REQUIRED]).toBeTruthy();
+    expect(reply.send).toHaveBeenCalledOnce();
+  });
+});
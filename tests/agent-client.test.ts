@@ -0,0 +1,215 @@
+import { describe, expect, it } from "vitest";
+import { Cl, ClarityType, type ClarityValue } from "@stacks/transactions";
+import * as client from "../sdk/agent-client.ts";
+import type { ContractCallArgs } from "../sdk/agent-client.ts";
+import type { AgentSDKConfig } from "../sdk/agent-types.ts";
+import { asBigInt } from "../sdk/clarity.ts";
+import { STACKS_TESTNET } from "../sdk/types.ts";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+
+const config: AgentSDKConfig = {
+  contractAddress: deployer,
+  network: STACKS_TESTNET,
+};
+
+// One call per builder, with representative params
+const calls: ContractCallArgs[] = [
+  client.buildRegisterAgent(config, {
+    name: "Bot",
+    descriptionUrl: "https://example.com/bot",
+    pricePerTask: 1000n,
+    acceptsStx: true,
+    acceptsSip010: false,
+  }),
+  client.buildUpdateAgent(config, {
+    name: "Bot v2",
+    descriptionUrl: "https://example.com/bot2",
+    pricePerTask: 2000n,
+    acceptsStx: true,
+    acceptsSip010: true,
+  }),
+  client.buildSetCapability(config, 0, "code-review"),
+  client.buildRemoveCapability(config, 0),
+  client.buildSetStatus(config, 2),
+  client.buildAddDelegate(config, wallet2),
+  client.buildRemoveDelegate(config, wallet2),
+  client.buildCreateVault(config, {
+    perTxCap: 1_000_000n,
+    dailyCap: 5_000_000n,
+    whitelistOnly: true,
+  }),
+  client.buildVaultDeposit(config, 1_000_000n),
+  client.buildVaultWithdraw(config, 500_000n),
+  client.buildUpdatePolicy(config, {
+    perTxCap: 2_000_000n,
+    dailyCap: 6_000_000n,
+    whitelistOnly: false,
+  }),
+  client.buildAddToWhitelist(config, wallet2),
+  client.buildRemoveFromWhitelist(config, wallet2),
+  client.buildVaultSpend(config, {
+    owner: wallet1,
+    amount: 100_000n,
+    memo: "api call",
+  }),
+  client.buildPostTask(config, {
+    title: "Audit",
+    descriptionUrl: "https://example.com/task",
+    bounty: 1_000_000n,
+    deadline: 1000n,
+    feeBps: 0n,
+  }),
+  client.buildBid(config, {
+    taskId: 0n,
+    price: 900_000n,
+    messageUrl: "https://example.com/bid",
+  }),
+  client.buildAssign(config, 0n, wallet2),
+  client.buildSubmitWork(config, 0n, "https://example.com/result"),
+  client.buildApprove(config, 0n),
+  client.buildDispute(config, 0n, "https://example.com/reason"),
+  client.buildCancel(config, 0n),
+  client.buildExpireTask(config, 0n),
+  client.buildRateAgent(config, { taskId: 0n, agent: wallet2, score: 5 }),
+  client.buildEndorse(config, wallet2, "code-review"),
+  client.buildRevokeEndorsement(config, wallet2),
+];
+
+type AtomType = ReturnType<
+  typeof simnet.getContractsInterfaces
+> extends Map<string, infer I>
+  ? I extends { functions: Array<{ args: Array<{ type: infer T }> }> }
+    ? T
+    : never
+  : never;
+
+// Check a ClarityValue against a contract-interface argument type
+function matchesType(cv: ClarityValue, type: AtomType): boolean {
+  if (type === "uint128") return cv.type === ClarityType.UInt;
+  if (type === "int128") return cv.type === ClarityType.Int;
+  if (type === "bool") {
+    return cv.type === ClarityType.BoolTrue || cv.type === ClarityType.BoolFalse;
+  }
+  if (type === "principal") {
+    return (
+      cv.type === ClarityType.PrincipalStandard ||
+      cv.type === ClarityType.PrincipalContract
+    );
+  }
+  if (typeof type === "object" && "string-utf8" in type) {
+    return (
+      cv.type === ClarityType.StringUTF8 &&
+      new TextEncoder().encode(cv.value).length <= type["string-utf8"].length
+    );
+  }
+  if (typeof type === "object" && "buffer" in type) {
+    return (
+      cv.type === ClarityType.Buffer &&
+      cv.value.length / 2 <= type.buffer.length
+    );
+  }
+  return false;
+}
+
+describe("agent-client", () => {
+  const interfaces = simnet.getContractsInterfaces();
+
+  describe("builders match deployed contract interfaces", () => {
+    it.each(calls.map((c) => [`${c.contractName}.${c.functionName}`, c]))(
+      "%s",
+      (_, call) => {
+        const iface = interfaces.get(
+          `${call.contractAddress}.${call.contractName}`
+        );
+        expect(iface).toBeDefined();
+
+        const fn = iface!.functions.find((f) => f.name === call.functionName);
+        expect(fn).toBeDefined();
+        expect(fn!.access).toBe("public");
+
+        // Same arity, same order, same names
+        expect(Object.keys(call.namedArgs)).toEqual(fn!.args.map((a) => a.name));
+        expect(call.functionArgs).toHaveLength(fn!.args.length);
+
+        fn!.args.forEach((arg, i) => {
+          expect(
+            matchesType(call.functionArgs[i], arg.type),
+            `${arg.name}: ${JSON.stringify(arg.type)}`
+          ).toBe(true);
+        });
+      }
+    );
+  });
+
+  it("builder args execute against simnet", () => {
+    const register = calls[0];
+    const { result } = simnet.callPublicFn(
+      register.contractName,
+      register.functionName,
+      register.functionArgs,
+      wallet1
+    );
+    expect(result).toBeOk(Cl.principal(wallet1));
+
+    const capability = client.buildSetCapability(config, 0, "code-review");
+    const { result: capResult } = simnet.callPublicFn(
+      capability.contractName,
+      capability.functionName,
+      capability.functionArgs,
+      wallet1
+    );
+    expect(capResult).toBeOk(Cl.bool(true));
+  });
+
+  it("post-task post-condition covers bounty plus the task-board fee", () => {
+    simnet.callPublicFn("task-board", "set-fee", [Cl.uint(250)], deployer);
+    const feeBps = asBigInt(
+      simnet.callReadOnlyFn("task-board", "get-fee-bps", [], deployer).result
+    );
+
+    const call = client.buildPostTask(config, {
+      title: "Escrowed",
+      descriptionUrl: "https://example.com/task",
+      bounty: 2_000_000n,
+      deadline: 1000n,
+      feeBps,
+    });
+    expect(call.postConditionMode).toBe("deny");
+    expect(call.breakdown).toEqual({
+      total: 2_050_000n,
+      net: 2_000_000n,
+      fee: 50_000n,
+    });
+    expect(call.postConditions).toEqual([
+      {
+        type: "stx-postcondition",
+        address: "origin",
+        condition: "eq",
+        amount: "2050000",
+      },
+    ]);
+
+    const { events } = simnet.callPublicFn(
+      call.contractName,
+      call.functionName,
+      call.functionArgs,
+      wallet1
+    );
+    const transfer = events.find((e) => e.event === "stx_transfer_event");
+    expect(transfer?.data.amount).toBe("2050000");
+  });
+
+  it("exposes a readable named view", () => {
+    expect(calls[0].namedArgs).toEqual({
+      name: 'u"Bot"',
+      "description-url": 'u"https://example.com/bot"',
+      "price-per-task": "u1000",
+      "accepts-stx": "true",
+      "accepts-sip010": "false",
+    });
+  });
+});
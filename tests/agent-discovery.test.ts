@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+import { Cl } from "@stacks/transactions";
+import {
+  type AgentProfile,
+  createAgentDirectory,
+  getAgentProfile,
+  rankAgents,
+} from "../sdk/agent-discovery.ts";
+import { STATUS_ACTIVE, type AgentSDKConfig } from "../sdk/agent-types.ts";
+import { createSimnetProvider } from "../sdk/chain.ts";
+import type { ProtocolEvent } from "../sdk/events.ts";
+import { createMemoryEventStore } from "../sdk/indexer.ts";
+import { STACKS_TESTNET } from "../sdk/types.ts";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+
+const config: AgentSDKConfig = {
+  contractAddress: deployer,
+  network: STACKS_TESTNET,
+  chain: createSimnetProvider(simnet),
+};
+
+function registerAgent(owner: string, price: number, capabilities: string[]) {
+  simnet.callPublicFn(
+    "agent-registry",
+    "register-agent",
+    [
+      Cl.stringUtf8(`Agent ${owner.slice(-4)}`),
+      Cl.stringUtf8("https://example.com/agent"),
+      Cl.uint(price),
+      Cl.bool(true),
+      Cl.bool(false),
+    ],
+    owner
+  );
+  capabilities.forEach((capability, index) =>
+    simnet.callPublicFn(
+      "agent-registry",
+      "set-capability",
+      [Cl.uint(index), Cl.stringUtf8(capability)],
+      owner
+    )
+  );
+}
+
+function profile(
+  owner: string,
+  overrides: {
+    price?: bigint;
+    capabilities?: string[];
+    averageScore?: number | null;
+    completed?: bigint;
+    disputed?: bigint;
+    endorsements?: bigint;
+  } = {}
+): AgentProfile {
+  return {
+    owner,
+    agent: {
+      name: owner,
+      descriptionUrl: "",
+      status: STATUS_ACTIVE,
+      registeredAt: 1n,
+      totalTasks: 0n,
+      totalEarned: 0n,
+      pricePerTask: overrides.price ?? 1_000n,
+      acceptsStx: true,
+      acceptsSip010: false,
+    },
+    capabilities: overrides.capabilities ?? ["summarize"],
+    reputation: {
+      totalScore: 0n,
+      ratingCount: 0n,
+      tasksCompleted: overrides.completed ?? 0n,
+      tasksDisputed: overrides.disputed ?? 0n,
+      endorsementCount: overrides.endorsements ?? 0n,
+    },
+    averageScore: overrides.averageScore ?? null,
+  };
+}
+
+function registryEvent(
+  height: number,
+  event: "agent-registered" | "capability-set",
+  owner: string
+): ProtocolEvent {
+  return {
+    event,
+    data:
+      event === "agent-registered"
+        ? { owner, name: "", pricePerTask: 0n }
+        : { owner, index: 0n, capability: "" },
+    txId: `0x${height}`,
+    eventIndex: 0,
+    contractId: `${deployer}.agent-registry`,
+    blockHeight: height,
+    blockHash: `0x${height}`,
+  } as ProtocolEvent;
+}
+
+const owners = (matches: Array<{ profile: AgentProfile }>) =>
+  matches.map((m) => m.profile.owner);
+
+describe("rankAgents", () => {
+  it("filters on price and score, then ranks on the weighted signals", () => {
+    const profiles = [
+      profile("cheap-unrated", { price: 500n }),
+      profile("rated", { averageScore: 4.5, completed: 9n, disputed: 1n }),
+      profile("pricey", { price: 9_000n, averageScore: 5 }),
+      profile("low", { averageScore: 3 }),
+      profile("endorsed", { averageScore: 4, completed: 2n, endorsements: 6n }),
+    ];
+
+    expect(owners(rankAgents(profiles))).toEqual([
+      "endorsed",
+      "rated",
+      "pricey",
+      "low",
+      "cheap-unrated",
+    ]);
+    expect(
+      owners(rankAgents(profiles, { maxPrice: 5_000n, minAverageScore: 4 }))
+    ).toEqual(["endorsed", "rated"]);
+  });
+
+  it("ranks agents offering more of the requested capabilities first", () => {
+    const profiles = [
+      profile("one", { capabilities: ["Summarize text"] }),
+      profile("both", { capabilities: ["translate", "summarize"] }),
+      profile("none", { capabilities: ["code-review"] }),
+    ];
+    const matches = rankAgents(profiles, {
+      capabilities: ["summarize", "translate"],
+    });
+    expect(owners(matches)).toEqual(["both", "one"]);
+    expect(matches[1].matched).toEqual(["summarize"]);
+  });
+});
+
+describe("createAgentDirectory on simnet", () => {
+  it("reads profiles and returns only active agents", async () => {
+    registerAgent(wallet1, 1_000, ["summarize", "translate"]);
+    registerAgent(wallet2, 5_000, ["summarize"]);
+    registerAgent(wallet3, 2_000, ["summarize"]);
+    simnet.callPublicFn("agent-registry", "set-status", [Cl.uint(2)], wallet3);
+    simnet.callPublicFn(
+      "reputation",
+      "endorse",
+      [Cl.principal(wallet1), Cl.stringUtf8("summarize")],
+      wallet2
+    );
+
+    expect(await getAgentProfile(config, wallet1)).toMatchObject({
+      capabilities: ["summarize", "translate"],
+      reputation: { endorsementCount: 1n },
+      averageScore: null,
+    });
+    expect(await getAgentProfile(config, deployer)).toBeNull();
+
+    const directory = createAgentDirectory(config, {
+      owners: [wallet1, wallet2, wallet3],
+    });
+    expect(await directory.refresh()).toHaveLength(3);
+    expect(owners(directory.search({ capabilities: ["summarize"] }))).toEqual([
+      wallet1,
+      wallet2,
+    ]);
+    expect(owners(directory.search({ maxPrice: 2_000n }))).toEqual([wallet1]);
+  });
+
+  it("discovers agents from events and re-reads only changed ones", async () => {
+    registerAgent(wallet1, 1_000, ["summarize"]);
+    registerAgent(wallet2, 5_000, []);
+    const events = createMemoryEventStore();
+    await events.addBlock({ height: 1, hash: "0x1", parentHash: "0x0" }, [
+      registryEvent(1, "agent-registered", wallet1),
+      registryEvent(1, "agent-registered", wallet2),
+    ]);
+    const directory = createAgentDirectory(config, { events });
+
+    expect((await directory.refresh()).sort()).toEqual([wallet1, wallet2].sort());
+    expect(owners(directory.search({ capabilities: ["translate"] }))).toEqual([]);
+
+    simnet.callPublicFn(
+      "agent-registry",
+      "set-capability",
+      [Cl.uint(0), Cl.stringUtf8("translate")],
+      wallet2
+    );
+    await events.addBlock({ height: 2, hash: "0x2", parentHash: "0x1" }, [
+      registryEvent(2, "capability-set", wallet2),
+    ]);
+
+    expect(await directory.refresh()).toEqual([wallet2]);
+    expect(owners(directory.search({ capabilities: ["translate"] }))).toEqual([
+      wallet2,
+    ]);
+    expect(await directory.refresh()).toEqual([]);
+  });
+});
@@ -0,0 +1,388 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Cl, deserializeTransaction } from "@stacks/transactions";
+import { TASK_COMPLETED, type AgentSDKConfig } from "../sdk/agent-types.ts";
+import { getTask } from "../sdk/agent-reader.ts";
+import {
+  type AgentWorkerConfig,
+  type WorkerEvent,
+  createAgentWorker,
+  createMemoryWorkerStateStore,
+} from "../sdk/agent-worker.ts";
+import { type StacksChainProvider, createSimnetProvider } from "../sdk/chain.ts";
+import { STACKS_TESTNET } from "../sdk/types.ts";
+
+// The worker signs and broadcasts through the simnet provider; the poster's
+// side of each task is played with direct simnet calls.
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const poster = accounts.get("wallet_1")!;
+const worker = accounts.get("wallet_3")!;
+// secret_key of wallet_3 from settings/Devnet.toml
+const workerKey =
+  "d655b2523bcd65e34889725c73064feb17ceb796831c0e111ba1a552b0f31b3901";
+
+// approve and dispute record into reputation, which only task-board may call
+beforeEach(() => {
+  simnet.callPublicFn(
+    "reputation",
+    "set-task-board",
+    [Cl.principal(`${deployer}.task-board`)],
+    deployer
+  );
+});
+
+function registerWorker() {
+  simnet.callPublicFn(
+    "agent-registry",
+    "register-agent",
+    [
+      Cl.stringUtf8("Worker"),
+      Cl.stringUtf8("https://example.com/agent"),
+      Cl.uint(1_000),
+      Cl.bool(true),
+      Cl.bool(false),
+    ],
+    worker
+  );
+}
+
+function postTask(bounty: number, blocksToDeadline: number) {
+  simnet.callPublicFn(
+    "task-board",
+    "post-task",
+    [
+      Cl.stringUtf8("Summarize"),
+      Cl.stringUtf8("https://example.com/task"),
+      Cl.uint(bounty),
+      Cl.uint(simnet.stacksBlockHeight + blocksToDeadline),
+    ],
+    poster
+  );
+}
+
+function assign(taskId: number) {
+  return simnet.callPublicFn(
+    "task-board",
+    "assign",
+    [Cl.uint(taskId), Cl.principal(worker)],
+    poster
+  ).result;
+}
+
+function approve(taskId: number) {
+  return simnet.callPublicFn("task-board", "approve", [Cl.uint(taskId)], poster)
+    .result;
+}
+
+function setup(overrides: Partial<AgentWorkerConfig> = {}) {
+  const config: AgentSDKConfig = {
+    contractAddress: deployer,
+    network: STACKS_TESTNET,
+    chain: createSimnetProvider(simnet),
+  };
+  const events: WorkerEvent[] = [];
+  const perform = vi.fn(async () => "https://example.com/result");
+  const agent = createAgentWorker({
+    ...config,
+    privateKey: workerKey,
+    handlers: {
+      shouldBid: () => true,
+      priceFor: ({ task }) => task.bounty / 2n,
+      perform,
+    },
+    onEvent: (event) => events.push(event),
+    ...overrides,
+  });
+  return { config, agent, events, perform };
+}
+
+const types = (events: WorkerEvent[]) => events.map((e) => e.type);
+
+describe("createAgentWorker on simnet", () => {
+  it("bids, performs, submits and follows a task to approval", async () => {
+    registerWorker();
+    postTask(10_000, 100);
+    const { config, agent, events, perform } = setup();
+    expect(agent.address).toBe(worker);
+
+    await agent.tick();
+    expect(events).toMatchObject([{ type: "bid", taskId: 0n, price: 5_000n }]);
+    expect(agent.state().tasks["0"].phase).toBe("bidding");
+
+    await agent.tick();
+    expect(agent.state().tasks["0"].phase).toBe("bid");
+
+    expect(assign(0)).toBeOk(Cl.bool(true));
+    await agent.tick();
+    expect(perform).toHaveBeenCalledOnce();
+    expect(types(events)).toEqual(["bid", "assigned", "submitted"]);
+    expect((await getTask(config, 0n))?.resultUrl).toBe("https://example.com/result");
+
+    expect(approve(0)).toBeOk(Cl.bool(true));
+    await agent.tick();
+    expect(events.at(-1)).toEqual({ type: "completed", taskId: 0n, bounty: 10_000n });
+    expect(agent.state()).toMatchObject({
+      lastNonce: "1",
+      tasks: { "0": { phase: "completed", attempts: 0 } },
+    });
+
+    // Nothing left to do
+    await agent.tick();
+    expect(events).toHaveLength(4);
+    expect((await getTask(config, 0n))?.status).toBe(TASK_COMPLETED);
+  });
+
+  it("retries a failed perform and gives up on repeatedly failing bids", async () => {
+    postTask(10_000, 100);
+    const unregistered = setup({ maxAttempts: 2 });
+
+    // bid requires a registered agent, so the bid tx aborts on chain
+    await unregistered.agent.tick();
+    await unregistered.agent.tick();
+    await unregistered.agent.tick();
+    expect(types(unregistered.events)).toEqual(["bid", "retry", "bid", "failed"]);
+    expect(unregistered.agent.state().tasks["0"]).toMatchObject({
+      phase: "failed",
+      attempts: 2,
+      lastError: "Transaction abort_by_response",
+    });
+
+    registerWorker();
+    postTask(10_000, 100);
+    const { agent, events, perform } = setup();
+    perform.mockRejectedValueOnce(new Error("model timeout"));
+    await agent.tick();
+    await agent.tick();
+    assign(1);
+
+    await agent.tick();
+    expect(events.at(-1)).toEqual({ type: "retry", taskId: 1n, error: "model timeout" });
+    await agent.tick();
+    expect(events.at(-1)).toMatchObject({ type: "submitted", taskId: 1n });
+    expect(perform).toHaveBeenCalledTimes(2);
+    expect(agent.state().tasks["1"]).toMatchObject({ phase: "submitting", attempts: 1 });
+  });
+
+  it("frees the nonces of failed txs for the next send", async () => {
+    postTask(10_000, 100);
+    postTask(10_000, 100);
+    const { agent } = setup({ maxAttempts: 3 });
+
+    // Both bids abort: the chain counts their nonces, the worker lets go
+    await agent.tick();
+    expect(agent.state()).toMatchObject({
+      lastNonce: "1",
+      tasks: { "0": { pendingNonce: "0" }, "1": { pendingNonce: "1" } },
+    });
+    registerWorker();
+    await agent.tick();
+    expect(agent.state()).toMatchObject({
+      lastNonce: "3",
+      tasks: { "0": { phase: "bidding", pendingNonce: "2", attempts: 1 } },
+    });
+  });
+
+  it("gives up on a tx that stays unseen and reuses its nonce", async () => {
+    registerWorker();
+    postTask(10_000, 100);
+    const simnetChain = createSimnetProvider(simnet);
+    // The first broadcast is accepted, then dropped from the mempool
+    let drop = true;
+    const chain: StacksChainProvider = {
+      ...simnetChain,
+      async broadcast(tx) {
+        if (!drop) return simnetChain.broadcast(tx);
+        drop = false;
+        return { txId: "0xdropped" };
+      },
+    };
+    const { agent, events } = setup({ chain, pendingTimeout: 60_000 });
+
+    await agent.tick();
+    await agent.tick();
+    expect(types(events)).toEqual(["bid"]);
+    expect(agent.state()).toMatchObject({
+      lastNonce: "0",
+      tasks: { "0": { phase: "bidding", pendingTxId: "0xdropped" } },
+    });
+
+    const now = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(now + 60_001);
+    try {
+      await agent.tick();
+    } finally {
+      vi.restoreAllMocks();
+    }
+    expect(types(events)).toEqual(["bid", "retry", "bid"]);
+    expect(events[1]).toMatchObject({
+      error: "Transaction 0xdropped not confirmed after 60s",
+    });
+    // The dropped tx never used its nonce, so the re-sent bid takes it
+    expect(agent.state()).toMatchObject({
+      lastNonce: "0",
+      tasks: { "0": { phase: "bidding", pendingNonce: "0" } },
+    });
+    await agent.tick();
+    expect(agent.state().tasks["0"].phase).toBe("bid");
+  });
+
+  it("waits for a timed-out tx the mempool holds and sees its late bid", async () => {
+    registerWorker();
+    postTask(10_000, 100);
+    const simnetChain = createSimnetProvider(simnet);
+    // The first bid sits in the mempool, counted in the account nonce
+    // while `visible`, and confirms just before the next broadcast
+    let held: { txId: string; bytes: Uint8Array } | null = null;
+    let visible = true;
+    let confirmed = false;
+    const chain: StacksChainProvider = {
+      ...simnetChain,
+      async getTx(txId) {
+        if (txId !== held?.txId || confirmed) return simnetChain.getTx(txId);
+        return visible ? { txId, status: "pending" } : null;
+      },
+      async getAccountNonce(address) {
+        const next = await simnetChain.getAccountNonce(address);
+        return held && visible && !confirmed ? next + 1n : next;
+      },
+      async broadcast(bytes) {
+        if (!held) {
+          held = { txId: `0x${deserializeTransaction(bytes).txid()}`, bytes };
+          return { txId: held.txId };
+        }
+        if (!confirmed) await simnetChain.broadcast(held.bytes);
+        confirmed = true;
+        return simnetChain.broadcast(bytes);
+      },
+    };
+    const { agent, events } = setup({
+      chain,
+      pendingTimeout: 60_000,
+      maxAttempts: 2,
+    });
+
+    await agent.tick();
+    const now = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(now + 60_001);
+    try {
+      // Past the timeout, but its nonce is still taken: keep waiting
+      await agent.tick();
+      expect(types(events)).toEqual(["bid"]);
+
+      // The API loses sight of it: give up and bid again, just as it confirms
+      visible = false;
+      await agent.tick();
+      expect(types(events)).toEqual(["bid", "retry", "bid"]);
+
+      // The second bid aborts (already bid), but the board shows the bid
+      await agent.tick();
+    } finally {
+      vi.restoreAllMocks();
+    }
+    expect(types(events)).toEqual(["bid", "retry", "bid"]);
+    expect(agent.state().tasks["0"]).toMatchObject({ phase: "bid", attempts: 1 });
+  });
+
+  it("skips tasks too close to their deadline and the agent's own tasks", async () => {
+    registerWorker();
+    postTask(10_000, 5);
+    postTask(10_000, 50);
+    simnet.callPublicFn(
+      "task-board",
+      "post-task",
+      [
+        Cl.stringUtf8("Own task"),
+        Cl.stringUtf8("https://example.com/task"),
+        Cl.uint(1_000),
+        Cl.uint(simnet.stacksBlockHeight + 100),
+      ],
+      worker
+    );
+    const shouldBid = vi.fn(() => true);
+    const { agent, events } = setup({
+      minBlocksToDeadline: 20n,
+      handlers: { shouldBid, priceFor: () => 1n, perform: async () => "" },
+    });
+
+    await agent.tick();
+    expect(events).toMatchObject([{ type: "bid", taskId: 1n }]);
+    expect(shouldBid).toHaveBeenCalledOnce();
+  });
+
+  it("resumes from a saved state without bidding again", async () => {
+    registerWorker();
+    postTask(10_000, 100);
+    const store = createMemoryWorkerStateStore();
+    const first = setup({ store });
+    await first.agent.tick();
+    await first.agent.stop();
+
+    // The provider holds the simnet tx ledger and nonces, so it's shared too
+    const second = setup({ store, chain: first.config.chain });
+    await second.agent.tick();
+    expect(second.events).toEqual([]);
+    expect(second.agent.state()).toMatchObject({
+      lastNonce: "0",
+      tasks: { "0": { phase: "bid" } },
+    });
+
+    // A task posted later is bid on with the next nonce
+    postTask(2_000, 100);
+    await second.agent.tick();
+    expect(second.events).toMatchObject([{ type: "bid", taskId: 1n }]);
+    expect(second.agent.state().lastNonce).toBe("1");
+  });
+
+  it("notes when the dispute window closes on submitted work", async () => {
+    registerWorker();
+    postTask(10_000, 100);
+    const { agent, events } = setup();
+    await agent.tick();
+    await agent.tick();
+    assign(0);
+    await agent.tick();
+    await agent.tick();
+
+    simnet.mineEmptyBlocks(72);
+    await agent.tick();
+    expect(types(events)).not.toContain("dispute-window-closed");
+    simnet.mineEmptyBlocks(1);
+    await agent.tick();
+    expect(events.at(-1)).toEqual({ type: "dispute-window-closed", taskId: 0n });
+    expect(agent.state().tasks["0"]).toMatchObject({
+      phase: "submitted",
+      undisputable: true,
+    });
+  });
+
+  it("reports disputes and their resolution", async () => {
+    registerWorker();
+    postTask(10_000, 100);
+    const { agent, events } = setup();
+    await agent.tick();
+    await agent.tick();
+    assign(0);
+    await agent.tick();
+    await agent.tick();
+
+    simnet.callPublicFn(
+      "task-board",
+      "dispute",
+      [Cl.uint(0), Cl.stringUtf8("https://example.com/dispute")],
+      poster
+    );
+    await agent.tick();
+    expect(events.at(-1)).toEqual({ type: "disputed", taskId: 0n });
+
+    simnet.callPublicFn(
+      "task-board",
+      "resolve-dispute",
+      [Cl.uint(0), Cl.uint(6_000), Cl.uint(4_000)],
+      deployer
+    );
+    await agent.tick();
+    expect(events.at(-1)).toEqual({ type: "resolved", taskId: 0n });
+    expect(agent.state().tasks["0"].phase).toBe("completed");
+  });
+});
@@ -0,0 +1,345 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  PostConditionMode,
+  makeContractCall,
+  type StacksTransactionWire,
+} from "@stacks/transactions";
+import {
+  createHiroProvider,
+  createNodeProvider,
+  createSimnetProvider,
+  type StacksChainProvider,
+} from "../sdk/chain.ts";
+import {
+  buildPaymentCall,
+  generateNonce,
+  getPaymentFeeBps,
+  nonceToHex,
+  waitForConfirmation,
+} from "../sdk/client.ts";
+import { buildPaymentRequirements, verifyPayment } from "../sdk/server.ts";
+import {
+  STACKS_TESTNET,
+  type PaymentPayload,
+  type PaymentRequirements,
+  type X402ServerConfig,
+} from "../sdk/types.ts";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const payer = accounts.get("wallet_1")!;
+// wallet_1's secret_key from settings/Devnet.toml
+const payerKey =
+  "7287ba251d44a4d3fd9276c88ce34c5c52a038955511cccaf77e61068649c17801";
+
+const config: X402ServerConfig = {
+  contractAddress: deployer,
+  network: STACKS_TESTNET,
+  payTo: accounts.get("wallet_2")!,
+};
+const requirements = buildPaymentRequirements(config, { amount: "10000" });
+
+// wallet_1's signed pay-stx for `nonce`
+async function signPayment(
+  nonce: Uint8Array,
+  txNonce = 0
+): Promise<StacksTransactionWire> {
+  const call = buildPaymentCall(requirements, nonce);
+  return makeContractCall({
+    contractAddress: call.contractAddress,
+    contractName: call.contractName,
+    functionName: call.functionName,
+    functionArgs: call.functionArgs,
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: call.postConditions,
+    senderKey: payerKey,
+    fee: 0,
+    nonce: txNonce,
+    network: "testnet",
+  });
+}
+
+function payloadFor(
+  txId: string,
+  nonce: Uint8Array,
+  accepted: PaymentRequirements = requirements
+): PaymentPayload {
+  return {
+    x402Version: 2,
+    resource: { url: "https://api.example.com/premium", description: "", mimeType: "" },
+    accepted,
+    payload: { txId, nonce: nonceToHex(nonce) },
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("createSimnetProvider", () => {
+  it("runs broadcast payments and verifies them without the network", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new Error("offline");
+      })
+    );
+    const chain = createSimnetProvider(simnet);
+    const nonce = generateNonce();
+
+    const broadcast = await chain.broadcast(
+      (await signPayment(nonce)).serializeBytes()
+    );
+    if (typeof broadcast === "string") throw new Error(broadcast);
+
+    expect(await chain.getTx(broadcast.txId)).toMatchObject({
+      status: "success",
+      sender: payer,
+      contractCall: {
+        contractId: `${deployer}.x402-payments`,
+        functionName: "pay-stx",
+      },
+    });
+    expect(await chain.getAccountNonce(payer)).toBe(1n);
+    expect(await chain.getStxBalance(payer)).toBe(
+      simnet.getAssetsMap().get("STX")!.get(payer)
+    );
+    expect(await getPaymentFeeBps(requirements, chain)).toBeTypeOf("bigint");
+
+    expect(
+      await verifyPayment(
+        { ...config, chain, freshness: { mode: "blocks", maxAgeBlocks: 10 } },
+        payloadFor(broadcast.txId, nonce),
+        requirements
+      )
+    ).toMatchObject({ isValid: true, payer, amount: "10000" });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("records calls the contract rejects as aborted", async () => {
+    const chain = createSimnetProvider(simnet);
+    const nonce = generateNonce();
+    await chain.broadcast((await signPayment(nonce)).serializeBytes());
+
+    // Same payment nonce again: ERR-NONCE-USED
+    const replay = await chain.broadcast(
+      (await signPayment(nonce, 1)).serializeBytes()
+    );
+    if (typeof replay === "string") throw new Error(replay);
+
+    expect((await chain.getTx(replay.txId))?.status).toBe("abort_by_response");
+    expect(await waitForConfirmation(replay.txId, chain, 20, 1)).toBe(false);
+    expect(
+      await verifyPayment(
+        { ...config, chain },
+        payloadFor(replay.txId, nonce),
+        requirements
+      )
+    ).toMatchObject({
+      isValid: false,
+      invalidReason: "Transaction status: abort_by_response",
+    });
+  });
+});
+
+describe("createHiroProvider", () => {
+  it("sends the API key and maps Hiro transactions", async () => {
+    const fetchMock = vi.fn(async (url: string, _init?: RequestInit) =>
+      url.endsWith("/0xabc")
+        ? Response.json({
+            tx_id: "0xabc",
+            tx_status: "success",
+            is_unanchored: true,
+            sender_address: payer,
+            contract_call: {
+              contract_id: `${deployer}.x402-payments`,
+              function_name: "pay-stx",
+              function_args: [{ name: "amount", hex: "0x01", repr: "u1" }],
+            },
+          })
+        : new Response("not found", { status: 404 })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const chain = createHiroProvider({ apiUrl: "http://hiro/", apiKey: "k" });
+
+    expect(await chain.getTx("0xabc")).toEqual({
+      txId: "0xabc",
+      status: "success",
+      unanchored: true,
+      sender: payer,
+      contractCall: {
+        contractId: `${deployer}.x402-payments`,
+        functionName: "pay-stx",
+        functionArgs: [{ name: "amount", hex: "0x01" }],
+      },
+    });
+    expect(await chain.getTx("0xdef")).toBeNull();
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://hiro/extended/v1/tx/0xabc");
+    expect(new Headers(init?.headers).get("x-api-key")).toBe("k");
+  });
+
+  it("lists print events the given contracts emitted in successful calls", async () => {
+    const contractId = `${deployer}.x402-payments`;
+    const router = `${deployer}.x402-curve-router`;
+    const log = (contract_id: string, topic: string, hex: string) => ({
+      contract_id,
+      topic,
+      value: { hex },
+    });
+    const txEvents: Record<string, ReturnType<typeof log>[]> = {
+      "0x1": [log(contractId, "print", "0x01"), log(contractId, "other", "0x02")],
+      // Called through the router: the payment contract's print still counts
+      "0x3": [log(router, "print", "0x03"), log(contractId, "print", "0x04")],
+    };
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith("/extended/v2/blocks/9")) {
+        return Response.json({
+          height: 9,
+          hash: "0x09",
+          parent_block_hash: "0x08",
+          block_time: 1_700_000_000,
+        });
+      }
+      if (url.includes("/extended/v2/blocks/9/transactions")) {
+        return Response.json({
+          total: 4,
+          results: [
+            ["0x1", "success", contractId],
+            ["0x2", "abort_by_response", contractId],
+            ["0x3", "success", router],
+            // A token transfer: no contract call
+            ["0x4", "success"],
+          ].map(([tx_id, tx_status, contract_id]) => ({
+            tx_id,
+            tx_status,
+            event_count: 2,
+            ...(contract_id && { contract_call: { contract_id } }),
+          })),
+        });
+      }
+      const txId = url.match(/tx_id=(0x\d)/)?.[1];
+      if (txId && txEvents[txId]) {
+        return Response.json({
+          events: txEvents[txId].map((contract_log, event_index) => ({
+            event_index,
+            contract_log,
+          })),
+        });
+      }
+      return new Response("not found", { status: 404 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const chain = createHiroProvider({ apiUrl: "http://hiro" });
+
+    expect(await chain.getBlockEvents!(9, [contractId])).toEqual({
+      block: { height: 9, hash: "0x09", parentHash: "0x08", time: 1_700_000_000 },
+      events: [
+        { txId: "0x1", eventIndex: 0, contractId, valueHex: "0x01" },
+        { txId: "0x3", eventIndex: 1, contractId, valueHex: "0x04" },
+      ],
+    });
+    // Aborted calls and other tx types aren't fetched
+    expect(fetchMock.mock.calls.map(([url]) => url.match(/tx_id=(0x\d)/)?.[1])).toEqual(
+      [undefined, undefined, "0x1", "0x3"]
+    );
+    expect((await chain.getBlockEvents!(9))?.events).toHaveLength(3);
+    expect(await chain.getBlock!(10)).toBeNull();
+  });
+
+  it("aborts requests that outlast timeoutMs", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) =>
+            init.signal!.addEventListener("abort", () =>
+              reject(init.signal!.reason)
+            )
+          )
+      )
+    );
+    const chain = createHiroProvider({ apiUrl: "http://hiro", timeoutMs: 5 });
+    await expect(chain.getTip()).rejects.toThrow();
+  });
+});
+
+describe("createNodeProvider", () => {
+  it("decodes raw transactions, naming arguments from the contract interface", async () => {
+    const nonce = generateNonce();
+    const tx = await signPayment(nonce);
+    const contractId = `${deployer}.x402-payments`;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        if (url.includes("/v3/transactions/")) {
+          return Response.json({ index_block_hash: "0x00", tx: tx.serialize() });
+        }
+        if (url.includes("/v2/contracts/interface/")) {
+          return Response.json(simnet.getContractsInterfaces().get(contractId));
+        }
+        if (url.includes(`/v2/accounts/${payer}`)) {
+          return Response.json({
+            nonce: 3,
+            balance: "0x0000000000000000000000000001e240",
+          });
+        }
+        return new Response("not found", { status: 404 });
+      })
+    );
+    const chain = createNodeProvider({ url: "http://node:20443" });
+
+    const found = await chain.getTx(`0x${tx.txid()}`);
+    expect(found).toMatchObject({
+      txId: `0x${tx.txid()}`,
+      status: "unknown",
+      sender: payer,
+      contractCall: { contractId, functionName: "pay-stx" },
+    });
+    expect(found?.contractCall?.functionArgs?.map((a) => a.name)).toEqual([
+      "recipient",
+      "amount",
+      "nonce",
+    ]);
+    expect(await chain.getAccountNonce(payer)).toBe(3n);
+    expect(await chain.getStxBalance(payer)).toBe(123_456n);
+  });
+
+  it("leaves unknown results to the receipt and its payer", async () => {
+    const simnetChain = createSimnetProvider(simnet);
+    const nonce = generateNonce();
+    const broadcast = await simnetChain.broadcast(
+      (await signPayment(nonce)).serializeBytes()
+    );
+    if (typeof broadcast === "string") throw new Error(broadcast);
+
+    // As a node reports it: mined, result unseen, sender as given
+    const asNode = (sender: string): StacksChainProvider => ({
+      ...simnetChain,
+      async getTx(txId) {
+        const tx = await simnetChain.getTx(txId);
+        return tx && { ...tx, status: "unknown", sender };
+      },
+    });
+
+    expect(await waitForConfirmation(broadcast.txId, asNode(payer), 20, 1)).toBe(false);
+    expect(
+      await verifyPayment(
+        { ...config, chain: asNode(payer) },
+        payloadFor(broadcast.txId, nonce),
+        requirements
+      )
+    ).toMatchObject({ isValid: true, payer });
+    expect(
+      await verifyPayment(
+        { ...config, chain: asNode(deployer) },
+        payloadFor(broadcast.txId, nonce),
+        requirements
+      )
+    ).toEqual({
+      isValid: false,
+      invalidReason: "Payer does not match transaction sender",
+    });
+  });
+});
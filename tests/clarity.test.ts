@@ -0,0 +1,224 @@
+import { describe, expect, it } from "vitest";
+import { Cl } from "@stacks/transactions";
+import {
+  decodeAgentRecord,
+  decodeBidRecord,
+  decodeReputationRecord,
+  decodeSpendLogEntry,
+  decodeTaskRecord,
+} from "../sdk/agent-reader.ts";
+import {
+  asBigInt,
+  asBool,
+  asBufferHex,
+  asNumber,
+  asOptionalPrincipal,
+  asPrincipal,
+  asString,
+  asTuple,
+  decodeCV,
+  encodeBufferHex,
+  encodeCV,
+  encodePrincipal,
+  encodeUint,
+  unwrapOk,
+  unwrapOptional,
+} from "../sdk/clarity.ts";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet = accounts.get("wallet_1")!;
+
+// Encode, then decode from hex as a read-only result would be
+const roundTrip = (cv: Parameters<typeof encodeCV>[0]) => decodeCV(encodeCV(cv));
+
+describe("clarity codec", () => {
+  it("round-trips argument encodings", () => {
+    expect(asPrincipal(decodeCV(encodePrincipal(wallet)))).toBe(wallet);
+    expect(asPrincipal(decodeCV(encodePrincipal(`${deployer}.x402-payments`)))).toBe(
+      `${deployer}.x402-payments`
+    );
+    expect(asBigInt(decodeCV(encodeUint(2n ** 128n - 1n)))).toBe(2n ** 128n - 1n);
+    expect(asNumber(decodeCV(encodeUint(42)))).toBe(42);
+    expect(asBufferHex(decodeCV(encodeBufferHex("0xABcd")))).toBe("abcd");
+    expect(encodeBufferHex("abcd")).toBe(encodeBufferHex("0xabcd"));
+  });
+
+  it("decodes scalars of the expected type", () => {
+    expect(asBigInt(roundTrip(Cl.int(-5)))).toBe(-5n);
+    expect(asBool(roundTrip(Cl.bool(true)))).toBe(true);
+    expect(asBool(roundTrip(Cl.bool(false)))).toBe(false);
+    expect(asString(roundTrip(Cl.stringAscii("ascii")))).toBe("ascii");
+    expect(asString(roundTrip(Cl.stringUtf8("utf8 ✓")))).toBe("utf8 ✓");
+  });
+
+  it("rejects values of another type, naming both", () => {
+    expect(() => asBigInt(Cl.stringAscii("1"))).toThrow(
+      "Expected Clarity int, got ascii"
+    );
+    expect(() => asBigInt(undefined)).toThrow("Expected Clarity int, got nothing");
+    expect(() => asBool(Cl.uint(1))).toThrow("Expected Clarity bool, got uint");
+    expect(() => asPrincipal(Cl.stringAscii(wallet))).toThrow("Expected Clarity principal");
+    expect(() => asString(Cl.bufferFromHex("00"))).toThrow("Expected Clarity string");
+    expect(() => asBufferHex(Cl.stringAscii("00"))).toThrow("Expected Clarity buffer");
+    expect(() => asTuple(Cl.list([]))).toThrow("Expected Clarity tuple, got list");
+  });
+
+  it("unwraps optionals and responses", () => {
+    expect(unwrapOptional(roundTrip(Cl.none()))).toBeNull();
+    expect(unwrapOptional(roundTrip(Cl.some(Cl.uint(7))))).toEqual(Cl.uint(7));
+    expect(() => unwrapOptional(Cl.uint(7))).toThrow(
+      "Expected Clarity optional, got uint"
+    );
+
+    expect(unwrapOk(roundTrip(Cl.ok(Cl.bool(true))))).toEqual(Cl.bool(true));
+    expect(() => unwrapOk(roundTrip(Cl.error(Cl.uint(101))))).toThrow(
+      "Contract returned (err u101)"
+    );
+    expect(() => unwrapOk(Cl.error(Cl.stringAscii("nope")))).toThrow(
+      "Contract returned (err ascii)"
+    );
+    expect(() => unwrapOk(Cl.some(Cl.uint(1)))).toThrow("Expected Clarity response");
+
+    expect(asOptionalPrincipal(Cl.some(Cl.principal(wallet)))).toBe(wallet);
+    expect(asOptionalPrincipal(Cl.none())).toBeNull();
+    expect(() => asOptionalPrincipal(undefined)).toThrow("Expected Clarity optional");
+  });
+
+  it("keeps tuple fields under their Clarity names", () => {
+    const tuple = asTuple(
+      roundTrip(Cl.tuple({ "per-tx-cap": Cl.uint(5), ok: Cl.bool(true) }))
+    );
+    expect(Object.keys(tuple).sort()).toEqual(["ok", "per-tx-cap"]);
+    expect(asBigInt(tuple["per-tx-cap"])).toBe(5n);
+  });
+
+  it("rejects malformed hex", () => {
+    expect(() => decodeCV("0xzz")).toThrow();
+    expect(() => decodeCV("0xff00")).toThrow();
+  });
+});
+
+describe("agent-reader record decoders", () => {
+  it("decodes registry and task-board records", () => {
+    expect(
+      decodeAgentRecord(
+        roundTrip(
+          Cl.tuple({
+            name: Cl.stringUtf8("Agent"),
+            "description-url": Cl.stringUtf8("https://example.com/agent"),
+            status: Cl.uint(1),
+            "registered-at": Cl.uint(3),
+            "total-tasks": Cl.uint(4),
+            "total-earned": Cl.uint(5_000),
+            "price-per-task": Cl.uint(1_000),
+            "accepts-stx": Cl.bool(true),
+            "accepts-sip010": Cl.bool(false),
+          })
+        )
+      )
+    ).toEqual({
+      name: "Agent",
+      descriptionUrl: "https://example.com/agent",
+      status: 1,
+      registeredAt: 3n,
+      totalTasks: 4n,
+      totalEarned: 5_000n,
+      pricePerTask: 1_000n,
+      acceptsStx: true,
+      acceptsSip010: false,
+    });
+
+    const task = {
+      poster: Cl.principal(wallet),
+      title: Cl.stringUtf8("Summarize"),
+      "description-url": Cl.stringUtf8("https://example.com/task"),
+      bounty: Cl.uint(10_000),
+      fee: Cl.uint(100),
+      "assigned-to": Cl.none(),
+      status: Cl.uint(0),
+      "created-at": Cl.uint(2),
+      deadline: Cl.uint(102),
+      "submitted-at": Cl.uint(0),
+      "completed-at": Cl.uint(0),
+      "result-url": Cl.stringUtf8(""),
+    };
+    expect(decodeTaskRecord(roundTrip(Cl.tuple(task)))).toMatchObject({
+      poster: wallet,
+      bounty: 10_000n,
+      assignedTo: null,
+      deadline: 102n,
+      resultUrl: "",
+    });
+    expect(
+      decodeTaskRecord(
+        roundTrip(Cl.tuple({ ...task, "assigned-to": Cl.some(Cl.principal(deployer)) }))
+      ).assignedTo
+    ).toBe(deployer);
+
+    expect(
+      decodeBidRecord(
+        roundTrip(
+          Cl.tuple({
+            price: Cl.uint(5_000),
+            "message-url": Cl.stringUtf8("https://example.com/bid"),
+            "bid-at": Cl.uint(9),
+          })
+        )
+      )
+    ).toEqual({ price: 5_000n, messageUrl: "https://example.com/bid", bidAt: 9n });
+  });
+
+  it("decodes vault and reputation records", () => {
+    expect(
+      decodeSpendLogEntry(
+        roundTrip(
+          Cl.tuple({
+            spender: Cl.principal(wallet),
+            amount: Cl.uint(250),
+            block: Cl.uint(8),
+            memo: Cl.stringUtf8("api call"),
+          })
+        )
+      )
+    ).toEqual({ spender: wallet, amount: 250n, block: 8n, memo: "api call" });
+
+    expect(
+      decodeReputationRecord(
+        roundTrip(
+          Cl.tuple({
+            "total-score": Cl.uint(45),
+            "rating-count": Cl.uint(10),
+            "tasks-completed": Cl.uint(9),
+            "tasks-disputed": Cl.uint(1),
+            "endorsement-count": Cl.uint(2),
+          })
+        )
+      )
+    ).toEqual({
+      totalScore: 45n,
+      ratingCount: 10n,
+      tasksCompleted: 9n,
+      tasksDisputed: 1n,
+      endorsementCount: 2n,
+    });
+  });
+
+  it("rejects records with missing or mistyped fields", () => {
+    expect(() =>
+      decodeBidRecord(Cl.tuple({ price: Cl.uint(1), "bid-at": Cl.uint(1) }))
+    ).toThrow("Expected Clarity string, got nothing");
+    expect(() =>
+      decodeBidRecord(
+        Cl.tuple({
+          price: Cl.stringAscii("1"),
+          "message-url": Cl.stringUtf8(""),
+          "bid-at": Cl.uint(1),
+        })
+      )
+    ).toThrow("Expected Clarity int, got ascii");
+    expect(() => decodeAgentRecord(Cl.some(Cl.tuple({})))).toThrow(
+      "Expected Clarity tuple, got some"
+    );
+  });
+});
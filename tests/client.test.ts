@@ -0,0 +1,288 @@
+import { describe, expect, it } from "vitest";
+import { Cl, ClarityType, cvToHex } from "@stacks/transactions";
+import {
+  buildPayViaCurveArgs,
+  cheapestRequirement,
+  generateNonce,
+  matchNetwork,
+  preferAsset,
+  preparePaymentCall,
+} from "../sdk/client.ts";
+import { createSimnetProvider } from "../sdk/chain.ts";
+import {
+  buildPaymentRequired,
+  buildPaymentRequirements,
+  checkCurvePayment,
+  decodeCurveCallArgs,
+  decodeCurveReceipt,
+  matchesRequirement,
+} from "../sdk/server.ts";
+import { asBigInt, asTuple, unwrapOk } from "../sdk/clarity.ts";
+import {
+  STACKS_MAINNET,
+  STACKS_TESTNET,
+  type X402ServerConfig,
+} from "../sdk/types.ts";
+
+const SBTC = "SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-token";
+
+const config: X402ServerConfig = {
+  contractAddress: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+  network: STACKS_TESTNET,
+  payTo: "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG",
+  apiUrl: "http://localhost:3999",
+};
+
+const { accepts } = buildPaymentRequired(
+  config,
+  { url: "https://api.example.com/premium", description: "", mimeType: "" },
+  {
+    accepts: [
+      { amount: 10_000n },
+      { amount: 2_000n, asset: SBTC, tokenName: "sbtc-token" },
+      {
+        amount: 8_000n,
+        network: STACKS_MAINNET,
+        contractAddress: "SP1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSPW0PZTF",
+        payTo: "SP2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4DX6YVX0",
+      },
+    ],
+  }
+);
+const [testnetStx, testnetSbtc, mainnetStx] = accepts;
+
+describe("multi-option 402", () => {
+  it("applies per-option overrides", () => {
+    expect(accepts).toHaveLength(3);
+    expect(testnetSbtc.extra.tokenName).toBe("sbtc-token");
+    expect(mainnetStx.network).toBe(STACKS_MAINNET);
+    expect(mainnetStx.extra.contractAddress).toMatch(/^SP1/);
+    expect(mainnetStx.payTo).toMatch(/^SP2/);
+  });
+
+  it("matches a client's choice by route, not amount", () => {
+    expect(matchesRequirement(testnetSbtc, { ...testnetSbtc, amount: "1" })).toBe(
+      true
+    );
+    expect(matchesRequirement(testnetStx, testnetSbtc)).toBe(false);
+    expect(matchesRequirement(testnetStx, mainnetStx)).toBe(false);
+  });
+});
+
+describe("requirement selection", () => {
+  it("never leaves the payer's network", () => {
+    expect(matchNetwork(STACKS_MAINNET)(accepts)).toBe(mainnetStx);
+    expect(matchNetwork(STACKS_MAINNET, preferAsset(SBTC))(accepts)).toBe(
+      mainnetStx
+    );
+    expect(matchNetwork(STACKS_MAINNET)([testnetStx])).toBeUndefined();
+  });
+
+  it("prefers assets in order, falling back to the first option", () => {
+    expect(preferAsset(SBTC, "STX")(accepts)).toBe(testnetSbtc);
+    expect(preferAsset("SP000.unknown")(accepts)).toBe(testnetStx);
+  });
+
+  it("picks the cheapest option in a reference currency", () => {
+    // 1 STX = $2, 1 BTC = $60,000 (sats are 1e-8 BTC)
+    const rates = { STX: 2 / 1e6, [SBTC]: 60_000 / 1e8 };
+    expect(cheapestRequirement(rates)(accepts)).toBe(mainnetStx);
+    expect(
+      matchNetwork(STACKS_TESTNET, cheapestRequirement(rates))(accepts)
+    ).toBe(testnetStx);
+    expect(cheapestRequirement({ [SBTC]: 1 })([testnetStx])).toBeUndefined();
+  });
+});
+
+describe("curve scheme", () => {
+  const simnetAccounts = simnet.getAccounts();
+  const deployer = simnetAccounts.get("deployer")!;
+  const creator = simnetAccounts.get("wallet_1")!;
+  const payer = simnetAccounts.get("wallet_2")!;
+
+  const curveConfig: X402ServerConfig = {
+    contractAddress: deployer,
+    network: STACKS_TESTNET,
+    payTo: creator,
+  };
+
+  function launchCurve() {
+    simnet.callPublicFn(
+      "agent-registry",
+      "register-agent",
+      [
+        Cl.stringUtf8("Curve Agent"),
+        Cl.stringUtf8("https://example.com"),
+        Cl.uint(1_000_000),
+        Cl.bool(true),
+        Cl.bool(false),
+      ],
+      creator
+    );
+    simnet.callPublicFn(
+      "agent-launchpad",
+      "launch",
+      [Cl.stringUtf8("Curve Token"), Cl.stringUtf8("CRV")],
+      creator
+    );
+  }
+
+  it("builds router requirements", () => {
+    const requirements = buildPaymentRequirements(curveConfig, {
+      scheme: "curve",
+      amount: 1_000_000n,
+      curveId: 0n,
+      minTokensOut: 5n,
+    });
+    expect(requirements).toMatchObject({
+      scheme: "curve",
+      asset: "STX",
+      extra: {
+        contractName: "x402-curve-router",
+        curveId: "0",
+        minTokensOut: "5",
+      },
+    });
+    expect(() =>
+      buildPaymentRequirements(curveConfig, { scheme: "curve", amount: 1n })
+    ).toThrow(/curveId/);
+  });
+
+  it("pays via curve with slippage and verifies the router receipt", () => {
+    launchCurve();
+    const requirements = buildPaymentRequirements(curveConfig, {
+      scheme: "curve",
+      amount: 1_000_000n,
+      curveId: 0n,
+    });
+
+    const quoteResult = simnet.callReadOnlyFn(
+      "agent-launchpad",
+      "get-buy-quote",
+      [Cl.uint(0), Cl.uint(1_000_000)],
+      payer
+    ).result;
+    const quote = asTuple(unwrapOk(quoteResult));
+    const tokensOut = asBigInt(quote["tokens-out"]);
+
+    const nonce = new Uint8Array(16).fill(7);
+    const call = buildPayViaCurveArgs(
+      requirements,
+      nonce,
+      { tokensOut, fee: asBigInt(quote["fee"]), accruedFees: 0n },
+      200n
+    );
+    expect(call.functionArgs[3]).toEqual(Cl.uint((tokensOut * 9_800n) / 10_000n));
+    expect(call.breakdown.total).toBe(1_000_000n);
+
+    const { result } = simnet.callPublicFn(
+      call.contractName,
+      call.functionName,
+      call.functionArgs,
+      payer
+    );
+    expect(result).toHaveClarityType(ClarityType.ResponseOk);
+
+    const receipt = decodeCurveReceipt(
+      cvToHex(
+        simnet.callReadOnlyFn(
+          "x402-curve-router",
+          "verify-payment",
+          [Cl.buffer(nonce)],
+          payer
+        ).result
+      )
+    )!;
+    expect(receipt).toMatchObject({
+      payer,
+      curveId: 0n,
+      stxAmount: 1_000_000n,
+      tokensReceived: tokensOut,
+    });
+
+    const args = decodeCurveCallArgs(
+      ["curve-id", "stx-amount", "nonce", "min-tokens-out"].map((name, i) => ({
+        name,
+        hex: cvToHex(call.functionArgs[i]),
+      }))
+    )!;
+    const nonceHex = "07".repeat(16);
+    expect(checkCurvePayment(args, nonceHex, receipt, requirements)).toBeNull();
+    expect(
+      checkCurvePayment(args, nonceHex, receipt, {
+        ...requirements,
+        extra: { ...requirements.extra, curveId: "1" },
+      })
+    ).toMatch(/Wrong curve/);
+    expect(
+      checkCurvePayment(args, nonceHex, receipt, {
+        ...requirements,
+        extra: { ...requirements.extra, minTokensOut: String(tokensOut + 1n) },
+      })
+    ).toMatch(/Insufficient tokens/);
+  });
+});
+
+describe("preparePaymentCall on simnet", () => {
+  const simnetAccounts = simnet.getAccounts();
+  const deployer = simnetAccounts.get("deployer")!;
+  const creator = simnetAccounts.get("wallet_1")!;
+  const chain = createSimnetProvider(simnet);
+  const simnetConfig: X402ServerConfig = {
+    contractAddress: deployer,
+    network: STACKS_TESTNET,
+    payTo: creator,
+  };
+
+  it("splits exact payments by the contract's fee-bps", async () => {
+    simnet.callPublicFn("x402-payments", "set-fee", [Cl.uint(250)], deployer);
+    const requirements = buildPaymentRequirements(simnetConfig, { amount: 10_000n });
+
+    const call = await preparePaymentCall(requirements, generateNonce(), { chain });
+    expect(call.functionName).toBe("pay-stx");
+    expect(call.breakdown).toEqual({ total: 10_000n, net: 9_750n, fee: 250n });
+  });
+
+  it("bounds the launchpad payout of curve payments by its accrued fees", async () => {
+    simnet.callPublicFn(
+      "agent-registry",
+      "register-agent",
+      [
+        Cl.stringUtf8("Curve Agent"),
+        Cl.stringUtf8("https://example.com"),
+        Cl.uint(1_000_000),
+        Cl.bool(true),
+        Cl.bool(false),
+      ],
+      creator
+    );
+    simnet.callPublicFn(
+      "agent-launchpad",
+      "launch",
+      [Cl.stringUtf8("Curve Token"), Cl.stringUtf8("CRV")],
+      creator
+    );
+    simnet.callPublicFn(
+      "agent-launchpad",
+      "buy",
+      [Cl.uint(0), Cl.uint(1_000_000), Cl.uint(0)],
+      creator
+    );
+    const requirements = buildPaymentRequirements(simnetConfig, {
+      scheme: "curve",
+      amount: 500_000n,
+      curveId: 0n,
+    });
+
+    const call = await preparePaymentCall(requirements, generateNonce(), { chain });
+    expect(call.breakdown).toEqual({ total: 500_000n, net: 495_000n, fee: 5_000n });
+    expect(call.postConditions).toEqual([
+      expect.objectContaining({ condition: "eq", amount: "500000" }),
+      expect.objectContaining({
+        address: `${deployer}.agent-launchpad`,
+        condition: "lte",
+        amount: "15000",
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, expect, it } from "vitest";
+import { Cl, ClarityType, type ClarityValue } from "@stacks/transactions";
+import {
+  distanceToGraduation,
+  quoteBuy,
+  quoteSell,
+  spotPrice,
+  stxForTokens,
+} from "../sdk/curve-math.ts";
+import { decodeCurveRecord } from "../sdk/launchpad-reader.ts";
+import type { CurveRecord } from "../sdk/agent-types.ts";
+import { asBigInt, asTuple, unwrapOk, unwrapOptional } from "../sdk/clarity.ts";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const creator = accounts.get("wallet_1")!;
+const traders = [accounts.get("wallet_2")!, accounts.get("wallet_3")!];
+
+const launchpad = "agent-launchpad";
+
+// Deterministic PRNG (mulberry32) so failures reproduce
+function rng(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Random bigint in [1, max], log-uniform so small and large sizes both occur
+function randomAmount(random: () => number, max: bigint): bigint {
+  const digits = max.toString().length;
+  const scale = 10n ** BigInt(Math.floor(random() * digits));
+  const value = BigInt(Math.floor(random() * 1_000_000)) * scale / 1_000_000n;
+  return value < 1n ? 1n : value > max ? max : value;
+}
+
+function launch() {
+  simnet.callPublicFn(
+    "agent-registry",
+    "register-agent",
+    [
+      Cl.stringUtf8("Curve Agent"),
+      Cl.stringUtf8("https://example.com"),
+      Cl.uint(1_000),
+      Cl.bool(true),
+      Cl.bool(false),
+    ],
+    creator
+  );
+  simnet.callPublicFn(
+    launchpad,
+    "launch",
+    [Cl.stringUtf8("Agent"), Cl.stringUtf8("AGT")],
+    creator
+  );
+}
+
+function readCurve(): CurveRecord {
+  const { result } = simnet.callReadOnlyFn(
+    launchpad,
+    "get-curve",
+    [Cl.uint(0)],
+    deployer
+  );
+  return decodeCurveRecord(unwrapOptional(result)!);
+}
+
+// Read-only call result, or "error" if the contract aborts at runtime
+function readOnly(fn: string, args: ClarityValue[]): ClarityValue | "error" {
+  try {
+    return simnet.callReadOnlyFn(launchpad, fn, args, deployer).result;
+  } catch {
+    return "error";
+  }
+}
+
+function attempt<T>(fn: () => T): T | "error" {
+  try {
+    return fn();
+  } catch {
+    return "error";
+  }
+}
+
+function balanceOf(holder: string): bigint {
+  const { result } = simnet.callReadOnlyFn(
+    launchpad,
+    "get-balance",
+    [Cl.uint(0), Cl.principal(holder)],
+    deployer
+  );
+  return asBigInt(asTuple(result)["amount"]);
+}
+
+describe("curve-math", () => {
+  it("matches get-buy-quote, get-sell-quote and get-price across random trades", () => {
+    launch();
+    const random = rng(0x402);
+
+    for (let step = 0; step < 40; step++) {
+      const curve = readCurve();
+      if (curve.graduated) break;
+
+      // Quotes at random sizes against the current state
+      for (let i = 0; i < 5; i++) {
+        const stx = randomAmount(random, 20_000_000_000n);
+        const onChainBuy = readOnly("get-buy-quote", [Cl.uint(0), Cl.uint(stx)]);
+        const buy = attempt(() => quoteBuy(curve, stx));
+        if (onChainBuy === "error") {
+          expect(buy).toBe("error");
+        } else {
+          const t = asTuple(unwrapOk(onChainBuy));
+          expect(buy).toEqual({
+            tokensOut: asBigInt(t["tokens-out"]),
+            fee: asBigInt(t["fee"]),
+          });
+        }
+
+        const tokens = randomAmount(random, curve.totalSupply);
+        const onChainSell = readOnly("get-sell-quote", [
+          Cl.uint(0),
+          Cl.uint(tokens),
+        ]);
+        const sell = attempt(() => quoteSell(curve, tokens));
+        if (onChainSell === "error") {
+          expect(sell).toBe("error");
+        } else {
+          const t = asTuple(unwrapOk(onChainSell));
+          expect(sell).toEqual({
+            stxOut: asBigInt(t["stx-out"]),
+            fee: asBigInt(t["fee"]),
+          });
+        }
+      }
+
+      const price = readOnly("get-price", [Cl.uint(0)]);
+      expect(price).not.toBe("error");
+      expect(spotPrice(curve)).toBe(asBigInt(unwrapOk(price as ClarityValue)));
+
+      // Move the curve: buy, or sell part of a trader's holdings
+      const trader = traders[step % traders.length];
+      const held = balanceOf(trader);
+      if (held > 0n && random() < 0.4) {
+        const amount = randomAmount(random, held);
+        simnet.callPublicFn(
+          launchpad,
+          "sell",
+          [Cl.uint(0), Cl.uint(amount), Cl.uint(0)],
+          trader
+        );
+      } else {
+        const stx = randomAmount(random, 1_000_000_000n);
+        simnet.callPublicFn(
+          launchpad,
+          "buy",
+          [Cl.uint(0), Cl.uint(stx), Cl.uint(0)],
+          trader
+        );
+      }
+    }
+  });
+
+  it("stxForTokens is the smallest buy delivering N tokens", () => {
+    launch();
+    const random = rng(7);
+    simnet.callPublicFn(
+      launchpad,
+      "buy",
+      [Cl.uint(0), Cl.uint(123_456_789), Cl.uint(0)],
+      traders[0]
+    );
+    const curve = readCurve();
+    const reserve = curve.totalSupply - curve.tokensSold;
+
+    for (let i = 0; i < 50; i++) {
+      const tokens = randomAmount(random, reserve / 2n);
+      const stx = stxForTokens(curve, tokens)!;
+      expect(quoteBuy(curve, stx).tokensOut).toBeGreaterThanOrEqual(tokens);
+      if (stx > 1n) {
+        expect(quoteBuy(curve, stx - 1n).tokensOut).toBeLessThan(tokens);
+      }
+    }
+    expect(stxForTokens(curve, reserve + 1n)).toBeNull();
+
+    // And the contract agrees: buying exactly that much with
+    // min-tokens-out = N succeeds
+    const tokens = 5_000_000_000n;
+    const stx = stxForTokens(curve, tokens)!;
+    const { result } = simnet.callPublicFn(
+      launchpad,
+      "buy",
+      [Cl.uint(0), Cl.uint(stx), Cl.uint(tokens)],
+      traders[1]
+    );
+    expect(result).toHaveClarityType(ClarityType.ResponseOk);
+  });
+
+  it("distanceToGraduation names the buy that graduates the curve", () => {
+    launch();
+    simnet.callPublicFn(
+      launchpad,
+      "buy",
+      [Cl.uint(0), Cl.uint(2_000_000_000), Cl.uint(0)],
+      traders[0]
+    );
+    const curve = readCurve();
+    const distance = distanceToGraduation(curve);
+    expect(distance.stxRemaining).toBe(curve.graduationStx - curve.stxReserve);
+    expect(distance.progressBps).toBe(
+      (curve.stxReserve * 10_000n) / curve.graduationStx
+    );
+
+    // One microSTX less stays on the curve...
+    const below = quoteBuy(curve, distance.buyToGraduate - 1n);
+    expect(curve.stxReserve + distance.buyToGraduate - 1n - below.fee).toBeLessThan(
+      curve.graduationStx
+    );
+
+    // ...the exact amount graduates it
+    const { result } = simnet.callPublicFn(
+      launchpad,
+      "buy",
+      [Cl.uint(0), Cl.uint(distance.buyToGraduate), Cl.uint(0)],
+      traders[1]
+    );
+    expect(result).toHaveClarityType(ClarityType.ResponseOk);
+    expect(balanceOf(traders[1])).toBe(distance.tokensToGraduate);
+
+    const graduated = readCurve();
+    expect(graduated.graduated).toBe(true);
+    expect(distanceToGraduation(graduated)).toMatchObject({
+      stxRemaining: 0n,
+      buyToGraduate: 0n,
+      progressBps: 10_000n,
+    });
+  });
+});
@@ -0,0 +1,326 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  Cl,
+  PostConditionMode,
+  cvToHex,
+  makeContractCall,
+  randomPrivateKey,
+} from "@stacks/transactions";
+import { buildPaymentCall, generateNonce, nonceToHex } from "../sdk/client.ts";
+import {
+  type FacilitatorConfig,
+  createFacilitatorClient,
+  createFacilitatorHandler,
+  facilitatorSettle,
+  facilitatorVerify,
+  startFacilitatorServer,
+} from "../sdk/facilitator.ts";
+import { createMemoryProofStore } from "../sdk/proof-store.ts";
+import { buildPaymentRequirements, withX402 } from "../sdk/server.ts";
+import {
+  HEADER_PAYMENT_SIGNATURE,
+  STACKS_MAINNET,
+  STACKS_TESTNET,
+  type PaymentPayload,
+  type X402ServerConfig,
+} from "../sdk/types.ts";
+
+const PAYER = "ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC";
+const CONTRACT = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const PAY_TO = "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG";
+const NONCE = "0b".repeat(16);
+const FACILITATOR = "http://facilitator.test";
+
+const server: X402ServerConfig = {
+  contractAddress: CONTRACT,
+  network: STACKS_TESTNET,
+  payTo: PAY_TO,
+};
+const requirements = buildPaymentRequirements(server, { amount: "10000" });
+const payload: PaymentPayload = {
+  x402Version: 2,
+  resource: { url: "https://api.example.com/premium", description: "", mimeType: "" },
+  accepted: requirements,
+  payload: { txId: "0xabc", nonce: NONCE },
+};
+const facilitatorConfig: FacilitatorConfig = {
+  networks: [STACKS_TESTNET],
+  apiUrls: { [STACKS_TESTNET]: "http://chain" },
+  freshness: { mode: "off" },
+};
+
+// Stacks API at http://chain with one confirmed 10000 microSTX pay-stx;
+// requests to FACILITATOR go to the facilitator handler
+function stubNetwork() {
+  const handler = createFacilitatorHandler(facilitatorConfig);
+  const chain = vi.fn(async (url: string) => {
+    if (url.includes("/extended/v1/tx/")) {
+      return Response.json({
+        tx_status: "success",
+        sender_address: PAYER,
+        contract_call: {
+          contract_id: `${CONTRACT}.x402-payments`,
+          function_name: "pay-stx",
+          function_args: [
+            { name: "recipient", hex: cvToHex(Cl.principal(PAY_TO)) },
+            { name: "amount", hex: cvToHex(Cl.uint(10_000)) },
+            { name: "nonce", hex: cvToHex(Cl.bufferFromHex(NONCE)) },
+          ],
+        },
+      });
+    }
+    return Response.json({
+      okay: true,
+      result: cvToHex(
+        Cl.some(
+          Cl.tuple({
+            payer: Cl.principal(PAYER),
+            recipient: Cl.principal(PAY_TO),
+            amount: Cl.uint(10_000),
+            fee: Cl.uint(50),
+            block: Cl.uint(100),
+            "is-stx": Cl.bool(true),
+          })
+        )
+      ),
+    });
+  });
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (input: string, init?: RequestInit) =>
+      input.startsWith(FACILITATOR)
+        ? handler(new Request(input, init))
+        : chain(input)
+    )
+  );
+  return chain;
+}
+
+function post(route: string, body: unknown): Request {
+  return new Request(`${FACILITATOR}/${route}`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("facilitator handler", () => {
+  const handler = createFacilitatorHandler(facilitatorConfig);
+
+  it("lists supported schemes per network", async () => {
+    const response = await handler(new Request(`${FACILITATOR}/supported`));
+    expect(await response.json()).toEqual({
+      kinds: [
+        { x402Version: 2, scheme: "exact", network: STACKS_TESTNET },
+        { x402Version: 2, scheme: "curve", network: STACKS_TESTNET },
+      ],
+    });
+  });
+
+  it("verifies against the requirements' contract on its own API", async () => {
+    const chain = stubNetwork();
+    const response = await handler(
+      post("verify", {
+        x402Version: 2,
+        paymentPayload: payload,
+        paymentRequirements: requirements,
+      })
+    );
+    expect(await response.json()).toEqual({
+      isValid: true,
+      payer: PAYER,
+      amount: "10000",
+      recipient: PAY_TO,
+      block: "100",
+      fee: "50",
+    });
+    expect(chain).toHaveBeenCalledWith("http://chain/extended/v1/tx/0xabc");
+  });
+
+  it("settles with the receipt details, or reports why it can't", async () => {
+    stubNetwork();
+    const settled = await handler(
+      post("settle", {
+        x402Version: 2,
+        paymentPayload: payload,
+        paymentRequirements: requirements,
+      })
+    );
+    expect(await settled.json()).toEqual({
+      success: true,
+      transaction: "0xabc",
+      network: STACKS_TESTNET,
+      payer: PAYER,
+      block: "100",
+      fee: "50",
+    });
+
+    const mainnet = { ...requirements, network: STACKS_MAINNET };
+    const refused = await handler(
+      post("settle", {
+        x402Version: 2,
+        paymentPayload: { ...payload, accepted: mainnet },
+        paymentRequirements: mainnet,
+      })
+    );
+    expect(await refused.json()).toEqual({
+      success: false,
+      transaction: "0xabc",
+      network: STACKS_MAINNET,
+      errorReason: `Unsupported network: ${STACKS_MAINNET}`,
+    });
+  });
+
+  it("rejects malformed requests and unknown routes", async () => {
+    expect((await handler(post("verify", { x402Version: 2 }))).status).toBe(400);
+    for (const paymentRequirements of [
+      { ...requirements, amount: "abc" },
+      { ...requirements, amount: 10_000 },
+      { ...requirements, extra: { ...requirements.extra, curveId: "one" } },
+      { ...requirements, extra: { ...requirements.extra, minTokensOut: "-1" } },
+    ]) {
+      const response = await handler(
+        post("verify", { x402Version: 2, paymentPayload: payload, paymentRequirements })
+      );
+      expect(response.status).toBe(400);
+    }
+    const numericNonce = { ...payload, payload: { txId: "0xabc", nonce: 11 } };
+    expect(
+      (
+        await handler(
+          post("verify", {
+            x402Version: 2,
+            paymentPayload: numericNonce,
+            paymentRequirements: requirements,
+          })
+        )
+      ).status
+    ).toBe(400);
+    expect((await handler(new Request(`${FACILITATOR}/verify`))).status).toBe(405);
+    expect((await handler(post("refund", {}))).status).toBe(404);
+  });
+});
+
+describe("sponsoring facilitator", () => {
+  it("requires a payment contract allowlist", async () => {
+    const sponsor = { privateKey: randomPrivateKey() };
+    expect(() => createFacilitatorHandler({ ...facilitatorConfig, sponsor })).toThrow(
+      "FacilitatorConfig.contracts is required with sponsor"
+    );
+
+    const sponsored: PaymentPayload = {
+      ...payload,
+      payload: { transaction: "00", nonce: NONCE },
+    };
+    expect(
+      await facilitatorVerify({ ...facilitatorConfig, sponsor }, sponsored, requirements)
+    ).toEqual({
+      isValid: false,
+      invalidReason: "Sponsored payments need configured payment contracts",
+    });
+    expect(
+      await facilitatorSettle({ ...facilitatorConfig, sponsor }, sponsored, requirements)
+    ).toMatchObject({
+      success: false,
+      errorReason: "Sponsored payments need configured payment contracts",
+    });
+  });
+});
+
+describe("facilitator errors", () => {
+  it("answers 500 instead of rejecting when settlement throws", async () => {
+    // A misconfigured sponsor key only fails once a payment is settled
+    const handler = createFacilitatorHandler({
+      ...facilitatorConfig,
+      contracts: [`${CONTRACT}.x402-payments`],
+      sponsor: { privateKey: "not-a-key" },
+    });
+    const nonce = generateNonce();
+    const call = buildPaymentCall(requirements, nonce);
+    const tx = await makeContractCall({
+      ...call,
+      postConditionMode: PostConditionMode.Deny,
+      senderKey: randomPrivateKey(),
+      sponsored: true,
+      fee: 0,
+      nonce: 0,
+      network: "testnet",
+    });
+    const sponsored: PaymentPayload = {
+      ...payload,
+      payload: { transaction: tx.serialize(), nonce: nonceToHex(nonce) },
+    };
+
+    const response = await handler(
+      post("settle", {
+        x402Version: 2,
+        paymentPayload: sponsored,
+        paymentRequirements: requirements,
+      })
+    );
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ error: "facilitator_error" });
+  });
+
+  it("keeps the standalone server up after a bad request", async () => {
+    const server = await startFacilitatorServer(facilitatorConfig, {
+      port: 0,
+      host: "127.0.0.1",
+    });
+    try {
+      const address = server.address();
+      const base = `http://127.0.0.1:${typeof address === "object" && address?.port}`;
+
+      const bad = await fetch(`${base}/verify`, { method: "POST", body: "{" });
+      expect(bad.status).toBe(400);
+      expect(bad.headers.get("content-type")).toMatch(/application\/json/);
+
+      const supported = await fetch(`${base}/supported`);
+      expect(supported.status).toBe(200);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
+
+describe("FacilitatorClient", () => {
+  it("lets withX402 verify through the facilitator", async () => {
+    const chain = stubNetwork();
+    const facilitator = createFacilitatorClient(`${FACILITATOR}/`);
+    expect((await facilitator.supported()).kinds).toHaveLength(2);
+
+    const result = await withX402(
+      {
+        ...server,
+        // The resource server's own API would fail every lookup
+        apiUrl: "http://unreachable",
+        proofStore: createMemoryProofStore(),
+        facilitator,
+      },
+      {
+        url: payload.resource.url,
+        headers: { [HEADER_PAYMENT_SIGNATURE]: btoa(JSON.stringify(payload)) },
+      },
+      { amount: "10000" }
+    );
+
+    expect(result.allowed).toBe(true);
+    expect(result.allowed && result.settlement.block).toBe("100");
+    expect(chain.mock.calls.every(([url]) => url.startsWith("http://chain"))).toBe(
+      true
+    );
+  });
+
+  it("throws when the facilitator is unavailable", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("down", { status: 503 }))
+    );
+    await expect(
+      createFacilitatorClient(FACILITATOR).verify(payload, requirements)
+    ).rejects.toThrow("Facilitator /verify failed: 503");
+  });
+});
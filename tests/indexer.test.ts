@@ -0,0 +1,388 @@
+import { describe, expect, it } from "vitest";
+import { Cl, PostConditionMode, cvToHex, makeContractCall } from "@stacks/transactions";
+import {
+  type ChainBlock,
+  type ContractEvent,
+  type StacksChainProvider,
+  createSimnetProvider,
+} from "../sdk/chain.ts";
+import { buildPaymentCall, generateNonce, nonceToHex } from "../sdk/client.ts";
+import {
+  type SqliteDatabase,
+  createEventIndexer,
+  createMemoryEventStore,
+  createSqliteEventStore,
+} from "../sdk/indexer.ts";
+import type { ProtocolEvent } from "../sdk/events.ts";
+import { buildPaymentRequirements } from "../sdk/server.ts";
+import { STACKS_TESTNET } from "../sdk/types.ts";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const payer = accounts.get("wallet_1")!;
+const payTo = accounts.get("wallet_2")!;
+// wallet_1's secret_key from settings/Devnet.toml
+const payerKey =
+  "7287ba251d44a4d3fd9276c88ce34c5c52a038955511cccaf77e61068649c17801";
+
+const hash = (height: number, fork = "a") => `0x${fork}${height}`;
+
+function taskPosted(taskId: number): string {
+  return cvToHex(
+    Cl.tuple({
+      event: Cl.stringAscii("task-posted"),
+      "task-id": Cl.uint(taskId),
+      poster: Cl.principal(payer),
+      bounty: Cl.uint(1_000),
+      fee: Cl.uint(10),
+      deadline: Cl.uint(500),
+    })
+  );
+}
+
+// A chain whose blocks can be swapped out to simulate a reorg
+function forkableChain() {
+  const blocks = new Map<number, { block: ChainBlock; events: ContractEvent[] }>();
+  const mine = (height: number, fork: string, events: string[] = []) =>
+    blocks.set(height, {
+      block: {
+        height,
+        hash: hash(height, fork),
+        parentHash: blocks.get(height - 1)?.block.hash ?? "0x00",
+      },
+      events: events.map((valueHex, eventIndex) => ({
+        txId: `0x${fork}${height}tx`,
+        eventIndex,
+        contractId: `${deployer}.task-board`,
+        valueHex,
+      })),
+    });
+  const offline = async (): Promise<never> => {
+    throw new Error("offline");
+  };
+  const chain: StacksChainProvider = {
+    getTx: offline,
+    callReadOnly: offline,
+    getBlockTime: offline,
+    getAccountNonce: offline,
+    getStxBalance: offline,
+    broadcast: offline,
+    async getTip() {
+      return { height: Math.max(...blocks.keys()) };
+    },
+    async getBlock(height) {
+      return blocks.get(height)?.block ?? null;
+    },
+    async getBlockEvents(height) {
+      return blocks.get(height) ?? null;
+    },
+  };
+  return { chain, mine };
+}
+
+type Row = Record<string, unknown>;
+
+// Just enough of a synchronous SQLite driver to run the statements the
+// store issues, with NOT NULL checks and BEGIN/ROLLBACK snapshots
+function minimalSqlite(): SqliteDatabase & { schema: string[] } {
+  let blocks = new Map<number, Row>();
+  let events: Row[] = [];
+  let snapshot: { blocks: Map<number, Row>; events: Row[] } | null = null;
+  let rowid = 0;
+  const schema: string[] = [];
+
+  const insert = (columns: string[], params: unknown[], nullable: string[]) => {
+    const row: Row = {};
+    columns.forEach((column, i) => {
+      if (params[i] === undefined) throw new Error("Too few parameters");
+      if (params[i] === null && !nullable.includes(column)) {
+        throw new Error(`NOT NULL constraint failed: ${column}`);
+      }
+      row[column] = params[i];
+    });
+    return row;
+  };
+
+  // "col = ?", "col IN (?, ?)", "col >= ?" and "col <= ?", joined by AND
+  function whereFilter(where: string, params: unknown[]) {
+    const tests = where.split(" AND ").map((clause) => {
+      const [, column, op, list] = clause.match(/^(\w+) (=|>=|<=|IN) (.+)$/)!;
+      if (op === "IN") {
+        const values = list.split(",").map(() => params.shift());
+        return (row: Row) => values.includes(row[column]);
+      }
+      const value = params.shift() as number;
+      return (row: Row) =>
+        op === "=" ? row[column] === value
+        : op === ">=" ? (row[column] as number) >= value
+        : (row[column] as number) <= value;
+    });
+    return (row: Row) => tests.every((test) => test(row));
+  }
+
+  return {
+    schema,
+    exec(sql) {
+      if (sql === "BEGIN") {
+        snapshot = { blocks: new Map(blocks), events: [...events] };
+      } else if (sql === "COMMIT") {
+        snapshot = null;
+      } else if (sql === "ROLLBACK") {
+        ({ blocks, events } = snapshot!);
+        snapshot = null;
+      } else {
+        schema.push(...sql.split(";").map((s) => s.trim().replace(/\s+/g, " ")));
+      }
+    },
+    prepare(sql) {
+      const statement = sql.trim().replace(/\s+/g, " ");
+      const none = () => {
+        throw new Error(`Unsupported statement: ${statement}`);
+      };
+      const run = (...params: unknown[]) => {
+        if (statement.startsWith("INSERT OR REPLACE INTO x402_blocks")) {
+          const row = insert(["height", "hash", "parent_hash", "time"], params, ["time"]);
+          blocks.set(row.height as number, row);
+        } else if (statement.startsWith("INSERT INTO x402_events")) {
+          const columns = statement.match(/\((.+?)\)/)![1].split(", ");
+          events.push({ ...insert(columns, params, ["block_time"]), rowid: ++rowid });
+        } else if (statement === "DELETE FROM x402_events WHERE block_height > ?") {
+          const height = params[0] as number;
+          events = events.filter((e) => (e.block_height as number) <= height);
+        } else if (statement === "DELETE FROM x402_blocks WHERE height > ?") {
+          for (const height of blocks.keys()) {
+            if (height > (params[0] as number)) blocks.delete(height);
+          }
+        } else {
+          none();
+        }
+      };
+      const all = (...params: unknown[]): unknown[] => {
+        if (statement === "SELECT * FROM x402_blocks ORDER BY height DESC LIMIT 1") {
+          const heights = [...blocks.keys()];
+          return heights.length ? [blocks.get(Math.max(...heights))] : [];
+        }
+        if (statement === "SELECT * FROM x402_blocks WHERE height = ?") {
+          return blocks.has(params[0] as number) ? [blocks.get(params[0] as number)] : [];
+        }
+        const select = statement.match(
+          /^SELECT \* FROM x402_events (?:WHERE (.+) )?ORDER BY rowid$/
+        );
+        if (!select) none();
+        const matches = select![1] ? whereFilter(select![1], [...params]) : () => true;
+        return events.filter(matches);
+      };
+      return { run, all, get: (...params) => all(...params)[0] };
+    },
+  };
+}
+
+function storedEvent(
+  height: number,
+  txId: string,
+  data: ProtocolEvent<"x402-payment">["data"]
+): ProtocolEvent {
+  return {
+    event: "x402-payment",
+    data,
+    txId,
+    eventIndex: 0,
+    contractId: `${deployer}.x402-payments`,
+    blockHeight: height,
+    blockHash: hash(height),
+  };
+}
+
+describe("createSqliteEventStore", () => {
+  const payment = (amount: bigint) => ({
+    type: "stx" as const,
+    payer,
+    recipient: payTo,
+    amount,
+    fee: amount / 100n,
+    nonce: "ab".repeat(32),
+  });
+
+  it("creates its tables and indexes, including one by block height", () => {
+    const db = minimalSqlite();
+    createSqliteEventStore(db);
+    expect(db.schema).toContain(
+      "CREATE INDEX IF NOT EXISTS x402_events_by_height ON x402_events (block_height)"
+    );
+  });
+
+  it("stores blocks and events, round-tripping bigints through JSON", async () => {
+    const store = createSqliteEventStore(minimalSqlite());
+    expect(await store.getCheckpoint()).toBeNull();
+
+    await store.addBlock({ height: 1, hash: hash(1), parentHash: "0x00", time: 100 }, [
+      storedEvent(1, "0x01", payment(2n ** 70n)),
+    ]);
+    await store.addBlock({ height: 2, hash: hash(2), parentHash: hash(1) }, []);
+
+    expect(await store.getCheckpoint()).toEqual({
+      height: 2,
+      hash: hash(2),
+      parentHash: hash(1),
+    });
+    expect(await store.getBlock(1)).toMatchObject({ time: 100 });
+    expect(await store.getBlock(3)).toBeNull();
+    const [stored] = await store.query({ event: "x402-payment" });
+    expect(stored).toEqual(storedEvent(1, "0x01", payment(2n ** 70n)));
+    expect(stored.data.amount).toBe(2n ** 70n);
+  });
+
+  it("adds a block atomically", async () => {
+    const store = createSqliteEventStore(minimalSqlite());
+    const broken = {
+      ...storedEvent(1, "0x01", payment(1n)),
+      txId: null as unknown as string,
+    };
+
+    await expect(
+      store.addBlock({ height: 1, hash: hash(1), parentHash: "0x00" }, [
+        storedEvent(1, "0x00", payment(1n)),
+        broken,
+      ])
+    ).rejects.toThrow("NOT NULL constraint failed: tx_id");
+    expect(await store.getCheckpoint()).toBeNull();
+    expect(await store.query()).toEqual([]);
+  });
+
+  it("filters in SQL and by event fields, then pages", async () => {
+    const store = createSqliteEventStore(minimalSqlite());
+    for (let height = 1; height <= 4; height++) {
+      await store.addBlock(
+        { height, hash: hash(height), parentHash: hash(height - 1) },
+        [storedEvent(height, `0x0${height}`, payment(BigInt(height * 1_000)))]
+      );
+    }
+    const amounts = async (filter: Parameters<typeof store.query>[0]) =>
+      (await store.query(filter)).map((e) => e.event === "x402-payment" && e.data.amount);
+
+    expect(await amounts({ fromHeight: 2, toHeight: 3 })).toEqual([2_000n, 3_000n]);
+    expect(await amounts({ txId: "0x04" })).toEqual([4_000n]);
+    expect(await amounts({ event: ["task-posted", "x402-payment"], limit: 2 })).toEqual([
+      1_000n,
+      2_000n,
+    ]);
+    expect(await amounts({ event: "task-posted" })).toEqual([]);
+    expect(await amounts({ contractId: `${deployer}.task-board` })).toEqual([]);
+    expect(await amounts({ where: { amount: 3_000n } })).toEqual([3_000n]);
+    expect(await amounts({ reverse: true, offset: 1 })).toEqual([3_000n, 2_000n, 1_000n]);
+
+    await store.rollback(2);
+    expect(await store.getCheckpoint()).toMatchObject({ height: 2 });
+    expect(await amounts({})).toEqual([1_000n, 2_000n]);
+  });
+
+  it("backs the indexer through a reorg", async () => {
+    const { chain, mine } = forkableChain();
+    mine(1, "a", [taskPosted(0)]);
+    mine(2, "a", [taskPosted(1)]);
+    const indexer = createEventIndexer({
+      chain,
+      store: createSqliteEventStore(minimalSqlite()),
+    });
+    expect(await indexer.sync()).toBe(2);
+
+    mine(2, "b", [taskPosted(2)]);
+    mine(3, "b");
+    expect(await indexer.sync()).toBe(2);
+    expect(
+      (await indexer.store.query({ event: "task-posted" })).map((e) => e.data.taskId)
+    ).toEqual([0n, 2n]);
+  });
+});
+
+describe("createEventIndexer", () => {
+  it("indexes payments broadcast on simnet", async () => {
+    const chain = createSimnetProvider(simnet);
+    const startHeight = simnet.stacksBlockHeight;
+    const requirements = buildPaymentRequirements(
+      { contractAddress: deployer, network: STACKS_TESTNET, payTo },
+      { amount: "10000" }
+    );
+    const nonce = generateNonce();
+    const call = buildPaymentCall(requirements, nonce);
+    const tx = await makeContractCall({
+      contractAddress: call.contractAddress,
+      contractName: call.contractName,
+      functionName: call.functionName,
+      functionArgs: call.functionArgs,
+      postConditionMode: PostConditionMode.Deny,
+      postConditions: call.postConditions,
+      senderKey: payerKey,
+      fee: 0,
+      nonce: 0,
+      network: "testnet",
+    });
+    const broadcast = await chain.broadcast(tx.serializeBytes());
+    if (typeof broadcast === "string") throw new Error(broadcast);
+
+    const indexer = createEventIndexer({
+      chain,
+      store: createMemoryEventStore(),
+      contracts: [`${deployer}.x402-payments`],
+      startHeight,
+    });
+    expect(await indexer.sync()).toBe(1);
+    expect(await indexer.sync()).toBe(0);
+
+    const payments = await indexer.store.query({
+      event: "x402-payment",
+      where: { payer },
+    });
+    expect(payments).toHaveLength(1);
+    expect(payments[0]).toMatchObject({
+      txId: broadcast.txId,
+      contractId: `${deployer}.x402-payments`,
+      blockHeight: startHeight,
+      data: { type: "stx", recipient: payTo, amount: 10_000n, nonce: nonceToHex(nonce) },
+    });
+  });
+
+  it("rolls back orphaned blocks and re-indexes the new fork", async () => {
+    const { chain, mine } = forkableChain();
+    mine(1, "a");
+    mine(2, "a", [taskPosted(0)]);
+    mine(3, "a", [taskPosted(1), cvToHex(Cl.uint(7))]);
+    const reorgs: number[] = [];
+    const indexer = createEventIndexer({
+      chain,
+      store: createMemoryEventStore(),
+      onReorg: (height) => reorgs.push(height),
+    });
+
+    expect(await indexer.sync()).toBe(3);
+    // Prints that aren't protocol events are skipped
+    expect(await indexer.store.query()).toHaveLength(2);
+
+    // Block 3 is replaced, and the new fork grows past it
+    mine(3, "b", [taskPosted(2)]);
+    mine(4, "b");
+    mine(5, "b", [taskPosted(3)]);
+
+    expect(await indexer.sync()).toBe(3);
+    expect(reorgs).toEqual([2]);
+    expect(
+      (await indexer.store.query({ event: "task-posted" })).map((e) => e.data.taskId)
+    ).toEqual([0n, 2n, 3n]);
+
+    // Blocks 2 through 5 are replaced by a longer fork
+    mine(2, "c");
+    mine(3, "c");
+    mine(4, "c");
+    mine(5, "c");
+    mine(6, "c", [taskPosted(4)]);
+
+    expect(await indexer.sync()).toBe(5);
+    expect(reorgs).toEqual([2, 1]);
+    const events = await indexer.store.query({ event: "task-posted" });
+    expect(events.map((e) => e.data.taskId)).toEqual([4n]);
+    expect(await indexer.store.getCheckpoint()).toMatchObject({
+      height: 6,
+      hash: hash(6, "c"),
+    });
+  });
+});
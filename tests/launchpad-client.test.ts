@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import { Cl, ClarityType } from "@stacks/transactions";
+import * as client from "../sdk/launchpad-client.ts";
+import * as reader from "../sdk/launchpad-reader.ts";
+import { buildRegisterAgent } from "../sdk/agent-client.ts";
+import type { ContractCallArgs } from "../sdk/agent-client.ts";
+import { LAUNCHPAD_ERRORS, type AgentSDKConfig } from "../sdk/agent-types.ts";
+import { STACKS_TESTNET } from "../sdk/types.ts";
+import { createSimnetProvider } from "../sdk/chain.ts";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const creator = accounts.get("wallet_1")!;
+const buyer = accounts.get("wallet_2")!;
+
+const config: AgentSDKConfig = {
+  contractAddress: deployer,
+  network: STACKS_TESTNET,
+  // Read-only calls go straight to simnet
+  chain: createSimnetProvider(simnet),
+};
+
+function send(call: ContractCallArgs, sender: string) {
+  return simnet.callPublicFn(
+    call.contractName,
+    call.functionName,
+    call.functionArgs,
+    sender
+  ).result;
+}
+
+function launch() {
+  send(
+    buildRegisterAgent(config, {
+      name: "Curve Agent",
+      descriptionUrl: "https://example.com",
+      pricePerTask: 1_000n,
+      acceptsStx: true,
+      acceptsSip010: false,
+    }),
+    creator
+  );
+  return send(client.buildLaunch(config, { name: "Agent", symbol: "AGT" }), creator);
+}
+
+describe("launchpad-client", () => {
+  it("builders match the deployed contract", () => {
+    const iface = simnet
+      .getContractsInterfaces()
+      .get(`${deployer}.agent-launchpad`)!;
+    const calls = [
+      client.buildLaunch(config, { name: "A", symbol: "A" }),
+      client.buildBuy(config, {
+        curveId: 0n,
+        stxAmount: 1n,
+        minTokensOut: 0n,
+        feeBps: 100n,
+        accruedFees: 0n,
+      }),
+      client.buildSell(config, { curveId: 0n, tokenAmount: 1n, minStxOut: 0n }),
+      client.buildTransfer(config, { curveId: 0n, amount: 1n, recipient: buyer }),
+      client.buildGraduate(config, 0n),
+    ];
+    for (const call of calls) {
+      const fn = iface.functions.find((f) => f.name === call.functionName)!;
+      expect(fn.access).toBe("public");
+      expect(Object.keys(call.namedArgs)).toEqual(fn.args.map((a) => a.name));
+    }
+  });
+
+  it("launches, trades and transfers", () => {
+    expect(launch()).toBeOk(Cl.uint(0));
+
+    const buy = client.buildBuy(config, {
+      curveId: 0n,
+      stxAmount: 1_000_000n,
+      minTokensOut: 1n,
+      feeBps: 100n,
+      accruedFees: 0n,
+    });
+    expect(buy.breakdown).toEqual({
+      total: 1_000_000n,
+      net: 990_000n,
+      fee: 10_000n,
+    });
+    expect(send(buy, buyer)).toHaveClarityType(ClarityType.ResponseOk);
+
+    expect(
+      send(
+        client.buildTransfer(config, { curveId: 0n, amount: 10n, recipient: creator }),
+        buyer
+      )
+    ).toBeOk(Cl.bool(true));
+
+    expect(
+      send(
+        client.buildSell(config, {
+          curveId: 0n,
+          tokenAmount: 11n,
+          minStxOut: 0n,
+        }),
+        creator
+      )
+    ).toBeErr(Cl.uint(LAUNCHPAD_ERRORS.INSUFFICIENT_BALANCE));
+  });
+});
+
+describe("launchpad-reader", () => {
+  it("decodes curves, balances and stats", async () => {
+    expect(await reader.getCurve(config, 0n)).toBeNull();
+    expect(await reader.getAgentCurve(config, creator)).toBeNull();
+
+    launch();
+    send(
+      client.buildBuy(config, {
+        curveId: 0n,
+        stxAmount: 1_000_000n,
+        minTokensOut: 0n,
+        feeBps: 100n,
+        accruedFees: 0n,
+      }),
+      buyer
+    );
+
+    const curve = (await reader.getCurve(config, 0n))!;
+    expect(curve).toMatchObject({
+      creator,
+      name: "Agent",
+      symbol: "AGT",
+      stxReserve: 990_000n,
+      accruedFees: 10_000n,
+      graduated: false,
+    });
+    expect(await reader.getAgentCurve(config, creator)).toBe(0n);
+    expect(await reader.getBalance(config, 0n, buyer)).toBe(curve.tokensSold);
+    expect(await reader.getBalance(config, 0n, creator)).toBe(0n);
+    expect((await reader.getLaunchpadStats(config)).totalCurves).toBe(1n);
+  });
+
+  it("quotes trades and prices", async () => {
+    launch();
+    const quote = await reader.getBuyQuote(config, 0n, 1_000_000n);
+    expect(quote.fee).toBe(10_000n);
+
+    send(
+      client.buildBuy(config, {
+        curveId: 0n,
+        stxAmount: 1_000_000n,
+        minTokensOut: quote.tokensOut,
+        feeBps: 100n,
+        accruedFees: 0n,
+      }),
+      buyer
+    );
+    expect(await reader.getBalance(config, 0n, buyer)).toBe(quote.tokensOut);
+
+    const sell = await reader.getSellQuote(config, 0n, quote.tokensOut);
+    expect(sell.stxOut + sell.fee).toBeLessThanOrEqual(990_000n);
+    expect(await reader.getPrice(config, 0n)).toBeGreaterThan(0n);
+
+    await expect(reader.getBuyQuote(config, 9n, 1n)).rejects.toThrow(
+      `(err u${LAUNCHPAD_ERRORS.CURVE_NOT_FOUND})`
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createFileProofStore,
+  createMemoryProofStore,
+  nextRedemption,
+  proofKey,
+  resourceKey,
+} from "../sdk/proof-store.ts";
+
+const T0 = 1_700_000_000_000;
+
+async function withTempDir(run: (dir: string) => Promise<void>) {
+  const dir = await mkdtemp(join(tmpdir(), "x402-proofs-"));
+  try {
+    await run(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+describe("nextRedemption", () => {
+  it("allows one redemption by default", () => {
+    const first = nextRedemption(undefined, {}, T0);
+    expect(first).toEqual({ count: 1, firstRedeemedAt: T0 });
+    expect(nextRedemption(first!, {}, T0 + 1)).toBeNull();
+  });
+
+  it("allows N redemptions", () => {
+    let record = nextRedemption(undefined, { maxRedemptions: 3 }, T0)!;
+    record = nextRedemption(record, { maxRedemptions: 3 }, T0 + 1)!;
+    record = nextRedemption(record, { maxRedemptions: 3 }, T0 + 2)!;
+    expect(record).toEqual({ count: 3, firstRedeemedAt: T0 });
+    expect(nextRedemption(record, { maxRedemptions: 3 }, T0 + 3)).toBeNull();
+  });
+
+  it("allows unlimited redemptions within a TTL, capped by maxRedemptions", () => {
+    const first = nextRedemption(undefined, { ttlSeconds: 60 }, T0)!;
+    expect(
+      nextRedemption({ ...first, count: 1_000 }, { ttlSeconds: 60 }, T0 + 60_000)
+    ).toEqual({ count: 1_001, firstRedeemedAt: T0 });
+    expect(nextRedemption(first, { ttlSeconds: 60 }, T0 + 60_001)).toBeNull();
+    expect(
+      nextRedemption({ ...first, count: 2 }, { ttlSeconds: 60, maxRedemptions: 2 }, T0 + 1)
+    ).toBeNull();
+  });
+});
+
+describe("resourceKey", () => {
+  it("keys on the normalized path, never the request's host", () => {
+    const key = resourceKey("https://api.example.com/premium");
+    expect(key).toBe("/premium");
+    for (const url of [
+      "https://evil.example.com/premium",
+      "https://api.example.com/Premium/",
+      "https://api.example.com//premium?x=1#top",
+      "https://api.example.com/a/../premium",
+    ]) {
+      expect(resourceKey(url)).toBe(key);
+    }
+    expect(resourceKey("https://api.example.com/")).toBe("/");
+  });
+
+  it("prefers the route's resource id, then the configured origin", () => {
+    const url = "https://evil.example.com/Premium/";
+    expect(resourceKey(url, { resource: "feed", origin: "https://a.example" })).toBe("feed");
+    expect(resourceKey(url, { origin: "https://api.example.com/" })).toBe(
+      "https://api.example.com/premium"
+    );
+  });
+
+  it("builds proof keys from a case- and prefix-insensitive nonce", () => {
+    expect(proofKey("0xABCD", "/premium")).toBe("abcd:/premium");
+    expect(proofKey("abcd", "/premium")).toBe(proofKey("0xAbCd", "/premium"));
+  });
+});
+
+describe("createMemoryProofStore", () => {
+  it("redeems per policy and evicts the least recently used key", async () => {
+    const store = createMemoryProofStore({ maxEntries: 2 });
+    expect(await store.redeem("a", {}, T0)).toBe(true);
+    expect(await store.redeem("a", {}, T0)).toBe(false);
+    expect(await store.redeem("b", { maxRedemptions: 2 }, T0)).toBe(true);
+    expect(await store.redeem("b", { maxRedemptions: 2 }, T0)).toBe(true);
+    expect(await store.redeem("b", { maxRedemptions: 2 }, T0)).toBe(false);
+
+    // "a" is now the oldest and makes way for "c"
+    expect(await store.redeem("c", {}, T0)).toBe(true);
+    expect(await store.redeem("a", {}, T0)).toBe(true);
+  });
+});
+
+describe("createFileProofStore", () => {
+  it("persists redemptions across instances", async () => {
+    await withTempDir(async (dir) => {
+      const path = join(dir, "proofs.json");
+      const store = createFileProofStore(path);
+      expect(await store.redeem("a", { maxRedemptions: 2 }, T0)).toBe(true);
+
+      const reopened = createFileProofStore(path);
+      expect(await reopened.redeem("a", { maxRedemptions: 2 }, T0 + 1)).toBe(true);
+      expect(await reopened.redeem("a", { maxRedemptions: 2 }, T0 + 2)).toBe(false);
+      expect(JSON.parse(await readFile(path, "utf-8"))).toEqual({
+        a: { count: 2, firstRedeemedAt: T0 },
+      });
+    });
+  });
+
+  it("lets only one of concurrent redemptions through", async () => {
+    await withTempDir(async (dir) => {
+      const store = createFileProofStore(join(dir, "proofs.json"));
+      const results = await Promise.all(
+        Array.from({ length: 5 }, () => store.redeem("a", {}, T0))
+      );
+      expect(results.filter(Boolean)).toHaveLength(1);
+    });
+  });
+
+  it("refuses expired TTL proofs and prunes records past retention", async () => {
+    await withTempDir(async (dir) => {
+      const path = join(dir, "proofs.json");
+      const store = createFileProofStore(path, { retentionSeconds: 3_600 });
+      expect(await store.redeem("a", { ttlSeconds: 60 }, T0)).toBe(true);
+      expect(await store.redeem("a", { ttlSeconds: 60 }, T0 + 30_000)).toBe(true);
+      expect(await store.redeem("a", { ttlSeconds: 60 }, T0 + 61_000)).toBe(false);
+      expect(await store.redeem("b", {}, T0 + 1_800_000)).toBe(true);
+
+      expect(await store.redeem("c", {}, T0 + 3_600_000)).toBe(true);
+      expect(Object.keys(JSON.parse(await readFile(path, "utf-8")))).toEqual(["b", "c"]);
+    });
+  });
+});
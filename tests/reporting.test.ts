@@ -0,0 +1,228 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { makeContractCall } from "@stacks/transactions";
+import { withX402Route } from "../sdk/adapters.ts";
+import { createSimnetProvider } from "../sdk/chain.ts";
+import {
+  buildPaymentCall,
+  createKeyPayer,
+  generateNonce,
+  wrapFetchWithPayment,
+} from "../sdk/client.ts";
+import { createEventIndexer, createMemoryEventStore } from "../sdk/indexer.ts";
+import { createMemoryProofStore } from "../sdk/proof-store.ts";
+import {
+  type PaymentRecord,
+  buildRevenueReport,
+  createFilePaymentLog,
+  createMemoryPaymentLog,
+  loadIndexedPayments,
+  toCsv,
+  toJson,
+} from "../sdk/reporting.ts";
+import { buildPaymentRequirements } from "../sdk/server.ts";
+import { STACKS_TESTNET, type X402ServerConfig } from "../sdk/types.ts";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const payer = accounts.get("wallet_1")!;
+const payTo = accounts.get("wallet_2")!;
+// wallet_1's secret_key from settings/Devnet.toml
+const payerKey =
+  "7287ba251d44a4d3fd9276c88ce34c5c52a038955511cccaf77e61068649c17801";
+
+const DAY = 86_400_000;
+const T0 = Date.UTC(2025, 0, 1, 12);
+
+function payment(overrides: Partial<PaymentRecord>): PaymentRecord {
+  return {
+    txId: "0x01",
+    payer,
+    recipient: payTo,
+    asset: "STX",
+    amount: 10_000n,
+    fee: 100n,
+    nonce: "00".repeat(16),
+    time: T0,
+    resource: "https://api.example.com/a",
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("buildRevenueReport", () => {
+  it("groups revenue by resource, payer and day, per asset", () => {
+    const served = [
+      payment({ txId: "0x01" }),
+      payment({ txId: "0x02", time: T0 + DAY, resource: "https://api.example.com/b" }),
+      payment({ txId: "0x03", time: T0 + DAY, payer: payTo, amount: 500n, fee: 5n }),
+      payment({ txId: "0x04", asset: `${deployer}.sbtc`, amount: 7n, fee: 0n }),
+    ];
+
+    const report = buildRevenueReport(served);
+
+    expect(report.totals).toEqual([
+      { key: "total", asset: "STX", count: 3, gross: 20_500n, fees: 205n, net: 20_295n },
+      { key: "total", asset: `${deployer}.sbtc`, count: 1, gross: 7n, fees: 0n, net: 7n },
+    ]);
+    expect(report.byResource.map((r) => [r.key, r.asset, r.gross])).toEqual([
+      ["https://api.example.com/a", "STX", 10_500n],
+      ["https://api.example.com/b", "STX", 10_000n],
+      ["https://api.example.com/a", `${deployer}.sbtc`, 7n],
+    ]);
+    expect(report.byPayer.map((r) => [r.key, r.count])).toEqual([
+      [payer, 2],
+      [payTo, 1],
+      [payer, 1],
+    ]);
+    expect(report.byDay.map((r) => [r.key, r.asset, r.count])).toEqual([
+      ["2025-01-01", "STX", 1],
+      ["2025-01-01", `${deployer}.sbtc`, 1],
+      ["2025-01-02", "STX", 2],
+    ]);
+
+    const firstDay = buildRevenueReport(served, { from: T0, to: T0 + DAY - 1 });
+    expect(firstDay.totals.map((r) => r.count)).toEqual([1, 1]);
+  });
+
+  it("flags repeat payments for one resource as refund candidates", () => {
+    const served = [
+      payment({ txId: "0x01" }),
+      payment({ txId: "0x02", time: T0 + 30_000 }),
+      payment({ txId: "0x03", time: T0 + 30_000, resource: "https://api.example.com/b" }),
+      payment({ txId: "0x04", time: T0 + 200_000 }),
+    ];
+    expect(
+      buildRevenueReport(served).refundCandidates.map((c) => [c.payment.txId, c.reason])
+    ).toEqual([["0x02", "duplicate"]]);
+  });
+
+  it("exports rows as CSV and JSON", () => {
+    const rows = buildRevenueReport([
+      payment({ resource: 'https://api.example.com/q,"x"' }),
+    ]).byResource;
+
+    expect(toCsv(rows)).toBe(
+      'key,asset,count,gross,fees,net\n"https://api.example.com/q,""x""",STX,1,10000,100,9900\n'
+    );
+    expect(JSON.parse(toJson(rows))[0]).toMatchObject({ gross: "10000", net: "9900" });
+    expect(toCsv(rows, ["key", "net"])).toBe('key,net\n"https://api.example.com/q,""x""",9900\n');
+  });
+});
+
+describe("createFilePaymentLog", () => {
+  it("persists payments across instances", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "x402-log-"));
+    try {
+      const path = join(dir, "payments.jsonl");
+      expect(await createFilePaymentLog(path).list()).toEqual([]);
+
+      const log = createFilePaymentLog(path);
+      await Promise.all([
+        log.record(payment({ txId: "0x01" })),
+        log.record(payment({ txId: "0x02", fee: undefined })),
+      ]);
+
+      const reopened = await createFilePaymentLog(path).list();
+      expect(reopened).toEqual([
+        payment({ txId: "0x01" }),
+        { ...payment({ txId: "0x02" }), fee: undefined },
+      ]);
+      expect(reopened[1]).not.toHaveProperty("fee");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("withX402 payment log on simnet", () => {
+  it("records served payments and reports unserved ones from the index", async () => {
+    const RESOURCE = "https://api.example.com/premium";
+    const chain = createSimnetProvider(simnet);
+    const paymentLog = createMemoryPaymentLog();
+    const config: X402ServerConfig = {
+      contractAddress: deployer,
+      network: STACKS_TESTNET,
+      payTo,
+      chain,
+      origin: "https://api.example.com",
+      proofStore: createMemoryProofStore(),
+      paymentLog,
+    };
+    const route = withX402Route(async () => Response.json({ data: "premium" }), {
+      config,
+      amount: "10000",
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (input: string | URL | Request, init?: RequestInit) =>
+        route(new Request(input, init), {})
+      )
+    );
+    const startHeight = simnet.stacksBlockHeight;
+    const payingFetch = wrapFetchWithPayment({
+      ...createKeyPayer({ privateKey: payerKey, network: STACKS_TESTNET, chain }),
+      network: STACKS_TESTNET,
+      chain,
+      pollInterval: 1,
+    });
+
+    expect((await payingFetch(`${RESOURCE}?q=1`)).status).toBe(200);
+
+    // A payment that reaches the chain but is never presented to the server
+    const call = buildPaymentCall(
+      buildPaymentRequirements(config, { amount: "2500" }),
+      generateNonce()
+    );
+    const tx = await makeContractCall({
+      contractAddress: call.contractAddress,
+      contractName: call.contractName,
+      functionName: call.functionName,
+      functionArgs: call.functionArgs,
+      senderKey: payerKey,
+      fee: 0,
+      nonce: 1,
+      network: "testnet",
+    });
+    const unserved = await chain.broadcast(tx.serializeBytes());
+    if (typeof unserved === "string") throw new Error(unserved);
+
+    const served = await paymentLog.list();
+    expect(served).toEqual([
+      expect.objectContaining({
+        payer,
+        recipient: payTo,
+        asset: "STX",
+        amount: 10_000n,
+        resource: RESOURCE,
+        scheme: "exact",
+        network: STACKS_TESTNET,
+      }),
+    ]);
+
+    const indexer = createEventIndexer({
+      chain,
+      store: createMemoryEventStore(),
+      startHeight,
+    });
+    await indexer.sync();
+    const onChain = await loadIndexedPayments(indexer.store, payTo);
+    expect(onChain.map((p) => p.txId)).toEqual([served[0].txId, unserved.txId]);
+
+    const report = buildRevenueReport(served, { onChain });
+    expect(report.byResource).toEqual([
+      expect.objectContaining({ key: RESOURCE, count: 1, gross: 10_000n }),
+    ]);
+    expect(report.refundCandidates).toEqual([
+      {
+        payment: expect.objectContaining({ txId: unserved.txId, amount: 2_500n }),
+        reason: "unserved",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,158 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  SpendingPolicyError,
+  createSpendingGuard,
+} from "../sdk/spending-policy.ts";
+import { wrapFetchWithPayment } from "../sdk/client.ts";
+import { buildPaymentRequirements, create402Response } from "../sdk/server.ts";
+import { STACKS_TESTNET, type X402ServerConfig } from "../sdk/types.ts";
+
+const SBTC = "SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-token";
+
+const config: X402ServerConfig = {
+  contractAddress: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+  network: STACKS_TESTNET,
+  payTo: "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG",
+};
+const stx = (amount: bigint) => buildPaymentRequirements(config, { amount });
+
+const A = "https://a.example.com/data";
+const B = "https://b.example.com/data";
+
+async function refusal(promise: Promise<unknown>) {
+  const error = await promise.catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(SpendingPolicyError);
+  return (error as SpendingPolicyError).reason;
+}
+
+describe("spending guard", () => {
+  it("caps a single payment per asset", async () => {
+    const guard = createSpendingGuard({ maxPerRequest: { STX: 1_000n } });
+    await guard.authorize(A, stx(1_000n));
+    expect(await refusal(guard.authorize(A, stx(1_001n)))).toBe(
+      "over_request_max"
+    );
+  });
+
+  it("refuses assets no amount rule lists", async () => {
+    const sbtc = (amount: bigint) =>
+      buildPaymentRequirements(config, { amount, asset: SBTC });
+    const guard = createSpendingGuard({
+      maxPerRequest: { STX: 1_000n },
+      budget: { [SBTC]: 500n },
+    });
+    // Listed in one rule: limited by that rule only
+    await guard.authorize(A, sbtc(500n));
+    expect(await refusal(guard.authorize(A, sbtc(1n)))).toBe("over_budget");
+
+    const stxOnly = createSpendingGuard({ maxPerRequest: { STX: 1_000n } });
+    expect(await refusal(stxOnly.authorize(A, sbtc(1n)))).toBe("asset_not_allowed");
+    // Without amount rules there is nothing to slip past
+    await createSpendingGuard({ allowPayTo: [config.payTo] }).authorize(A, sbtc(1n));
+  });
+
+  it("enforces per-host and overall rolling budgets", async () => {
+    const guard = createSpendingGuard({
+      perHostBudget: { STX: 1_500n },
+      budget: { STX: 2_500n },
+      windowSeconds: 60,
+    });
+    await guard.authorize(A, stx(1_000n), 0);
+    expect(await refusal(guard.authorize(A, stx(1_000n), 1_000))).toBe(
+      "over_host_budget"
+    );
+    await guard.authorize(B, stx(1_000n), 2_000);
+    expect(await refusal(guard.authorize(B, stx(1_000n), 3_000))).toBe(
+      "over_host_budget"
+    );
+    await guard.authorize("https://c.example.com/", stx(500n), 4_000);
+    expect(
+      await refusal(guard.authorize("https://d.example.com/", stx(1n), 5_000))
+    ).toBe("over_budget");
+
+    // The window rolls: the first payment no longer counts
+    await guard.authorize(A, stx(1_000n), 60_000);
+  });
+
+  it("releases a reservation for a payment that was never made", async () => {
+    const guard = createSpendingGuard({ budget: { STX: 1_000n } });
+    const reservation = await guard.authorize(A, stx(1_000n));
+    reservation.release();
+    await guard.authorize(A, stx(1_000n));
+  });
+
+  it("applies recipient and contract lists", async () => {
+    const payments = `${config.contractAddress}.x402-payments`;
+    expect(
+      await refusal(
+        createSpendingGuard({ denyPayTo: [config.payTo] }).authorize(A, stx(1n))
+      )
+    ).toBe("payee_not_allowed");
+    expect(
+      await refusal(
+        createSpendingGuard({ allowPayTo: ["ST000"] }).authorize(A, stx(1n))
+      )
+    ).toBe("payee_not_allowed");
+
+    const guard = createSpendingGuard({ allowContracts: [payments] });
+    await guard.authorize(A, stx(1n));
+    expect(
+      await refusal(
+        guard.authorize(
+          A,
+          buildPaymentRequirements(config, { amount: 1n, asset: SBTC })
+        )
+      )
+    ).toBe("contract_not_allowed");
+  });
+
+  it("asks for approval above the threshold", async () => {
+    const onApprovalRequired = vi.fn(({ amount }) => amount < 5_000n);
+    const guard = createSpendingGuard({
+      approvalThreshold: { STX: 1_000n },
+      budget: { STX: 10_000n },
+      onApprovalRequired,
+    });
+
+    await guard.authorize(A, stx(1_000n));
+    expect(onApprovalRequired).not.toHaveBeenCalled();
+
+    await guard.authorize(A, stx(2_000n));
+    expect(onApprovalRequired).toHaveBeenLastCalledWith(
+      expect.objectContaining({ host: "a.example.com", spentTotal: 1_000n })
+    );
+
+    expect(await refusal(guard.authorize(A, stx(6_000n)))).toBe(
+      "approval_denied"
+    );
+    // The refused payment did not eat into the budget
+    await guard.authorize(A, stx(4_000n));
+  });
+});
+
+describe("wrapFetchWithPayment with a policy", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("rejects with SpendingPolicyError instead of paying", async () => {
+    const { status, headers, body } = create402Response(
+      config,
+      { url: A },
+      { amount: 50_000n }
+    );
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(JSON.stringify(body), { status, headers }))
+    );
+
+    const pay = vi.fn(async () => "0x00");
+    const payingFetch = wrapFetchWithPayment({
+      pay,
+      policy: { maxPerRequest: { STX: 10_000n } },
+    });
+
+    expect(await refusal(payingFetch(A))).toBe("over_request_max");
+    expect(pay).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,454 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  AuthType,
+  Cl,
+  PostConditionMode,
+  cvToHex,
+  deserializeTransaction,
+  makeContractCall,
+  privateKeyToAddress,
+  randomPrivateKey,
+  type SponsoredAuthorization,
+} from "@stacks/transactions";
+import {
+  buildPaymentCall,
+  generateNonce,
+  nonceToHex,
+  wrapFetchWithPayment,
+  type PaymentCall,
+} from "../sdk/client.ts";
+import { createSimnetProvider, type StacksChainProvider } from "../sdk/chain.ts";
+import { createMemoryProofStore } from "../sdk/proof-store.ts";
+import {
+  buildPaymentRequirements,
+  checkSponsorable,
+  checkSponsoredTransaction,
+  create402Response,
+  settleSponsoredPayment,
+  withX402,
+} from "../sdk/server.ts";
+import {
+  HEADER_PAYMENT_SIGNATURE,
+  STACKS_MAINNET,
+  STACKS_TESTNET,
+  type PaymentPayload,
+  type PaymentRequirements,
+  type X402ServerConfig,
+} from "../sdk/types.ts";
+
+const payerKey = randomPrivateKey();
+const sponsorKey = randomPrivateKey();
+const PAYER = privateKeyToAddress(payerKey, "testnet");
+const SPONSOR = privateKeyToAddress(sponsorKey, "testnet");
+const URL_ = "https://api.example.com/premium";
+
+const config: X402ServerConfig = {
+  contractAddress: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+  network: STACKS_TESTNET,
+  payTo: "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG",
+  apiUrl: "http://chain",
+  freshness: { mode: "off" },
+  sponsor: { privateKey: sponsorKey, fee: 2_000n, pollInterval: 1 },
+};
+const requirements = buildPaymentRequirements(config, { amount: "10000" });
+
+// The payer's signed, unbroadcast transaction for `call`
+async function signSponsored(
+  call: PaymentCall,
+  overrides: {
+    sponsored?: boolean;
+    postConditionMode?: PostConditionMode;
+    senderKey?: string;
+    nonce?: number;
+  } = {}
+): Promise<string> {
+  const tx = await makeContractCall({
+    contractAddress: call.contractAddress,
+    contractName: call.contractName,
+    functionName: call.functionName,
+    functionArgs: call.functionArgs,
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: call.postConditions,
+    senderKey: payerKey,
+    sponsored: true,
+    fee: 0,
+    nonce: 0,
+    network: "testnet",
+    ...overrides,
+  });
+  return tx.serialize();
+}
+
+function payloadFor(
+  transaction: string,
+  nonce: Uint8Array,
+  accepted: PaymentRequirements = requirements
+): PaymentPayload {
+  return {
+    x402Version: 2,
+    resource: { url: URL_, description: "", mimeType: "" },
+    accepted,
+    payload: { nonce: nonceToHex(nonce), transaction },
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("checkSponsoredTransaction", () => {
+  it("accepts a signed pay-stx meeting the requirements", async () => {
+    const nonce = generateNonce();
+    const hex = await signSponsored(buildPaymentCall(requirements, nonce));
+
+    const checked = checkSponsoredTransaction(hex, nonceToHex(nonce), requirements);
+    expect(checked).toMatchObject({
+      payer: PAYER,
+      functionName: "pay-stx",
+      args: { recipient: config.payTo, amount: 10_000n },
+    });
+  });
+
+  it("rejects payments the sponsor shouldn't pay for", async () => {
+    const nonce = generateNonce();
+    const nonceHex = nonceToHex(nonce);
+    const call = buildPaymentCall(requirements, nonce);
+
+    const unsponsored = await signSponsored(call, { sponsored: false });
+    expect(checkSponsoredTransaction(unsponsored, nonceHex, requirements)).toBe(
+      "Transaction is not sponsored"
+    );
+
+    const allowMode = await signSponsored(call, {
+      postConditionMode: PostConditionMode.Allow,
+    });
+    expect(checkSponsoredTransaction(allowMode, nonceHex, requirements)).toBe(
+      "Post-condition mode must be deny"
+    );
+
+    const underpaid = await signSponsored(
+      buildPaymentCall({ ...requirements, amount: "9999" }, nonce)
+    );
+    expect(checkSponsoredTransaction(underpaid, nonceHex, requirements)).toBe(
+      "Insufficient amount: paid 9999, required 10000"
+    );
+
+    const unpinned = await signSponsored({ ...call, postConditions: [] });
+    expect(checkSponsoredTransaction(unpinned, nonceHex, requirements)).toBe(
+      "Post-conditions must pin the payer's outflow to the amount paid"
+    );
+
+    const good = await signSponsored(call);
+    expect(
+      checkSponsoredTransaction(good, nonceToHex(generateNonce()), requirements)
+    ).toBe("Nonce does not match transaction arguments");
+    expect(
+      checkSponsoredTransaction(good, nonceHex, {
+        ...requirements,
+        network: STACKS_MAINNET,
+      })
+    ).toBe("Transaction is for another network");
+    expect(checkSponsoredTransaction("00ff", nonceHex, requirements)).toBe(
+      "Malformed sponsored transaction"
+    );
+  });
+});
+
+describe("checkSponsorable on simnet", () => {
+  const wallet = simnet.getAccounts().get("wallet_1")!;
+  // secret_key of wallet_1 from settings/Devnet.toml
+  const walletKey =
+    "7287ba251d44a4d3fd9276c88ce34c5c52a038955511cccaf77e61068649c17801";
+
+  async function sponsorable(
+    chain: StacksChainProvider,
+    overrides: Parameters<typeof signSponsored>[1] = {},
+    nonce = generateNonce(),
+    accepted = requirements
+  ) {
+    const hex = await signSponsored(buildPaymentCall(accepted, nonce), {
+      senderKey: walletKey,
+      ...overrides,
+    });
+    const checked = checkSponsoredTransaction(hex, nonceToHex(nonce), accepted);
+    if (typeof checked === "string") throw new Error(checked);
+    return checkSponsorable(chain, checked, nonceToHex(nonce), accepted);
+  }
+
+  it("accepts a funded payer's next transaction with an unused nonce", async () => {
+    expect(await sponsorable(createSimnetProvider(simnet))).toBeNull();
+  });
+
+  it("refuses a payment nonce that is already used", async () => {
+    const nonce = generateNonce();
+    simnet.callPublicFn(
+      "x402-payments",
+      "pay-stx",
+      [Cl.principal(config.payTo), Cl.uint(10_000), Cl.buffer(nonce)],
+      wallet
+    );
+    expect(await sponsorable(createSimnetProvider(simnet), {}, nonce)).toBe(
+      "Nonce already used"
+    );
+  });
+
+  it("refuses a transaction that isn't the payer's next", async () => {
+    expect(await sponsorable(createSimnetProvider(simnet), { nonce: 3 })).toBe(
+      "Wrong transaction nonce: 3, payer's next is 0"
+    );
+  });
+
+  it("refuses a payer without the amount", async () => {
+    expect(
+      await sponsorable(createSimnetProvider(simnet), { senderKey: payerKey })
+    ).toBe("Insufficient balance: 0, required 10000");
+  });
+
+  it("checks SIP-010 payers against the token's get-balance", async () => {
+    const SBTC = "SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-token";
+    const sbtc = buildPaymentRequirements(config, {
+      amount: "10000",
+      asset: SBTC,
+      tokenName: "sbtc-token",
+    });
+    const simnetChain = createSimnetProvider(simnet);
+    const reads: string[] = [];
+    const chain: StacksChainProvider = {
+      ...simnetChain,
+      callReadOnly: async (contractId, functionName, args) => {
+        if (contractId !== SBTC) {
+          return simnetChain.callReadOnly(contractId, functionName, args);
+        }
+        reads.push(functionName);
+        return cvToHex(Cl.ok(Cl.uint(9_999)));
+      },
+    };
+
+    expect(await sponsorable(chain, {}, generateNonce(), sbtc)).toBe(
+      "Insufficient balance: 9999, required 10000"
+    );
+    expect(reads).toEqual(["get-balance"]);
+  });
+});
+
+describe("settleSponsoredPayment on simnet", () => {
+  // secret_keys of wallet_1 and wallet_3 from settings/Devnet.toml
+  const payerKeys = [
+    "7287ba251d44a4d3fd9276c88ce34c5c52a038955511cccaf77e61068649c17801",
+    "d655b2523bcd65e34889725c73064feb17ceb796831c0e111ba1a552b0f31b3901",
+  ];
+
+  it("gives concurrent settlements their own sponsor nonces", async () => {
+    const simnetChain = createSimnetProvider(simnet);
+    const used: bigint[] = [];
+    let reject = true;
+    // A mempool that refuses the first broadcast and reused sponsor nonces
+    const chain: StacksChainProvider = {
+      ...simnetChain,
+      async broadcast(bytes) {
+        const auth = deserializeTransaction(bytes).auth as SponsoredAuthorization;
+        const nonce = auth.sponsorSpendingCondition.nonce;
+        if (reject) {
+          reject = false;
+          return "Broadcast rejected: TooMuchChaining";
+        }
+        if (used.includes(nonce)) return "Broadcast rejected: ConflictingNonceInMempool";
+        used.push(nonce);
+        return simnetChain.broadcast(bytes);
+      },
+    };
+    const sponsored: X402ServerConfig = {
+      ...config,
+      chain,
+      sponsor: { privateKey: randomPrivateKey(), pollInterval: 1 },
+    };
+
+    const settle = async (senderKey: string) => {
+      const nonce = generateNonce();
+      const hex = await signSponsored(buildPaymentCall(requirements, nonce), {
+        senderKey,
+      });
+      return settleSponsoredPayment(sponsored, payloadFor(hex, nonce), requirements);
+    };
+    const results = await Promise.all([
+      settle(payerKeys[0]),
+      settle(payerKeys[0]),
+      settle(payerKeys[1]),
+    ]);
+
+    // The rejected broadcast's nonce went to the next settlement
+    expect(results[0]).toBe("Broadcast rejected: TooMuchChaining");
+    expect(used).toEqual([0n, 1n]);
+    for (const settled of results.slice(1)) {
+      expect(settled).toMatchObject({ payload: { txId: expect.any(String) } });
+    }
+  });
+});
+
+describe("sponsored settlement in withX402", () => {
+  it("advertises sponsorship only when configured", () => {
+    expect(requirements.extra.sponsored).toBe(true);
+    const { sponsor: _, ...plain } = config;
+    expect(
+      buildPaymentRequirements(plain, { amount: "10000" }).extra.sponsored
+    ).toBeUndefined();
+  });
+
+  it("sponsors, broadcasts and confirms the payer's transaction", async () => {
+    const nonce = generateNonce();
+    const hex = await signSponsored(buildPaymentCall(requirements, nonce));
+    const broadcasts: string[] = [];
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string, init?: RequestInit) => {
+        if (url.endsWith(`/address/${SPONSOR}/nonces`)) {
+          return Response.json({ possible_next_nonce: 7 });
+        }
+        if (url.endsWith(`/address/${PAYER}/nonces`)) {
+          return Response.json({ possible_next_nonce: 0 });
+        }
+        if (url.includes(`/v2/accounts/${PAYER}`)) {
+          return Response.json({ balance: "0x2710", nonce: 0 });
+        }
+        if (url.endsWith("/v2/transactions")) {
+          const tx = deserializeTransaction(
+            new Uint8Array(init!.body as Buffer)
+          );
+          broadcasts.push(tx.txid());
+          const auth = tx.auth as SponsoredAuthorization;
+          expect(auth.authType).toBe(AuthType.Sponsored);
+          expect(auth.sponsorSpendingCondition.nonce).toBe(7n);
+          expect(auth.sponsorSpendingCondition.fee).toBe(2_000n);
+          return Response.json(tx.txid());
+        }
+        if (url.includes("/extended/v1/tx/")) {
+          return Response.json({
+            tx_status: "success",
+            sender_address: PAYER,
+            contract_call: {
+              contract_id: `${config.contractAddress}.x402-payments`,
+              function_name: "pay-stx",
+              function_args: [
+                { name: "recipient", hex: cvToHex(Cl.principal(config.payTo)) },
+                { name: "amount", hex: cvToHex(Cl.uint(10_000)) },
+                { name: "nonce", hex: cvToHex(Cl.buffer(nonce)) },
+              ],
+            },
+          });
+        }
+        // verify-payment: no receipt until the payment is broadcast
+        return Response.json({
+          okay: true,
+          result: cvToHex(
+            broadcasts.length === 0
+              ? Cl.none()
+              : Cl.some(
+                  Cl.tuple({
+                    payer: Cl.principal(PAYER),
+                    recipient: Cl.principal(config.payTo),
+                    amount: Cl.uint(10_000),
+                    fee: Cl.uint(0),
+                    block: Cl.uint(42),
+                    "is-stx": Cl.bool(true),
+                  })
+                )
+          ),
+        });
+      })
+    );
+
+    const result = await withX402(
+      { ...config, proofStore: createMemoryProofStore() },
+      {
+        url: URL_,
+        headers: {
+          [HEADER_PAYMENT_SIGNATURE]: btoa(
+            JSON.stringify(payloadFor(hex, nonce))
+          ),
+        },
+      },
+      { amount: "10000" }
+    );
+
+    expect(broadcasts).toHaveLength(1);
+    expect(result.allowed).toBe(true);
+    if (!result.allowed) return;
+    expect(result.payer).toBe(PAYER);
+    expect(result.payload.payload.txId).toBe(`0x${broadcasts[0]}`);
+    expect(result.settlement).toMatchObject({
+      transaction: `0x${broadcasts[0]}`,
+      block: "42",
+    });
+  });
+
+  it("refuses sponsored payloads when no sponsor is configured", async () => {
+    const nonce = generateNonce();
+    const hex = await signSponsored(buildPaymentCall(requirements, nonce));
+    const { sponsor: _, ...plain } = config;
+
+    const result = await withX402(
+      plain,
+      {
+        url: URL_,
+        headers: {
+          [HEADER_PAYMENT_SIGNATURE]: btoa(
+            JSON.stringify(payloadFor(hex, nonce))
+          ),
+        },
+      },
+      { amount: "10000" }
+    );
+    expect(!result.allowed && result.response.body).toMatchObject({
+      error: "payment_invalid",
+      message: "Sponsored payments are not accepted",
+    });
+  });
+});
+
+describe("wrapFetchWithPayment with signSponsored", () => {
+  it("sends the signed transaction instead of paying and waiting", async () => {
+    const { status, headers, body } = create402Response(
+      config,
+      { url: URL_ },
+      { amount: "10000" }
+    );
+    const calls: Array<RequestInit | undefined> = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string, init?: RequestInit) => {
+        // The payer reads get-fee-bps for the payment's breakdown
+        if (url.includes("/v2/contracts/call-read/")) {
+          return Response.json({ okay: true, result: cvToHex(Cl.uint(0)) });
+        }
+        calls.push(init);
+        return calls.length === 1
+          ? new Response(JSON.stringify(body), { status, headers })
+          : Response.json({ ok: true });
+      })
+    );
+
+    const pay = vi.fn(async () => "0x00");
+    const payingFetch = wrapFetchWithPayment({
+      pay,
+      signSponsored: async (_requirements, _nonce, call) => signSponsored(call),
+    });
+    const response = await payingFetch(URL_);
+
+    expect(response.status).toBe(200);
+    expect(pay).not.toHaveBeenCalled();
+    // The 402 and the paid retry; no confirmation polling
+    expect(calls).toHaveLength(2);
+
+    const sent = new Headers(calls[1]!.headers).get(HEADER_PAYMENT_SIGNATURE)!;
+    const payload = JSON.parse(atob(sent)) as PaymentPayload;
+    expect(payload.payload.txId).toBeUndefined();
+    expect(
+      checkSponsoredTransaction(
+        payload.payload.transaction!,
+        payload.payload.nonce,
+        requirements
+      )
+    ).toMatchObject({ payer: PAYER });
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import { Cl, cvToHex } from "@stacks/transactions";
+import {
+  TASK_ASSIGNED,
+  TASK_CANCELLED,
+  TASK_OPEN,
+  type AgentSDKConfig,
+} from "../sdk/agent-types.ts";
+import { type StacksChainProvider, createSimnetProvider } from "../sdk/chain.ts";
+import {
+  createTaskCache,
+  getTasks,
+  listOpenTasks,
+  listTasks,
+  listTasksByAgent,
+  listTasksByPoster,
+} from "../sdk/task-query.ts";
+import { STACKS_TESTNET } from "../sdk/types.ts";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const poster1 = accounts.get("wallet_1")!;
+const poster2 = accounts.get("wallet_2")!;
+const agent = accounts.get("wallet_3")!;
+
+function postTask(poster: string, bounty: number, deadline: number) {
+  return simnet.callPublicFn(
+    "task-board",
+    "post-task",
+    [
+      Cl.stringUtf8("Task"),
+      Cl.stringUtf8("https://example.com/task"),
+      Cl.uint(bounty),
+      Cl.uint(deadline),
+    ],
+    poster
+  );
+}
+
+function assign(poster: string, taskId: number) {
+  simnet.callPublicFn(
+    "task-board",
+    "bid",
+    [Cl.uint(taskId), Cl.uint(1), Cl.stringUtf8("https://example.com/bid")],
+    agent
+  );
+  simnet.callPublicFn(
+    "task-board",
+    "assign",
+    [Cl.uint(taskId), Cl.principal(agent)],
+    poster
+  );
+}
+
+// Simnet provider that counts get-task reads and how many overlap
+function countingConfig() {
+  const simnetChain = createSimnetProvider(simnet);
+  const stats = { reads: 0, inFlight: 0, maxInFlight: 0 };
+  const chain: StacksChainProvider = {
+    ...simnetChain,
+    async callReadOnly(contractId, fn, args, sender) {
+      if (fn !== "get-task") {
+        return simnetChain.callReadOnly(contractId, fn, args, sender);
+      }
+      stats.reads++;
+      stats.inFlight++;
+      stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+      await new Promise((r) => setTimeout(r, 1));
+      try {
+        return await simnetChain.callReadOnly(contractId, fn, args, sender);
+      } finally {
+        stats.inFlight--;
+      }
+    },
+  };
+  const config: AgentSDKConfig = {
+    contractAddress: deployer,
+    network: STACKS_TESTNET,
+    chain,
+  };
+  return { config, stats };
+}
+
+// Tasks 0-4: two open from poster1, one assigned, one cancelled, one open from poster2
+function seedTasks() {
+  simnet.callPublicFn(
+    "agent-registry",
+    "register-agent",
+    [
+      Cl.stringUtf8("Worker"),
+      Cl.stringUtf8("https://example.com/agent"),
+      Cl.uint(1000),
+      Cl.bool(true),
+      Cl.bool(false),
+    ],
+    agent
+  );
+  postTask(poster1, 1_000, 500);
+  postTask(poster1, 5_000, 900);
+  postTask(poster1, 2_000, 700);
+  assign(poster1, 2);
+  postTask(poster2, 3_000, 800);
+  simnet.callPublicFn("task-board", "cancel", [Cl.uint(3)], poster2);
+  postTask(poster2, 4_000, 600);
+}
+
+const ids = (entries: Array<{ id: bigint }>) => entries.map((e) => Number(e.id));
+
+describe("task queries", () => {
+  it("filters tasks by status, poster, agent, bounty and deadline", async () => {
+    seedTasks();
+    const { config } = countingConfig();
+
+    expect(ids(await listTasks(config))).toEqual([0, 1, 2, 3, 4]);
+    expect(ids(await listOpenTasks(config))).toEqual([0, 1, 4]);
+    expect(ids(await listTasksByPoster(config, poster2))).toEqual([3, 4]);
+    expect(await listTasksByAgent(config, agent)).toMatchObject([
+      { id: 2n, task: { status: TASK_ASSIGNED, assignedTo: agent } },
+    ]);
+    expect(
+      ids(await listOpenTasks(config, { minBounty: 2_000n, deadlineTo: 800n }))
+    ).toEqual([4]);
+    const newest = await listTasks(
+      config,
+      { status: [TASK_OPEN, TASK_CANCELLED] },
+      { newestFirst: true, limit: 2 }
+    );
+    expect(ids(newest)).toEqual([4, 3]);
+  });
+
+  it("reads with bounded parallelism and skips missing ids", async () => {
+    seedTasks();
+    const { config, stats } = countingConfig();
+
+    const entries = await getTasks(config, [4n, 0n, 99n, 2n, 1n], 2);
+    expect(ids(entries)).toEqual([4, 0, 2, 1]);
+    expect(stats.reads).toBe(5);
+    expect(stats.maxInFlight).toBe(2);
+  });
+
+  it("refreshes only new tasks and tasks that can still change", async () => {
+    seedTasks();
+    const { config, stats } = countingConfig();
+    const cache = createTaskCache(config, { concurrency: 3 });
+
+    expect(ids(await cache.refresh())).toEqual([0, 1, 2, 3, 4]);
+    expect(stats.reads).toBe(5);
+
+    // Cancel task 0 and post task 5; task 3 is final and isn't re-read
+    simnet.callPublicFn("task-board", "cancel", [Cl.uint(0)], poster1);
+    postTask(poster2, 6_000, 1_000);
+    stats.reads = 0;
+
+    expect(ids(await cache.refresh())).toEqual([0, 5]);
+    expect(stats.reads).toBe(5); // tasks 0, 1, 2, 4 and 5
+    expect(cache.get(0n)?.status).toBe(TASK_CANCELLED);
+    expect(ids(cache.query({ status: TASK_OPEN }))).toEqual([1, 4, 5]);
+
+    stats.reads = 0;
+    expect(await cache.refresh()).toEqual([]);
+    expect(stats.reads).toBe(4); // tasks 1, 2, 4 and 5
+  });
+
+  it("reads ids that came back missing again on the next refresh", async () => {
+    seedTasks();
+    const simnetChain = createSimnetProvider(simnet);
+    // Task 3 reads as none once, as from a node lagging behind the stats
+    let lagging = true;
+    const chain: StacksChainProvider = {
+      ...simnetChain,
+      async callReadOnly(contractId, fn, args, sender) {
+        if (fn === "get-task" && args[0] === cvToHex(Cl.uint(3)) && lagging) {
+          lagging = false;
+          return cvToHex(Cl.none());
+        }
+        return simnetChain.callReadOnly(contractId, fn, args, sender);
+      },
+    };
+    const cache = createTaskCache({
+      contractAddress: deployer,
+      network: STACKS_TESTNET,
+      chain,
+    });
+
+    expect(ids(await cache.refresh())).toEqual([0, 1, 2, 4]);
+    expect(ids(await cache.refresh())).toEqual([3]);
+    expect(cache.get(3n)?.status).toBe(TASK_CANCELLED);
+  });
+});
@@ -0,0 +1,491 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Cl, PostConditionMode, cvToHex, makeContractCall } from "@stacks/transactions";
+import {
+  createSimnetProvider,
+  type ChainTx,
+  type StacksChainProvider,
+} from "../sdk/chain.ts";
+import {
+  buildPaySip010Args,
+  buildPaymentCall,
+  generateNonce,
+  nonceToHex,
+} from "../sdk/client.ts";
+import {
+  buildPaymentRequirements,
+  checkAsset,
+  checkCallArgs,
+  checkFreshness,
+  checkReceipt,
+  decodePaymentCallArgs,
+  decodePaymentReceipt,
+  verifyPayment,
+} from "../sdk/server.ts";
+import {
+  STACKS_TESTNET,
+  type PaymentPayload,
+  type PaymentRequirements,
+  type X402ServerConfig,
+} from "../sdk/types.ts";
+
+// Payments are broadcast to simnet through the simnet provider and verified
+// against real x402-payments receipts.
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const payer = accounts.get("wallet_1")!;
+const payTo = accounts.get("wallet_2")!;
+const other = accounts.get("wallet_3")!;
+// secret_key of wallet_1 from settings/Devnet.toml
+const payerKey =
+  "7287ba251d44a4d3fd9276c88ce34c5c52a038955511cccaf77e61068649c17801";
+
+function setup(overrides: Partial<X402ServerConfig> = {}) {
+  const chain = createSimnetProvider(simnet);
+  const config: X402ServerConfig = {
+    contractAddress: deployer,
+    network: STACKS_TESTNET,
+    payTo,
+    chain,
+    ...overrides,
+  };
+  return { chain, config, requirements: buildPaymentRequirements(config, { amount: "10000" }) };
+}
+
+// Broadcast a payment for `paid` (which may differ from what the server requires)
+async function pay(
+  chain: StacksChainProvider,
+  paid: PaymentRequirements,
+  nonce = generateNonce()
+): Promise<PaymentPayload> {
+  const call = buildPaymentCall(paid, nonce);
+  const tx = await makeContractCall({
+    contractAddress: call.contractAddress,
+    contractName: call.contractName,
+    functionName: call.functionName,
+    functionArgs: call.functionArgs,
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: call.postConditions,
+    senderKey: payerKey,
+    fee: 0,
+    nonce: await chain.getAccountNonce(payer),
+    network: "testnet",
+  });
+  const broadcast = await chain.broadcast(tx.serializeBytes());
+  if (typeof broadcast === "string") throw new Error(broadcast);
+  return {
+    x402Version: 2,
+    resource: { url: "https://api.example.com/premium", description: "", mimeType: "" },
+    accepted: paid,
+    payload: { txId: broadcast.txId, nonce: nonceToHex(nonce) },
+  };
+}
+
+const receipt = {
+  payer,
+  recipient: payTo,
+  amount: 10_000n,
+  fee: 0n,
+  block: 3n,
+  isStx: true,
+};
+
+describe("decodePaymentReceipt", () => {
+  it("decodes a verify-payment receipt and rejects anything else", () => {
+    const tuple = Cl.tuple({
+      payer: Cl.principal(payer),
+      recipient: Cl.principal(payTo),
+      amount: Cl.uint(10_000),
+      fee: Cl.uint(0),
+      block: Cl.uint(3),
+      "is-stx": Cl.bool(true),
+    });
+    expect(decodePaymentReceipt(cvToHex(Cl.some(tuple)))).toEqual(receipt);
+    expect(decodePaymentReceipt(cvToHex(Cl.none()))).toBeNull();
+    expect(decodePaymentReceipt(cvToHex(tuple))).toBeNull();
+    expect(
+      decodePaymentReceipt(cvToHex(Cl.some(Cl.tuple({ payer: Cl.principal(payer) }))))
+    ).toBeNull();
+    expect(decodePaymentReceipt("0xzz")).toBeNull();
+  });
+});
+
+describe("checkReceipt", () => {
+  const { requirements } = setup();
+
+  it("accepts a receipt meeting the requirements", () => {
+    expect(checkReceipt(receipt, requirements)).toBeNull();
+    expect(checkReceipt({ ...receipt, amount: 20_000n }, requirements)).toBeNull();
+  });
+
+  it("rejects underpayment, a wrong recipient and a wrong asset", () => {
+    expect(checkReceipt({ ...receipt, amount: 9_999n }, requirements)).toBe(
+      "Insufficient amount: paid 9999, required 10000"
+    );
+    expect(checkReceipt({ ...receipt, recipient: other }, requirements)).toBe(
+      `Wrong recipient: ${other}`
+    );
+    expect(checkReceipt({ ...receipt, isStx: false }, requirements)).toBe(
+      "Wrong asset: paid SIP-010, required STX"
+    );
+  });
+});
+
+describe("checkCallArgs", () => {
+  const nonce = "0c".repeat(16);
+  const args = { recipient: payTo, amount: 10_000n, nonce };
+
+  it("accepts arguments matching the nonce and the receipt", () => {
+    expect(checkCallArgs(args, nonce, receipt)).toBeNull();
+    expect(checkCallArgs(args, `0x${nonce.toUpperCase()}`, receipt)).toBeNull();
+  });
+
+  it("rejects a nonce or receipt from another payment", () => {
+    expect(checkCallArgs(args, "0d".repeat(16), receipt)).toBe(
+      "Nonce does not match transaction arguments"
+    );
+    expect(checkCallArgs(args, nonce, { ...receipt, amount: 20_000n })).toBe(
+      "Transaction arguments do not match on-chain receipt"
+    );
+    expect(checkCallArgs(args, nonce, { ...receipt, recipient: other })).toBe(
+      "Transaction arguments do not match on-chain receipt"
+    );
+  });
+
+  it("decodes named call arguments, or null if one is missing or mistyped", () => {
+    const named = [
+      { name: "recipient", hex: cvToHex(Cl.principal(payTo)) },
+      { name: "amount", hex: cvToHex(Cl.uint(10_000)) },
+      { name: "nonce", hex: cvToHex(Cl.bufferFromHex(nonce)) },
+    ];
+    expect(decodePaymentCallArgs(named)).toEqual({ token: undefined, ...args });
+    expect(decodePaymentCallArgs(named.slice(0, 2))).toBeNull();
+    expect(
+      decodePaymentCallArgs([
+        named[0],
+        { name: "amount", hex: cvToHex(Cl.stringAscii("10000")) },
+        named[2],
+      ])
+    ).toBeNull();
+    expect(decodePaymentCallArgs(undefined)).toBeNull();
+  });
+});
+
+describe("verifyPayment on simnet", () => {
+  it("verifies a payment against its on-chain receipt", async () => {
+    const { chain, config, requirements } = setup();
+    const payload = await pay(chain, requirements);
+
+    expect(await verifyPayment(config, payload, requirements)).toMatchObject({
+      isValid: true,
+      payer,
+      recipient: payTo,
+      amount: "10000",
+    });
+  });
+
+  it("rejects underpayment and payments to someone else", async () => {
+    const { chain, config, requirements } = setup();
+
+    const underpaid = await pay(chain, { ...requirements, amount: "9999" });
+    expect(await verifyPayment(config, underpaid, requirements)).toEqual({
+      isValid: false,
+      invalidReason: "Insufficient amount: paid 9999, required 10000",
+    });
+
+    const misdirected = await pay(chain, { ...requirements, payTo: other });
+    expect(await verifyPayment(config, misdirected, requirements)).toEqual({
+      isValid: false,
+      invalidReason: `Wrong recipient: ${other}`,
+    });
+  });
+
+  it("rejects a txId and a nonce taken from two different payments", async () => {
+    const { chain, config, requirements } = setup();
+    const first = await pay(chain, requirements);
+    const second = await pay(chain, requirements);
+
+    const spliced: PaymentPayload = {
+      ...first,
+      payload: { txId: first.payload.txId, nonce: second.payload.nonce },
+    };
+    expect(await verifyPayment(config, spliced, requirements)).toEqual({
+      isValid: false,
+      invalidReason: "Nonce does not match transaction arguments",
+    });
+  });
+
+  it("rejects payments the contract refused", async () => {
+    const { chain, config, requirements } = setup();
+    const nonce = generateNonce();
+    await pay(chain, requirements, nonce);
+
+    // Reusing the nonce aborts with ERR-NONCE-USED; no receipt is written
+    const replay = await pay(chain, requirements, nonce);
+    expect(await verifyPayment(config, replay, requirements)).toEqual({
+      isValid: false,
+      invalidReason: "Transaction status: abort_by_response",
+    });
+  });
+});
+
+describe("checkFreshness on simnet", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // The block verify-payment recorded for the payment
+  async function receiptBlock(chain: StacksChainProvider, payload: PaymentPayload) {
+    const hex = await chain.callReadOnly(
+      `${deployer}.x402-payments`,
+      "verify-payment",
+      [cvToHex(Cl.bufferFromHex(payload.payload.nonce))]
+    );
+    return decodePaymentReceipt(hex)!.block;
+  }
+
+  it("rejects receipts older than maxAgeBlocks", async () => {
+    const { chain, config, requirements } = setup({
+      freshness: { mode: "blocks", maxAgeBlocks: 5 },
+    });
+    const payload = await pay(chain, requirements);
+    const block = await receiptBlock(chain, payload);
+
+    simnet.mineEmptyBlocks(5 - (simnet.stacksBlockHeight - Number(block)));
+    expect(await verifyPayment(config, payload, requirements)).toMatchObject({
+      isValid: true,
+    });
+
+    simnet.mineEmptyBlocks(1);
+    expect(await verifyPayment(config, payload, requirements)).toEqual({
+      isValid: false,
+      invalidReason: "Stale payment: receipt is 6 blocks old (max 5)",
+    });
+  });
+
+  it("rejects receipts older than maxAgeSeconds", async () => {
+    const { chain, config, requirements } = setup({
+      freshness: { mode: "seconds", maxAgeSeconds: 60 },
+    });
+    const payload = await pay(chain, requirements);
+    // Simnet only reports the time of blocks below the tip
+    simnet.mineEmptyBlock();
+    const minedAt = await chain.getBlockTime(await receiptBlock(chain, payload));
+
+    vi.spyOn(Date, "now").mockReturnValue((minedAt + 60) * 1000);
+    expect(await verifyPayment(config, payload, requirements)).toMatchObject({
+      isValid: true,
+    });
+
+    vi.spyOn(Date, "now").mockReturnValue((minedAt + 61) * 1000);
+    expect(await verifyPayment(config, payload, requirements)).toEqual({
+      isValid: false,
+      invalidReason: "Stale payment: receipt is 61s old (max 60s)",
+    });
+  });
+
+  it("defers to the contract's payment lifetime by default", async () => {
+    const { chain, config, requirements } = setup();
+    const payload = await pay(chain, requirements);
+    const block = await receiptBlock(chain, payload);
+
+    // is-payment-fresh holds while the receipt is under 144 blocks old
+    simnet.mineEmptyBlocks(143 - (simnet.stacksBlockHeight - Number(block)));
+    expect(await verifyPayment(config, payload, requirements)).toMatchObject({
+      isValid: true,
+    });
+
+    simnet.mineEmptyBlocks(1);
+    expect(await verifyPayment(config, payload, requirements)).toEqual({
+      isValid: false,
+      invalidReason: `Stale payment: receipt at block ${block} is past the contract's payment lifetime`,
+    });
+  });
+
+  it("skips the check when off, and uses blocks for curve receipts", async () => {
+    const off = setup({ freshness: { mode: "off" } });
+    const payload = await pay(off.chain, off.requirements);
+    simnet.mineEmptyBlocks(200);
+    expect(await verifyPayment(off.config, payload, off.requirements)).toMatchObject({
+      isValid: true,
+    });
+
+    // x402-curve-router receipts have no is-payment-fresh to call
+    const { config, requirements } = setup();
+    const tip = BigInt(simnet.stacksBlockHeight);
+    const curve: PaymentRequirements = { ...requirements, scheme: "curve" };
+    const check = (block: bigint) =>
+      checkFreshness(off.chain, config, { block }, "00", curve);
+    expect(await check(tip - 144n)).toBeNull();
+    expect(await check(tip - 145n)).toBe(
+      "Stale payment: receipt is 145 blocks old (max 144)"
+    );
+  });
+});
+
+// No SIP-010 token is deployed to simnet, so token payments are verified
+// against a provider serving the transaction and receipt they would produce.
+
+const SBTC = "SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-token";
+const OTHER_TOKEN = "SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9.token-alex";
+
+function tokenProvider(
+  call: ReturnType<typeof buildPaymentCall>,
+  paid: { isStx: boolean; amount?: bigint }
+): StacksChainProvider {
+  const argNames =
+    call.functionName === "pay-stx"
+      ? ["recipient", "amount", "nonce"]
+      : ["token", "recipient", "amount", "nonce"];
+  const tx: ChainTx = {
+    txId: "0x01",
+    status: "success",
+    sender: payer,
+    contractCall: {
+      contractId: `${call.contractAddress}.${call.contractName}`,
+      functionName: call.functionName,
+      functionArgs: call.functionArgs.map((arg, i) => ({
+        name: argNames[i],
+        hex: cvToHex(arg),
+      })),
+    },
+  };
+  const unavailable = async (): Promise<never> => {
+    throw new Error("unavailable");
+  };
+  return {
+    getTx: async (txId) => (txId === tx.txId ? tx : null),
+    callReadOnly: async (_contractId, functionName) => {
+      if (functionName !== "verify-payment") throw new Error(functionName);
+      return cvToHex(
+        Cl.some(
+          Cl.tuple({
+            payer: Cl.principal(payer),
+            recipient: Cl.principal(payTo),
+            amount: Cl.uint(paid.amount ?? 2_000n),
+            fee: Cl.uint(0),
+            block: Cl.uint(3),
+            "is-stx": Cl.bool(paid.isStx),
+          })
+        )
+      );
+    },
+    getTip: async () => ({ height: 4 }),
+    getBlockTime: unavailable,
+    getAccountNonce: unavailable,
+    getStxBalance: unavailable,
+    broadcast: unavailable,
+  };
+}
+
+describe("SIP-010 payments", () => {
+  const { config } = setup({ freshness: { mode: "off" } });
+  const sbtc = buildPaymentRequirements(config, {
+    amount: "2000",
+    asset: SBTC,
+    tokenName: "sbtc-token",
+  });
+  const nonce = new Uint8Array(16).fill(9);
+  const payload = (accepted: PaymentRequirements): PaymentPayload => ({
+    x402Version: 2,
+    resource: { url: "https://api.example.com/premium", description: "", mimeType: "" },
+    accepted,
+    payload: { txId: "0x01", nonce: nonceToHex(nonce) },
+  });
+
+  it("builds pay-sip010 with the token trait and an exact FT post-condition", () => {
+    const call = buildPaySip010Args(sbtc, nonce, 250n);
+    expect(call).toMatchObject({
+      contractAddress: deployer,
+      contractName: "x402-payments",
+      functionName: "pay-sip010",
+      functionArgs: [
+        Cl.contractPrincipal(SBTC.split(".")[0], "sbtc-token"),
+        Cl.principal(payTo),
+        Cl.uint(2_000),
+        Cl.buffer(nonce),
+      ],
+      postConditionMode: "deny",
+      breakdown: { total: 2_000n, net: 1_950n, fee: 50n },
+    });
+    expect(call.postConditions).toEqual([
+      expect.objectContaining({
+        type: "ft-postcondition",
+        condition: "eq",
+        amount: "2000",
+        asset: `${SBTC}::sbtc-token`,
+      }),
+    ]);
+    expect(buildPaymentCall(sbtc, nonce)).toEqual(buildPaySip010Args(sbtc, nonce));
+  });
+
+  it("refuses to build pay-sip010 without a token contract and name", () => {
+    expect(() => buildPaySip010Args({ ...sbtc, asset: "STX" }, nonce)).toThrow(
+      "Asset is not a token contract: STX"
+    );
+    const unnamed = { ...sbtc, extra: { ...sbtc.extra, tokenName: undefined } };
+    expect(() => buildPaySip010Args(unnamed, nonce)).toThrow(
+      `Missing extra.tokenName for ${SBTC}`
+    );
+  });
+
+  it("verifies a payment in the required token", async () => {
+    const chain = tokenProvider(buildPaySip010Args(sbtc, nonce), { isStx: false });
+    expect(
+      await verifyPayment({ ...config, chain }, payload(sbtc), sbtc)
+    ).toMatchObject({
+      isValid: true,
+      payer,
+      amount: "2000",
+    });
+  });
+
+  it("rejects payments in another token or asset", async () => {
+    const otherToken = { ...sbtc, asset: OTHER_TOKEN };
+    const wrongToken = tokenProvider(buildPaySip010Args(otherToken, nonce), {
+      isStx: false,
+    });
+    expect(
+      await verifyPayment({ ...config, chain: wrongToken }, payload(sbtc), sbtc)
+    ).toEqual({ isValid: false, invalidReason: `Wrong token: ${OTHER_TOKEN}` });
+
+    const stx = buildPaymentRequirements(config, { amount: "2000" });
+    const paidStx = tokenProvider(buildPaymentCall(stx, nonce), { isStx: true });
+    expect(
+      await verifyPayment({ ...config, chain: paidStx }, payload(sbtc), sbtc)
+    ).toEqual({
+      isValid: false,
+      invalidReason: `Wrong asset: paid via pay-stx, required ${SBTC}`,
+    });
+
+    const paidToken = tokenProvider(buildPaySip010Args(sbtc, nonce), { isStx: false });
+    expect(
+      await verifyPayment({ ...config, chain: paidToken }, payload(stx), stx)
+    ).toEqual({
+      isValid: false,
+      invalidReason: "Wrong asset: paid via pay-sip010, required STX",
+    });
+  });
+
+  it("rejects underpaid token receipts and STX receipts for tokens", async () => {
+    const underpaid = tokenProvider(
+      buildPaySip010Args({ ...sbtc, amount: "1999" }, nonce),
+      { isStx: false, amount: 1_999n }
+    );
+    expect(
+      await verifyPayment({ ...config, chain: underpaid }, payload(sbtc), sbtc)
+    ).toEqual({
+      isValid: false,
+      invalidReason: "Insufficient amount: paid 1999, required 2000",
+    });
+
+    expect(checkReceipt({ ...receipt, amount: 2_000n }, sbtc)).toBe(
+      `Wrong asset: paid STX, required ${SBTC}`
+    );
+    const args = { token: SBTC, recipient: payTo, amount: 2_000n, nonce: "" };
+    expect(checkAsset("pay-sip010", args, sbtc)).toBeNull();
+    expect(checkAsset("pay-stx", { ...args, token: undefined }, sbtc)).toBe(
+      `Wrong asset: paid via pay-stx, required ${SBTC}`
+    );
+  });
+});
@@ -0,0 +1,251 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { deserializeTransaction, makeContractCall } from "@stacks/transactions";
+import { withX402Route } from "../sdk/adapters.ts";
+import { buildRegisterAgent } from "../sdk/agent-client.ts";
+import { getAgent } from "../sdk/agent-reader.ts";
+import { type StacksChainProvider, createSimnetProvider } from "../sdk/chain.ts";
+import {
+  buildPaymentCall,
+  createKeyPayer,
+  generateNonce,
+  type KeyPayer,
+  parsePaymentResponse,
+  wrapFetchWithPayment,
+} from "../sdk/client.ts";
+import { createMemoryProofStore } from "../sdk/proof-store.ts";
+import { buildPaymentRequirements } from "../sdk/server.ts";
+import {
+  HEADER_PAYMENT_SIGNATURE,
+  STACKS_TESTNET,
+  type X402ServerConfig,
+} from "../sdk/types.ts";
+
+// The whole 402 → pay → retry → verify loop against simnet: payments are
+// broadcast to and verified on simnet, and the resource server is called
+// in-process. Any other request fails, so nothing reaches the network.
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const payTo = accounts.get("wallet_2")!;
+const sponsor = accounts.get("wallet_3")!;
+// secret_keys from settings/Devnet.toml
+const payerKey =
+  "7287ba251d44a4d3fd9276c88ce34c5c52a038955511cccaf77e61068649c17801";
+const sponsorKey =
+  "d655b2523bcd65e34889725c73064feb17ceb796831c0e111ba1a552b0f31b3901";
+
+const RESOURCE = "https://api.example.com/premium";
+const chain = createSimnetProvider(simnet);
+
+const serverConfig: X402ServerConfig = {
+  contractAddress: deployer,
+  network: STACKS_TESTNET,
+  payTo,
+  chain,
+};
+
+function stxBalance(address: string): bigint {
+  return simnet.getAssetsMap().get("STX")?.get(address) ?? 0n;
+}
+
+// Route RESOURCE to a gated handler; every other request is refused
+function serve(config: X402ServerConfig) {
+  const route = withX402Route(
+    async (_request, { x402 }) => Response.json({ data: "premium", payer: x402.payer }),
+    { config, amount: "10000" }
+  );
+  const fetchMock = vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+    const request = new Request(input, init);
+    if (request.url !== RESOURCE) throw new Error(`offline: ${request.url}`);
+    return route(request, {});
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+function payingFetch() {
+  return wrapFetchWithPayment({
+    ...createKeyPayer({ privateKey: payerKey, network: STACKS_TESTNET, chain }),
+    network: STACKS_TESTNET,
+    chain,
+    pollInterval: 1,
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("x402 loop on simnet", () => {
+  it("pays a 402, retries and gets the resource", async () => {
+    serve({ ...serverConfig, proofStore: createMemoryProofStore() });
+    const before = stxBalance(payTo);
+
+    const response = await payingFetch()(RESOURCE);
+
+    expect(response.status).toBe(200);
+    const payer = accounts.get("wallet_1")!;
+    expect(await response.json()).toEqual({ data: "premium", payer });
+
+    const settlement = parsePaymentResponse(response)!;
+    expect(settlement).toMatchObject({ success: true, payer });
+    expect((await chain.getTx(settlement.transaction))?.status).toBe("success");
+    expect(stxBalance(payTo) - before).toBe(10_000n - BigInt(settlement.fee!));
+  });
+
+  it("refuses to serve the same payment twice", async () => {
+    const fetchMock = serve({
+      ...serverConfig,
+      proofStore: createMemoryProofStore(),
+    });
+    expect((await payingFetch()(RESOURCE)).status).toBe(200);
+
+    const paid = fetchMock.mock.calls[1][1]!;
+    const replay = await fetch(RESOURCE, {
+      headers: {
+        [HEADER_PAYMENT_SIGNATURE]: new Headers(paid.headers).get(
+          HEADER_PAYMENT_SIGNATURE
+        )!,
+      },
+    });
+    expect(replay.status).toBe(402);
+    expect(await replay.json()).toMatchObject({ error: "payment_already_used" });
+  });
+
+  it("refuses the payment at another host or spelling of the path", async () => {
+    const config = { ...serverConfig, proofStore: createMemoryProofStore() };
+    const fetchMock = serve(config);
+    expect((await payingFetch()(RESOURCE)).status).toBe(200);
+
+    const signature = new Headers(fetchMock.mock.calls[1][1]!.headers).get(
+      HEADER_PAYMENT_SIGNATURE
+    )!;
+    const route = withX402Route(async () => Response.json({ data: "premium" }), {
+      config,
+      amount: "10000",
+    });
+    for (const url of [
+      "https://evil.example.com/premium",
+      "https://api.example.com/premium/",
+      "https://api.example.com/Premium?x=1",
+      "https://api.example.com//premium",
+    ]) {
+      const replay = await route(
+        new Request(url, { headers: { [HEADER_PAYMENT_SIGNATURE]: signature } }),
+        {}
+      );
+      expect(replay.status).toBe(402);
+      expect(await replay.json()).toMatchObject({ error: "payment_already_used" });
+    }
+  });
+
+  it("settles sponsored payments through the server's sponsor", async () => {
+    serve({
+      ...serverConfig,
+      proofStore: createMemoryProofStore(),
+      sponsor: { privateKey: sponsorKey, pollInterval: 1 },
+    });
+    const sponsorNonce = await chain.getAccountNonce(sponsor);
+
+    const response = await payingFetch()(RESOURCE);
+
+    expect(response.status).toBe(200);
+    const settlement = parsePaymentResponse(response)!;
+    expect((await chain.getTx(settlement.transaction))?.status).toBe("success");
+    expect(await chain.getAccountNonce(sponsor)).toBe(sponsorNonce + 1n);
+  });
+});
+
+describe("createKeyPayer nonces", () => {
+  const requirements = buildPaymentRequirements(serverConfig, { amount: "10000" });
+  const call = () => buildPaymentCall(requirements, generateNonce());
+  const payerOn = (chain: StacksChainProvider) =>
+    createKeyPayer({ privateKey: payerKey, network: STACKS_TESTNET, chain });
+  const pay = (payer: KeyPayer) => payer.pay(requirements, new Uint8Array(), call());
+  const nonceOf = (tx: string | Uint8Array) =>
+    deserializeTransaction(tx).auth.spendingCondition.nonce;
+
+  // A chain that has seen none of the payer's txs and records broadcast nonces
+  function mempool(reject: (nonce: bigint) => boolean = () => false) {
+    const nonces: bigint[] = [];
+    const fake: StacksChainProvider = {
+      ...chain,
+      getAccountNonce: async () => 0n,
+      async broadcast(bytes) {
+        const nonce = nonceOf(bytes);
+        if (reject(nonce)) return "Broadcast rejected: NotEnoughFunds";
+        nonces.push(nonce);
+        return { txId: `0x${nonce}` };
+      },
+    };
+    return { chain: fake, nonces };
+  }
+
+  it("gives concurrent payments their own nonces", async () => {
+    const { chain, nonces } = mempool();
+    const payer = payerOn(chain);
+    await Promise.all([pay(payer), pay(payer), pay(payer)]);
+    expect(nonces.sort()).toEqual([0n, 1n, 2n]);
+  });
+
+  it("hands back the nonce of a rejected broadcast", async () => {
+    let rejectNext = true;
+    const { chain, nonces } = mempool(() => {
+      const reject = rejectNext;
+      rejectNext = false;
+      return reject;
+    });
+    const payer = payerOn(chain);
+    await expect(pay(payer)).rejects.toThrow("NotEnoughFunds");
+    await pay(payer);
+    expect(nonces).toEqual([0n]);
+  });
+
+  it("signs sponsored payments at the chain's nonce without counting them", async () => {
+    const { chain, nonces } = mempool();
+    const payer = payerOn(chain);
+    const signSponsored = () =>
+      payer.signSponsored(requirements, new Uint8Array(), call());
+
+    // The server never broadcasts either signed tx
+    expect(nonceOf(await signSponsored())).toBe(0n);
+    expect(nonceOf(await signSponsored())).toBe(0n);
+    await pay(payer);
+    expect(nonces).toEqual([0n]);
+  });
+});
+
+describe("agent-reader on simnet", () => {
+  it("reads back an agent registered through the provider", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new Error("offline");
+      })
+    );
+    const config = { contractAddress: deployer, network: STACKS_TESTNET, chain };
+    const call = buildRegisterAgent(config, {
+      name: "Offline Agent",
+      descriptionUrl: "https://example.com/agent",
+      pricePerTask: 5_000n,
+      acceptsStx: true,
+      acceptsSip010: false,
+    });
+    const tx = await makeContractCall({
+      contractAddress: call.contractAddress,
+      contractName: call.contractName,
+      functionName: call.functionName,
+      functionArgs: call.functionArgs,
+      senderKey: sponsorKey,
+      fee: 0,
+      nonce: 0,
+      network: "testnet",
+    });
+    await chain.broadcast(tx.serializeBytes());
+
+    expect(await getAgent(config, sponsor)).toMatchObject({
+      name: "Offline Agent",
+      pricePerTask: 5_000n,
+    });
+  });
+});